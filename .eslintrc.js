@@ -3,13 +3,13 @@ module.exports = {
   parserOptions: {
     ecmaVersion: 2020,
     sourceType: 'module',
-    project: './tsconfig.json'
+    project: './tsconfig.eslint.json'
   },
   plugins: ['@typescript-eslint'],
   extends: [
     'eslint:recommended',
-    '@typescript-eslint/recommended',
-    '@typescript-eslint/recommended-requiring-type-checking'
+    'plugin:@typescript-eslint/recommended',
+    'plugin:@typescript-eslint/recommended-requiring-type-checking'
   ],
   rules: {
     // TypeScript specific rules
@@ -21,16 +21,20 @@ module.exports = {
     '@typescript-eslint/no-unsafe-member-access': 'warn',
     '@typescript-eslint/no-unsafe-call': 'warn',
     '@typescript-eslint/no-unsafe-return': 'warn',
+    '@typescript-eslint/no-unsafe-argument': 'warn',
+    '@typescript-eslint/require-await': 'warn',
+    // Errors are interpolated as `Failed to ...: ${error}` throughout
+    '@typescript-eslint/restrict-template-expressions': 'warn',
     
     // General rules
     'no-console': 'warn',
     'prefer-const': 'error',
     'no-var': 'error',
     'eqeqeq': ['error', 'always'],
-    'curly': ['error', 'all'],
+    'curly': ['error', 'multi-line'],
     'brace-style': ['error', '1tbs'],
     'comma-dangle': ['error', 'never'],
-    'quotes': ['error', 'single'],
+    'quotes': ['error', 'single', { avoidEscape: true, allowTemplateLiterals: true }],
     'semi': ['error', 'always'],
     
     // Import rules
@@ -46,6 +50,15 @@ module.exports = {
     es2020: true,
     jest: true
   },
+  overrides: [
+    {
+      // jest.mocked(client.method) references methods without calling them
+      files: ['src/tests/**/*.ts'],
+      rules: {
+        '@typescript-eslint/unbound-method': 'off'
+      }
+    }
+  ],
   ignorePatterns: [
     'dist/',
     'node_modules/',
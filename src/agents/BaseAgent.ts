@@ -1,31 +1,63 @@
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatAnthropic } from '@langchain/anthropic';
 import { BaseLanguageModel } from '@langchain/core/language_models/base';
-import { HumanMessage, SystemMessage, AIMessage } from '@langchain/core/messages';
-import { v4 as uuidv4 } from 'uuid';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { z } from 'zod';
 import winston from 'winston';
 import { 
+  AgentCapability, 
   AgentConfig, 
   AgentTask, 
-  TaskStatus, 
   AgentType,
-  AgentCapability,
+  CodeGenerationResult,
   GeneratedFile,
-  CodeGenerationResult
+  ModelRoutingConfig,
+  ModelSettings,
+  ProjectContext,
+  StructuredOutputOptions,
+  TaskStatus,
+  TokenUsage
 } from '../types';
-import { CodeDisplayer, CodeDisplayOptions } from '../utils/CodeDisplayer';
+import { CodeDisplayOptions, CodeDisplayer } from '../utils/CodeDisplayer';
+import { RetryPolicy } from '../utils/RetryPolicy';
+import { PermanentTaskError } from '../utils/errors';
+import { Cassette } from '../llm/Cassette';
+import { createLanguageModel } from '../llm/ModelProvider';
+import { resolveModelSettings } from '../llm/ModelRouting';
+import { PromptLibrary } from '../prompts/PromptLibrary';
+import { RenderedPrompt } from '../prompts/PromptTemplate';
+import { describeProjectContext } from '../project/ProjectScanner';
+import { ModelResponse, addUsage, createUsage, emptyUsage, estimateTokens, extractModelUsage } from '../llm/usage';
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface TaskExecutionContext {
+  usage: TokenUsage;
+  settings: ModelSettings;
+  promptTemplates: string[];
+}
+
+const taskContext = new AsyncLocalStorage<TaskExecutionContext>();
 
 export abstract class BaseAgent {
   protected id: string;
   protected name: string;
   protected type: AgentType;
-  protected model: BaseLanguageModel;
   protected capabilities: AgentCapability[];
   protected maxConcurrentTasks: number;
   protected currentTasks: Map<string, AgentTask>;
   protected logger: winston.Logger;
   protected retryAttempts: number;
+  protected retryPolicy: RetryPolicy;
   protected timeout: number;
+  protected structuredOutputRetries: number;
+  protected modelSettings: ModelSettings;
+  protected tokenUsage: TokenUsage;
+  protected prompts: PromptLibrary;
+  protected projectContext?: ProjectContext;
+  private taskControllers: Map<string, AbortController>;
+  private runningSlots: number;
+  private slotQueue: Array<() => void>;
+  private cassette?: Cassette;
+  private modelRouting?: ModelRoutingConfig;
+  private models: Map<string, BaseLanguageModel>;
 
   constructor(config: AgentConfig) {
     this.id = config.id;
@@ -35,10 +67,26 @@ export abstract class BaseAgent {
     this.maxConcurrentTasks = config.maxConcurrentTasks;
     this.currentTasks = new Map();
     this.retryAttempts = config.retryAttempts;
+    this.retryPolicy = new RetryPolicy({ maxAttempts: config.retryAttempts, ...config.retryPolicy });
     this.timeout = config.timeout;
+    this.structuredOutputRetries = config.structuredOutputRetries ?? 2;
+    this.taskControllers = new Map();
+    this.runningSlots = 0;
+    this.slotQueue = [];
 
-    // Initialize language model based on configuration
-    this.model = this.initializeModel(config.model);
+    // Resolve model settings from configuration; routing rules for this agent type take precedence.
+    // Models are created on first use, so replayed cassettes never need provider credentials.
+    this.modelRouting = config.modelRouting;
+    this.modelSettings = resolveModelSettings(
+      { model: config.model, temperature: config.temperature, maxTokens: config.maxTokens, fallbacks: config.fallbackModels },
+      this.modelRouting,
+      config.type
+    );
+    this.models = new Map();
+    this.tokenUsage = emptyUsage();
+    this.cassette = Cassette.fromConfig(config.cassette);
+    this.prompts = new PromptLibrary(config.promptTemplatesDir);
+    this.projectContext = config.projectContext;
     
     // Initialize logger
     this.logger = winston.createLogger({
@@ -64,101 +112,214 @@ export abstract class BaseAgent {
     });
   }
 
-  private initializeModel(modelName: string): BaseLanguageModel {
-    if (modelName.startsWith('gpt-')) {
-      return new ChatOpenAI({
-        modelName,
-        temperature: 0.1,
-        openAIApiKey: process.env.OPENAI_API_KEY
-      });
-    } else if (modelName.startsWith('claude-')) {
-      return new ChatAnthropic({
-        modelName,
-        temperature: 0.1,
-        anthropicApiKey: process.env.ANTHROPIC_API_KEY
-      });
-    } else {
-      throw new Error(`Unsupported model: ${modelName}`);
-    }
-  }
-
   /**
    * Execute a task assigned to this agent
    */
   public async executeTask(task: AgentTask): Promise<any> {
-    if (this.currentTasks.size >= this.maxConcurrentTasks) {
-      throw new Error(`Agent ${this.name} has reached maximum concurrent tasks limit`);
-    }
-
     // Check if agent has required capability for this task
     if (!this.canHandleTask(task)) {
-      throw new Error(`Agent ${this.name} cannot handle task type: ${task.type}`);
+      throw new PermanentTaskError('UNSUPPORTED_TASK', `Agent ${this.name} cannot handle task type: ${task.type}`);
+    }
+
+    // Aborted by stop(); each attempt additionally gets its own timeout
+    const taskController = new AbortController();
+    this.taskControllers.set(task.id, taskController);
+
+    // Tasks beyond maxConcurrentTasks wait for a running one to finish instead of failing
+    if (this.runningSlots < this.maxConcurrentTasks) {
+      this.runningSlots++;
+    } else {
+      try {
+        await this.waitForSlot(task, taskController.signal);
+      } catch (error) {
+        this.taskControllers.delete(task.id);
+        throw error;
+      }
     }
 
     this.currentTasks.set(task.id, { ...task, status: TaskStatus.IN_PROGRESS });
     this.logger.info(`Starting task execution`, { taskId: task.id, taskType: task.type });
 
+    // Collects token usage and prompt templates of all attempts; generateResponse finds it through async context
+    const context: TaskExecutionContext = { usage: emptyUsage(), settings: this.getTaskModelSettings(task), promptTemplates: [] };
+
     const startTime = Date.now();
     let attempt = 0;
 
-    while (attempt < this.retryAttempts) {
-      try {
-        const result = await this.performTask(task);
-        
-        const endTime = Date.now();
-        const duration = endTime - startTime;
-        
-        const completedTask = {
-          ...task,
-          status: TaskStatus.COMPLETED,
-          output: result,
-          actualDuration: duration,
-          updatedAt: new Date()
-        };
+    try {
+      while (attempt < this.retryPolicy.getMaxAttempts()) {
+        try {
+          const result = await this.performTaskWithTimeout(task, taskController.signal, context);
 
-        this.currentTasks.set(task.id, completedTask);
-        this.logger.info(`Task completed successfully`, { 
-          taskId: task.id, 
-          duration: duration + 'ms'
-        });
+          const endTime = Date.now();
+          const duration = endTime - startTime;
 
-        return result;
-      } catch (error) {
-        attempt++;
-        this.logger.warn(`Task execution failed, attempt ${attempt}/${this.retryAttempts}`, {
-          taskId: task.id,
-          error: error instanceof Error ? error.message : String(error)
-        });
-
-        if (attempt >= this.retryAttempts) {
-          const failedTask = {
+          const completedTask = {
             ...task,
-            status: TaskStatus.FAILED,
-            errors: [...(task.errors || []), error instanceof Error ? error.message : String(error)],
+            status: TaskStatus.COMPLETED,
+            output: result,
+            actualDuration: duration,
             updatedAt: new Date()
           };
 
-          this.currentTasks.set(task.id, failedTask);
-          this.logger.error(`Task failed after ${this.retryAttempts} attempts`, { 
+          this.currentTasks.set(task.id, completedTask);
+          this.logger.info(`Task completed successfully`, { 
+            taskId: task.id, 
+            duration: duration + 'ms'
+          });
+
+          return result;
+        } catch (error) {
+          attempt++;
+
+          if (taskController.signal.aborted) {
+            this.currentTasks.set(task.id, {
+              ...task,
+              status: TaskStatus.CANCELLED,
+              errors: [...(task.errors || []), error instanceof Error ? error.message : String(error)],
+              updatedAt: new Date()
+            });
+            this.logger.warn('Task cancelled', { taskId: task.id });
+
+            throw error;
+          }
+
+          const retryable = this.retryPolicy.shouldRetry(error, attempt);
+          this.logger.warn(`Task execution failed, attempt ${attempt}/${this.retryPolicy.getMaxAttempts()}`, {
             taskId: task.id,
+            retryable,
             error: error instanceof Error ? error.message : String(error)
           });
-          
-          throw error;
+
+          if (!retryable) {
+            const failedTask = {
+              ...task,
+              status: TaskStatus.FAILED,
+              errors: [...(task.errors || []), error instanceof Error ? error.message : String(error)],
+              updatedAt: new Date()
+            };
+
+            this.currentTasks.set(task.id, failedTask);
+            this.logger.error(`Task failed after ${attempt} attempts`, { 
+              taskId: task.id,
+              error: error instanceof Error ? error.message : String(error)
+            });
+
+            throw error;
+          }
+
+          // Wait before retry
+          await this.delay(this.retryPolicy.getDelay(error, attempt), taskController.signal);
         }
+      }
+    } finally {
+      this.taskControllers.delete(task.id);
+      this.releaseSlot();
 
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      const storedTask = this.currentTasks.get(task.id);
+      if (storedTask) {
+        this.currentTasks.set(task.id, { ...storedTask, tokenUsage: context.usage, promptTemplates: context.promptTemplates });
       }
     }
 
     throw new Error('Unexpected end of retry loop');
   }
 
+  /**
+   * Wait for a running task to hand over its slot; queued tasks start in arrival order
+   */
+  private async waitForSlot(task: AgentTask, signal: AbortSignal): Promise<void> {
+    this.logger.info('Task queued, agent is at its concurrent tasks limit', { taskId: task.id, queued: this.slotQueue.length + 1 });
+
+    await new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.slotQueue.splice(this.slotQueue.indexOf(start), 1);
+        reject(signal.reason);
+      };
+
+      this.slotQueue.push(start);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Hand the slot of a finished task to the next queued one, if any
+   */
+  private releaseSlot(): void {
+    const next = this.slotQueue.shift();
+    if (next) {
+      next();
+    } else {
+      this.runningSlots--;
+    }
+  }
+
+  /**
+   * Run a single attempt of performTask, rejecting once the timeout elapses or the task is cancelled
+   */
+  private async performTaskWithTimeout(
+    task: AgentTask,
+    taskSignal: AbortSignal,
+    context: TaskExecutionContext
+  ): Promise<any> {
+    const controller = new AbortController();
+    const onTaskAbort = () => controller.abort(taskSignal.reason);
+
+    if (taskSignal.aborted) {
+      throw taskSignal.reason;
+    }
+    taskSignal.addEventListener('abort', onTaskAbort, { once: true });
+
+    let timer: NodeJS.Timeout | undefined;
+    if (this.timeout > 0 && Number.isFinite(this.timeout)) {
+      timer = setTimeout(
+        () => controller.abort(new Error(`Task ${task.id} timed out after ${this.timeout}ms`)),
+        this.timeout
+      );
+    }
+
+    const aborted = new Promise<never>((_resolve, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+
+    try {
+      const execution = taskContext.run(context, () => this.performTask(task, controller.signal));
+      return await Promise.race([execution, aborted]);
+    } finally {
+      clearTimeout(timer);
+      taskSignal.removeEventListener('abort', onTaskAbort);
+    }
+  }
+
+  /**
+   * Sleep for the given time, waking up early with a rejection if the signal is aborted
+   */
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   /**
    * Abstract method that each agent must implement to perform their specific tasks
+   *
+   * The signal is aborted when the task times out or the agent is stopped and should be
+   * passed on to generateResponse and MCP client calls.
    */
-  protected abstract performTask(task: AgentTask): Promise<any>;
+  protected abstract performTask(task: AgentTask, signal: AbortSignal): Promise<any>;
 
   /**
    * Check if this agent can handle the given task type
@@ -175,7 +336,8 @@ export abstract class BaseAgent {
   protected async generateResponse(
     systemPrompt: string, 
     userPrompt: string, 
-    context?: any
+    context?: any,
+    signal?: AbortSignal
   ): Promise<string> {
     const messages = [
       new SystemMessage(systemPrompt),
@@ -186,8 +348,172 @@ export abstract class BaseAgent {
       messages.splice(1, 0, new HumanMessage(`Context: ${JSON.stringify(context, null, 2)}`));
     }
 
-    const response = await this.model.invoke(messages);
-    return response.content.toString();
+    const execution = taskContext.getStore();
+    const settings = execution?.settings || this.modelSettings;
+    const candidates = [...new Set([settings.model, ...(settings.fallbacks || [])])];
+
+    for (let index = 0; ; index++) {
+      const modelName = candidates[index];
+
+      try {
+        const invoke = async (): Promise<ModelResponse> => {
+          const response = await this.getModel(modelName, settings).invoke(messages, { signal });
+          return { content: response.content.toString(), usage: extractModelUsage(response) };
+        };
+
+        // In record/replay mode exchanges go through the cassette instead of straight to the model
+        const response = this.cassette ? await this.cassette.run(messages, invoke) : await invoke();
+
+        const usage = createUsage(modelName, response.usage || {
+          promptTokens: estimateTokens(messages.map(m => m.content.toString()).join('\n')),
+          completionTokens: estimateTokens(response.content)
+        });
+        this.tokenUsage = addUsage(this.tokenUsage, usage);
+        if (execution) {
+          execution.usage = addUsage(execution.usage, usage);
+        }
+
+        return response.content;
+      } catch (error) {
+        if (signal?.aborted || index === candidates.length - 1) {
+          throw error;
+        }
+        this.logger.warn(`Model ${modelName} failed, falling back to ${candidates[index + 1]}`, { error });
+      }
+    }
+  }
+
+  /**
+   * Get token usage recorded for a task, including all of its attempts
+   */
+  public getTaskTokenUsage(taskId: string): TokenUsage | undefined {
+    return this.currentTasks.get(taskId)?.tokenUsage;
+  }
+
+  /**
+   * Get the "name@version" of every prompt template rendered for a task
+   */
+  public getTaskPromptTemplates(taskId: string): string[] | undefined {
+    return this.currentTasks.get(taskId)?.promptTemplates;
+  }
+
+  /**
+   * Condensed description of the target project for prompts
+   */
+  protected describeProject(includeSample: boolean = false): string {
+    return this.projectContext
+      ? describeProjectContext(this.projectContext, { includeSample })
+      : 'None provided';
+  }
+
+  /**
+   * Render a prompt template and record its version on the running task
+   */
+  protected async renderPrompt(name: string, variables: Record<string, unknown>): Promise<RenderedPrompt> {
+    const prompt = await this.prompts.render(name, variables);
+
+    const execution = taskContext.getStore();
+    if (execution && !execution.promptTemplates.includes(prompt.template)) {
+      execution.promptTemplates.push(prompt.template);
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Model settings for a task: routing rules for its type, then a model forced by the coordinator (budget downgrade)
+   */
+  protected getTaskModelSettings(task: AgentTask): ModelSettings {
+    const settings = resolveModelSettings(this.modelSettings, this.modelRouting, this.type, task.type);
+    return task.model ? { ...settings, model: task.model } : settings;
+  }
+
+  /**
+   * Get the language model for a model name and sampling settings, creating it on first use
+   */
+  private getModel(modelName: string, settings: ModelSettings): BaseLanguageModel {
+    const key = `${modelName}|${settings.temperature ?? ''}|${settings.maxTokens ?? ''}`;
+
+    let model = this.models.get(key);
+    if (!model) {
+      model = createLanguageModel(modelName, { temperature: settings.temperature, maxTokens: settings.maxTokens });
+      this.models.set(key, model);
+    }
+
+    return model;
+  }
+
+  /**
+   * Generate a JSON response validated against a zod schema
+   *
+   * Invalid responses are sent back to the model together with the validation errors,
+   * up to `structuredOutputRetries` times, before giving up with an error.
+   */
+  protected async generateStructured<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    systemPrompt: string,
+    userPrompt: string,
+    options: StructuredOutputOptions = {}
+  ): Promise<T> {
+    const maxAttempts = 1 + (options.maxRetries ?? this.structuredOutputRetries);
+    let prompt = userPrompt;
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const response = await this.generateResponse(systemPrompt, prompt, options.context, options.signal);
+
+      let parsed: unknown;
+      try {
+        parsed = this.extractJson(response);
+      } catch (error) {
+        lastError = `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+        prompt = this.buildRepairPrompt(userPrompt, response, lastError);
+        continue;
+      }
+
+      const result = schema.safeParse(parsed);
+      if (result.success) {
+        return result.data;
+      }
+
+      lastError = result.error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      prompt = this.buildRepairPrompt(userPrompt, response, lastError);
+
+      this.logger.warn(`Structured response failed validation, attempt ${attempt}/${maxAttempts}`, { errors: lastError });
+    }
+
+    throw new Error(`Invalid structured response after ${maxAttempts} attempts: ${lastError}`);
+  }
+
+  /**
+   * Parse JSON from a model response, tolerating code fences and surrounding prose
+   */
+  private extractJson(response: string): unknown {
+    const text = response.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      const start = text.search(/[[{]/);
+      const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+      if (start === -1 || end <= start) {
+        throw error;
+      }
+      return JSON.parse(text.substring(start, end + 1));
+    }
+  }
+
+  private buildRepairPrompt(userPrompt: string, response: string, errors: string): string {
+    return `${userPrompt}
+
+    Your previous response could not be used:
+    ${response}
+
+    Validation errors: ${errors}
+
+    Respond again with corrected, valid JSON only.`;
   }
 
   /**
@@ -249,8 +575,11 @@ export abstract class BaseAgent {
       name: this.name,
       type: this.type,
       capabilities: this.capabilities,
+      model: this.modelSettings.model,
       currentTasks: Array.from(this.currentTasks.values()),
-      availableCapacity: this.maxConcurrentTasks - this.currentTasks.size
+      availableCapacity: this.maxConcurrentTasks - this.runningSlots,
+      queuedTasks: this.slotQueue.length,
+      tokenUsage: { ...this.tokenUsage }
     };
   }
 
@@ -260,7 +589,11 @@ export abstract class BaseAgent {
   public async stop(): Promise<void> {
     this.logger.info(`Stopping agent ${this.name}`);
     
-    // Cancel all pending tasks
+    // Abort in-flight work and cancel all pending tasks
+    for (const controller of this.taskControllers.values()) {
+      controller.abort(new Error(`Agent ${this.name} stopped`));
+    }
+
     for (const [taskId, task] of this.currentTasks.entries()) {
       if (task.status === TaskStatus.IN_PROGRESS) {
         this.currentTasks.set(taskId, {
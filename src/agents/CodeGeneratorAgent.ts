@@ -0,0 +1,727 @@
+import { BaseAgent } from './BaseAgent';
+import {
+  AgentTask,
+  AgentTaskType,
+  AgentType,
+  CodeDiagnostic,
+  CodeGenerationRequest,
+  CodeGenerationResult,
+  CodeValidationReport,
+  DesignSpecification,
+  FileType,
+  GeneratedFile
+} from '../types';
+import { DesignToken, FigmaAnalysisResult } from './FigmaDesignerAgent';
+import { QAReport } from './QATesterAgent';
+import { readProjectComponent } from '../project/ProjectScanner';
+import { CodeValidator, CodeValidatorOptions, formatDiagnostics } from '../validation/CodeValidator';
+import { PermanentTaskError } from '../utils/errors';
+import { z } from 'zod';
+
+export interface CodeValidationOptions extends Omit<CodeValidatorOptions, 'projectContext'> {
+  maxFixIterations?: number;
+}
+
+const DEFAULT_MAX_FIX_ITERATIONS = 2;
+
+// Unknown file types are detected from the path instead of failing the response
+const GeneratedFilesSchema = z.object({
+  files: z.array(z.object({
+    path: z.string().min(1),
+    content: z.string(),
+    type: z.nativeEnum(FileType).optional().catch(undefined),
+    description: z.string().default('')
+  }))
+});
+
+export class CodeGeneratorAgent extends BaseAgent {
+  private validator: CodeValidator;
+  private maxFixIterations: number;
+
+  constructor(config: any, validationOptions: CodeValidationOptions = {}) {
+    super({
+      ...config,
+      type: AgentType.CODE_GENERATOR,
+      capabilities: [{
+        name: 'Code Generation',
+        description: 'Generate frontend components, styles, tests and documentation from requirements and design specifications',
+        requiredServices: ['AI Generation'],
+        supportedOperations: [
+          AgentTaskType.GENERATE_CODE,
+          AgentTaskType.CREATE_TESTS,
+          AgentTaskType.VALIDATE_CODE
+        ]
+      }]
+    });
+
+    this.validator = new CodeValidator({ ...validationOptions, projectContext: this.projectContext });
+    this.maxFixIterations = validationOptions.maxFixIterations ?? DEFAULT_MAX_FIX_ITERATIONS;
+  }
+
+  protected async performTask(task: AgentTask, signal: AbortSignal): Promise<any> {
+    switch (task.type) {
+      case AgentTaskType.GENERATE_CODE:
+        return this.generateCode(task.input, signal);
+      case AgentTaskType.CREATE_TESTS:
+        return this.createTests(task.input, signal);
+      case AgentTaskType.VALIDATE_CODE:
+        return this.validateCode(task.input, signal);
+      default:
+        throw new PermanentTaskError('UNSUPPORTED_TASK', `Unsupported task type: ${task.type}`);
+    }
+  }
+
+  /**
+   * Generate component, style, test and documentation files for the analyzed task
+   */
+  private async generateCode(input: any, signal?: AbortSignal): Promise<CodeGenerationResult> {
+    const { analyze_prompt, analyze_jira_task, extract_figma_design, sharedDesignTokens } = input;
+    const figmaAnalysis: FigmaAnalysisResult | undefined = extract_figma_design;
+    const designTokens = this.mergeDesignTokens(sharedDesignTokens || [], figmaAnalysis?.designTokens || []);
+
+    const requests = this.buildGenerationRequests(
+      analyze_prompt || analyze_jira_task,
+      figmaAnalysis
+    );
+
+    this.logger.info(`Generating code for ${requests.length} components`, {
+      components: requests.map(r => r.component)
+    });
+
+    const files: GeneratedFile[] = [];
+    const tests: GeneratedFile[] = [];
+    const dependencies = new Set<string>();
+
+    for (const request of requests) {
+      if (this.projectContext) {
+        request.existingCode = await readProjectComponent(this.projectContext, request.component);
+      }
+
+      const generated = await this.generateComponentFiles(request, designTokens, signal);
+
+      files.push(...generated.filter(f => f.type !== FileType.TEST));
+      tests.push(...generated.filter(f => f.type === FileType.TEST));
+      this.getFrameworkDependencies(request).forEach(dep => dependencies.add(dep));
+    }
+
+    const documentation = this.generateDocumentation(requests, figmaAnalysis);
+    files.push({
+      path: `${this.getComponentDir()}/README.md`,
+      content: documentation,
+      type: FileType.DOCUMENTATION,
+      description: 'Usage documentation for the generated components'
+    });
+
+    const result: CodeGenerationResult = {
+      files,
+      tests,
+      documentation,
+      dependencies: [...dependencies],
+      buildCommands: ['npm install', 'npm run build', 'npm test']
+    };
+
+    this.logger.info('Code generation completed', {
+      filesCount: files.length,
+      testsCount: tests.length
+    });
+
+    this.displayGeneratedCode(result);
+
+    return result;
+  }
+
+  /**
+   * Tokens shared by all stories of an Epic, overridden by the task's own tokens of the same name
+   */
+  private mergeDesignTokens(shared: DesignToken[], own: DesignToken[]): DesignToken[] {
+    return [...new Map([...shared, ...own].map(token => [token.name, token])).values()];
+  }
+
+  /**
+   * Generate test files for previously generated components, taking QA findings into account
+   */
+  private async createTests(input: any, signal?: AbortSignal): Promise<CodeGenerationResult> {
+    const { generate_code, visual_qa_testing } = input;
+    const generated: CodeGenerationResult | undefined = generate_code;
+    const qaReport: QAReport | undefined = visual_qa_testing;
+
+    if (!generated || generated.files.length === 0) {
+      throw new PermanentTaskError('INVALID_INPUT', 'Generated code is required to create tests');
+    }
+
+    const components = generated.files.filter(f => f.type === FileType.COMPONENT);
+    this.logger.info(`Creating tests for ${components.length} components`);
+
+    const tests: GeneratedFile[] = [];
+
+    for (const component of components) {
+      const name = this.getComponentNameFromPath(component.path);
+      const qaIssues = qaReport?.visualTests
+        .find(t => this.toComponentName(t.componentName) === name)
+        ?.issues || [];
+
+      const testFile = await this.generateTestFile(component, qaIssues.map(i => i.description), signal);
+      tests.push(testFile);
+    }
+
+    return {
+      files: [],
+      tests,
+      documentation: generated.documentation,
+      dependencies: generated.dependencies,
+      buildCommands: generated.buildCommands
+    };
+  }
+
+  /**
+   * Type-check and lint the generated files, asking the model to fix errors for a bounded number of iterations
+   *
+   * Fails when errors remain, so broken code never reaches the pull request.
+   */
+  private async validateCode(input: any, signal?: AbortSignal): Promise<CodeGenerationResult> {
+    const { generate_code, create_tests } = input;
+    const generated: CodeGenerationResult | undefined = generate_code;
+    const testResult: CodeGenerationResult | undefined = create_tests;
+
+    if (!generated) {
+      throw new PermanentTaskError('INVALID_INPUT', 'Generated code is required for validation');
+    }
+
+    const tests = testResult?.tests.length ? testResult.tests : generated.tests;
+    let files: GeneratedFile[] = [...generated.files, ...(testResult?.files || []), ...tests];
+    const fixedFiles = new Set<string>();
+
+    let fixIterations = 0;
+    let diagnostics = await this.validator.validate(files);
+    let errors = diagnostics.filter(d => d.severity === 'error');
+
+    while (errors.length > 0 && fixIterations < this.maxFixIterations) {
+      fixIterations++;
+      this.logger.info(`Fixing ${errors.length} errors in generated code (attempt ${fixIterations}/${this.maxFixIterations})`);
+
+      files = await this.fixFiles(files, errors, signal);
+      errors.forEach(error => fixedFiles.add(error.file));
+
+      diagnostics = await this.validator.validate(files);
+      errors = diagnostics.filter(d => d.severity === 'error');
+    }
+
+    const validation: CodeValidationReport = {
+      passed: errors.length === 0,
+      fixIterations,
+      errors,
+      warnings: diagnostics.filter(d => d.severity === 'warning'),
+      fixedFiles: [...fixedFiles]
+    };
+
+    if (!validation.passed) {
+      throw new PermanentTaskError(
+        'VALIDATION_FAILED',
+        `Generated code has ${errors.length} errors after ${fixIterations} fix attempts:\n${formatDiagnostics(errors)}`
+      );
+    }
+
+    this.logger.info('Generated code passed type-check and lint', {
+      fixIterations,
+      warnings: validation.warnings.length
+    });
+
+    return {
+      files: files.filter(f => f.type !== FileType.TEST),
+      tests: files.filter(f => f.type === FileType.TEST),
+      documentation: generated.documentation,
+      dependencies: generated.dependencies,
+      buildCommands: generated.buildCommands,
+      validation
+    };
+  }
+
+  /**
+   * Ask the model to correct every file that has errors; files that could not be fixed are kept as they are
+   */
+  private async fixFiles(files: GeneratedFile[], errors: CodeDiagnostic[], signal?: AbortSignal): Promise<GeneratedFile[]> {
+    const fixed: GeneratedFile[] = [];
+
+    for (const file of files) {
+      const fileErrors = errors.filter(e => e.file === file.path);
+      if (fileErrors.length === 0) {
+        fixed.push(file);
+        continue;
+      }
+
+      const prompt = `
+    Fix the compiler and lint errors in this file without changing its behavior or public API.
+
+    FILE: ${file.path}
+    ${file.content}
+
+    ERRORS:
+    ${formatDiagnostics(fileErrors)}
+
+    TARGET PROJECT:
+    ${this.describeProject()}
+
+    Respond with the corrected file content only.
+    `;
+
+      try {
+        const response = await this.generateResponse(
+          'You are an expert Frontend Developer fixing TypeScript and ESLint errors with minimal changes.',
+          prompt,
+          undefined,
+          signal
+        );
+        fixed.push({ ...file, content: this.stripCodeFence(response) });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        this.logger.warn(`AI fix failed for ${file.path}`, { error });
+        fixed.push(file);
+      }
+    }
+
+    return fixed;
+  }
+
+  /**
+   * Build one generation request per component from task analysis and Figma output
+   */
+  private buildGenerationRequests(
+    taskAnalysis: any,
+    figmaAnalysis?: FigmaAnalysisResult
+  ): CodeGenerationRequest[] {
+    const promptTask = taskAnalysis?.promptTask;
+    const jiraTask = taskAnalysis?.jiraTask;
+
+    const taskId = promptTask?.id || jiraTask?.key || 'task';
+    const framework = promptTask?.framework || this.detectFramework(taskAnalysis?.analysis) || this.projectContext?.framework || 'React';
+    const styling = promptTask?.styling || this.projectContext?.styling || 'CSS';
+    const features: string[] = taskAnalysis?.features || taskAnalysis?.acceptanceCriteria || [];
+
+    const componentSpecs = figmaAnalysis?.componentSpecs || [];
+    const componentNames: string[] = componentSpecs.length > 0
+      ? componentSpecs.map(spec => spec.name)
+      : taskAnalysis?.components?.length > 0
+        ? taskAnalysis.components
+        : [jiraTask?.summary || 'App'];
+
+    const seen = new Set<string>();
+    const requests: CodeGenerationRequest[] = [];
+
+    for (const rawName of componentNames) {
+      const component = this.toComponentName(rawName);
+      if (seen.has(component)) {
+        continue;
+      }
+      seen.add(component);
+
+      const designSpecs = componentSpecs.find(spec => this.toComponentName(spec.name) === component)?.specifications || [];
+
+      requests.push({
+        taskId,
+        component,
+        framework,
+        styling,
+        features,
+        designSpecs,
+        dependencies: this.projectContext?.dependencies
+      });
+    }
+
+    return requests;
+  }
+
+  /**
+   * Generate files for a single component using AI, falling back to templates
+   */
+  private async generateComponentFiles(
+    request: CodeGenerationRequest,
+    designTokens: DesignToken[],
+    signal?: AbortSignal
+  ): Promise<GeneratedFile[]> {
+    const paths = this.getComponentPaths(request);
+    const prompt = `
+    Generate a production-ready ${request.framework} component using ${request.styling} for styling.
+
+    COMPONENT: ${request.component}
+
+    FEATURES:
+    ${request.features.map(f => `- ${f}`).join('\n') || 'None specified'}
+
+    DESIGN SPECIFICATIONS:
+    ${request.designSpecs.map(s => `- ${s.property}: ${s.value}${s.unit || ''}`).join('\n') || 'None provided'}
+
+    DESIGN TOKENS:
+    ${designTokens.map(t => `- ${t.name} (${t.cssProperty}): ${t.value}`).join('\n') || 'None provided'}
+
+    TARGET PROJECT (follow its import aliases, component library, naming and formatting):
+    ${this.describeProject(true)}
+
+    EXISTING ${request.component} SOURCE (update it instead of starting over):
+    ${request.existingCode || 'None, create a new component'}
+
+    Create these files:
+    - Component: ${paths.component}
+    ${paths.style ? `- Styles: ${paths.style}` : ''}
+    - Unit tests: ${paths.test}
+
+    Respond with JSON in the following format:
+    {
+      "files": [
+        { "path": "file path", "type": "COMPONENT|STYLE|TEST", "description": "short description", "content": "file content" }
+      ]
+    }
+    `;
+
+    try {
+      const response = await this.generateStructured(
+        GeneratedFilesSchema,
+        'You are an expert Frontend Developer. Generate clean, typed, accessible components that match design specifications exactly. Respond in valid JSON format only.',
+        prompt,
+        { signal }
+      );
+
+      const files = response.files.map((f): GeneratedFile => ({
+        path: f.path,
+        content: f.content,
+        type: f.type || this.detectFileType(f.path),
+        description: f.description
+      }));
+      if (files.some(f => f.type === FileType.COMPONENT)) {
+        return files;
+      }
+
+      throw new Error('No component file found in AI response');
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      this.logger.warn(`AI generation failed for ${request.component}, using template`, { error });
+      return this.createTemplateFiles(request);
+    }
+  }
+
+  /**
+   * Generate a test file for a component using AI, falling back to a template
+   */
+  private async generateTestFile(component: GeneratedFile, qaFindings: string[], signal?: AbortSignal): Promise<GeneratedFile> {
+    const name = this.getComponentNameFromPath(component.path);
+    const isVue = component.path.endsWith('.vue');
+    const testPath = component.path.replace(/\.[^.]+$/, isVue ? '.test.ts' : '.test.tsx');
+
+    const prompt = `
+    Write unit tests for this component using Jest and ${isVue ? '@vue/test-utils' : '@testing-library/react'}.
+
+    COMPONENT FILE: ${component.path}
+    ${component.content}
+
+    QA FINDINGS TO COVER:
+    ${qaFindings.map(f => `- ${f}`).join('\n') || 'None'}
+
+    Cover rendering, props, user interaction and accessibility attributes.
+    Respond with the test file content only.
+    `;
+
+    try {
+      const response = await this.generateResponse(
+        'You are an expert Frontend QA Engineer writing focused, reliable unit tests.',
+        prompt,
+        undefined,
+        signal
+      );
+
+      return {
+        path: testPath,
+        content: this.stripCodeFence(response),
+        type: FileType.TEST,
+        description: `Unit tests for ${name}`
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      this.logger.warn(`AI test generation failed for ${name}, using template`, { error });
+      return {
+        path: testPath,
+        content: isVue ? this.createVueTestTemplate(name) : this.createReactTestTemplate(name),
+        type: FileType.TEST,
+        description: `Unit tests for ${name}`
+      };
+    }
+  }
+
+  /**
+   * Create component, style and test files from built-in templates
+   */
+  private createTemplateFiles(request: CodeGenerationRequest): GeneratedFile[] {
+    const paths = this.getComponentPaths(request);
+    const isVue = request.framework.toLowerCase() === 'vue';
+    const files: GeneratedFile[] = [];
+
+    files.push({
+      path: paths.component,
+      content: isVue
+        ? this.createVueComponentTemplate(request)
+        : this.createReactComponentTemplate(request, paths.style),
+      type: FileType.COMPONENT,
+      description: `${request.component} ${request.framework} component`
+    });
+
+    if (paths.style) {
+      files.push({
+        path: paths.style,
+        content: this.createStyleTemplate(request),
+        type: FileType.STYLE,
+        description: `Styles for ${request.component}`
+      });
+    }
+
+    files.push({
+      path: paths.test,
+      content: isVue
+        ? this.createVueTestTemplate(request.component)
+        : this.createReactTestTemplate(request.component),
+      type: FileType.TEST,
+      description: `Unit tests for ${request.component}`
+    });
+
+    return files;
+  }
+
+  private createReactComponentTemplate(request: CodeGenerationRequest, stylePath?: string): string {
+    const { component } = request;
+    const className = this.toKebabCase(component);
+    const styleImport = stylePath?.endsWith('.styles.ts')
+      ? `import { Root } from './${component}.styles';\n`
+      : stylePath
+        ? `import './${stylePath.split('/').pop()}';\n`
+        : '';
+    const rootTag = stylePath?.endsWith('.styles.ts') ? 'Root' : 'div';
+
+    return `import React from 'react';
+${styleImport}
+export interface ${component}Props {
+  className?: string;
+  children?: React.ReactNode;
+}
+
+export const ${component}: React.FC<${component}Props> = ({ className, children }) => {
+  return (
+    <${rootTag}
+      className={['${className}', className].filter(Boolean).join(' ')}
+      data-testid="${className}"
+    >
+      {children}
+    </${rootTag}>
+  );
+};
+
+export default ${component};
+`;
+  }
+
+  private createVueComponentTemplate(request: CodeGenerationRequest): string {
+    const className = this.toKebabCase(request.component);
+
+    return `<template>
+  <div class="${className}" data-testid="${className}">
+    <slot />
+  </div>
+</template>
+
+<script setup lang="ts">
+defineOptions({ name: '${request.component}' });
+</script>
+
+<style scoped>
+.${className} {
+${this.toCssDeclarations(request.designSpecs)}
+}
+</style>
+`;
+  }
+
+  private createStyleTemplate(request: CodeGenerationRequest): string {
+    const className = this.toKebabCase(request.component);
+
+    if (request.styling === 'Styled-Components') {
+      return `import styled from 'styled-components';
+
+export const Root = styled.div\`
+${this.toCssDeclarations(request.designSpecs)}
+\`;
+`;
+    }
+
+    return `.${className} {
+${this.toCssDeclarations(request.designSpecs)}
+}
+`;
+  }
+
+  private createReactTestTemplate(component: string): string {
+    const testId = this.toKebabCase(component);
+
+    return `import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { ${component} } from './${component}';
+
+describe('${component}', () => {
+  it('renders children', () => {
+    render(<${component}>Content</${component}>);
+    expect(screen.getByText('Content')).toBeTruthy();
+  });
+
+  it('applies custom class name', () => {
+    render(<${component} className="custom" />);
+    expect(screen.getByTestId('${testId}').className).toContain('custom');
+  });
+});
+`;
+  }
+
+  private createVueTestTemplate(component: string): string {
+    const testId = this.toKebabCase(component);
+
+    return `import { mount } from '@vue/test-utils';
+import ${component} from './${component}.vue';
+
+describe('${component}', () => {
+  it('renders slot content', () => {
+    const wrapper = mount(${component}, { slots: { default: 'Content' } });
+    expect(wrapper.find('[data-testid="${testId}"]').text()).toBe('Content');
+  });
+});
+`;
+  }
+
+  /**
+   * Generate markdown documentation for generated components
+   */
+  private generateDocumentation(requests: CodeGenerationRequest[], figmaAnalysis?: FigmaAnalysisResult): string {
+    const sections = requests.map(request => {
+      const specs = request.designSpecs.length > 0
+        ? request.designSpecs.map(s => `- \`${s.property}\`: ${s.value}${s.unit || ''}`).join('\n')
+        : '- No design specifications provided';
+
+      return `## ${request.component}
+
+Framework: ${request.framework} | Styling: ${request.styling}
+
+### Design specifications
+${specs}`;
+    });
+
+    const guidance = figmaAnalysis?.implementationGuidance?.length
+      ? `\n\n## Implementation notes\n${figmaAnalysis.implementationGuidance.map(g => `- ${g.replace(/^[-*]\s*/, '')}`).join('\n')}`
+      : '';
+
+    return `# Generated Components\n\n${sections.join('\n\n')}${guidance}\n`;
+  }
+
+  private getComponentPaths(request: CodeGenerationRequest): { component: string; style?: string; test: string } {
+    const dir = `${this.getComponentDir()}/${request.component}`;
+
+    if (request.framework.toLowerCase() === 'vue') {
+      return {
+        component: `${dir}/${request.component}.vue`,
+        test: `${dir}/${request.component}.test.ts`
+      };
+    }
+
+    const styleExtension = request.styling === 'SCSS' ? '.scss'
+      : request.styling === 'Styled-Components' ? '.styles.ts'
+        : '.css';
+
+    return {
+      component: `${dir}/${request.component}.tsx`,
+      style: `${dir}/${request.component}${styleExtension}`,
+      test: `${dir}/${request.component}.test.tsx`
+    };
+  }
+
+  private getComponentDir(): string {
+    return this.projectContext?.componentDir || 'src/components';
+  }
+
+  private getFrameworkDependencies(request: CodeGenerationRequest): string[] {
+    const dependencies = request.framework.toLowerCase() === 'vue'
+      ? ['vue', '@vue/test-utils']
+      : ['react', 'react-dom', '@testing-library/react'];
+
+    if (request.styling === 'SCSS') {
+      dependencies.push('sass');
+    } else if (request.styling === 'Styled-Components') {
+      dependencies.push('styled-components');
+    } else if (request.styling === 'Tailwind') {
+      dependencies.push('tailwindcss');
+    } else if (request.styling === 'Material-UI') {
+      dependencies.push('@mui/material');
+    }
+
+    // Only report packages the target project still has to install
+    return dependencies.filter(dep => !request.dependencies?.includes(dep));
+  }
+
+  private detectFramework(analysis: any): string | undefined {
+    const text = JSON.stringify(analysis?.frameworkRecommendations || '').toLowerCase();
+
+    if (text.includes('vue')) {
+      return 'Vue';
+    }
+    if (text.includes('react')) {
+      return 'React';
+    }
+    return undefined;
+  }
+
+  private detectFileType(filePath: string): FileType {
+    if (/\.(test|spec)\.[jt]sx?$/.test(filePath)) {
+      return FileType.TEST;
+    }
+    if (/\.(css|scss|less)$|\.styles\.ts$/.test(filePath)) {
+      return FileType.STYLE;
+    }
+    if (/\.md$/.test(filePath)) {
+      return FileType.DOCUMENTATION;
+    }
+    if (/\.json$|config\.[jt]s$/.test(filePath)) {
+      return FileType.CONFIG;
+    }
+    return FileType.COMPONENT;
+  }
+
+  private toCssDeclarations(specs: DesignSpecification[]): string {
+    return specs
+      .filter(s => !/-\d+$/.test(s.property))
+      .map(s => `  ${s.property}: ${s.value}${s.unit || ''};`)
+      .join('\n');
+  }
+
+  private toComponentName(name: string): string {
+    const words = name
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean);
+
+    const pascal = words
+      .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+      .join('');
+
+    return /^[A-Z]/.test(pascal) ? pascal : `Component${pascal}`;
+  }
+
+  private toKebabCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  }
+
+  private getComponentNameFromPath(filePath: string): string {
+    return (filePath.split('/').pop() || filePath).replace(/\.[^.]+$/, '');
+  }
+
+  private stripCodeFence(content: string): string {
+    const fenced = content.match(/```[a-z]*\n([\s\S]*?)```/);
+    return (fenced ? fenced[1] : content).trim() + '\n';
+  }
+}
@@ -1,11 +1,12 @@
 import { BaseAgent } from './BaseAgent';
+import { PermanentTaskError } from '../utils/errors';
 import { FigmaMCPClient, FigmaMCPConfig } from '../mcp/FigmaMCPClient';
 import { 
   AgentTask, 
   AgentTaskType, 
   AgentType,
-  FigmaDesign,
-  DesignSpecification
+  DesignSpecification,
+  FigmaDesign
 } from '../types';
 
 export interface FigmaAnalysisResult {
@@ -59,19 +60,19 @@ export class FigmaDesignerAgent extends BaseAgent {
     this.figmaClient = new FigmaMCPClient(figmaConfig);
   }
 
-  protected async performTask(task: AgentTask): Promise<any> {
+  protected async performTask(task: AgentTask, signal: AbortSignal): Promise<any> {
     switch (task.type) {
       case AgentTaskType.EXTRACT_FIGMA_DESIGN:
-        return this.extractFigmaDesigns(task.input);
+        return this.extractFigmaDesigns(task.input, signal);
       default:
-        throw new Error(`Unsupported task type: ${task.type}`);
+        throw new PermanentTaskError('UNSUPPORTED_TASK', `Unsupported task type: ${task.type}`);
     }
   }
 
   /**
    * Extract design specifications from Figma URLs
    */
-  private async extractFigmaDesigns(input: any): Promise<FigmaAnalysisResult> {
+  private async extractFigmaDesigns(input: any, signal?: AbortSignal): Promise<FigmaAnalysisResult> {
     const { figmaLinks, analyze_jira_task } = input;
     
     // Get Figma links from previous step if available
@@ -90,10 +91,13 @@ export class FigmaDesignerAgent extends BaseAgent {
       // Extract designs from all Figma links
       for (const link of links) {
         try {
-          const design = await this.figmaClient.getDesignFromUrl(link);
+          const design = await this.figmaClient.getDesignFromUrl(link, signal);
           designs.push(design);
           this.logger.info(`Successfully extracted design: ${design.name}`);
         } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
           this.logger.warn(`Failed to extract design from ${link}`, { error });
         }
       }
@@ -106,7 +110,7 @@ export class FigmaDesignerAgent extends BaseAgent {
       const designTokens = this.extractDesignTokens(designs);
       const componentSpecs = this.extractComponentSpecifications(designs);
       const styleGuide = this.createStyleGuide(designs, designTokens);
-      const implementationGuidance = await this.generateImplementationGuidance(designs, componentSpecs);
+      const implementationGuidance = await this.generateImplementationGuidance(designs, componentSpecs, signal);
 
       this.logger.info(`Design extraction completed. Found ${designs.length} designs, ${designTokens.length} tokens, ${componentSpecs.length} components`);
 
@@ -239,7 +243,6 @@ export class FigmaDesignerAgent extends BaseAgent {
    */
   private determineComponentType(design: FigmaDesign): ComponentSpecification['type'] {
     const name = design.name.toLowerCase();
-    const type = design.type.toLowerCase();
 
     if (name.includes('button') || name.includes('btn')) return 'button';
     if (name.includes('input') || name.includes('field') || name.includes('form')) return 'input';
@@ -344,33 +347,18 @@ export class FigmaDesignerAgent extends BaseAgent {
   /**
    * Generate implementation guidance using AI
    */
-  private async generateImplementationGuidance(designs: FigmaDesign[], components: ComponentSpecification[]): Promise<string[]> {
-    const prompt = `
-    Based on the extracted Figma designs and component specifications, provide implementation guidance for frontend developers.
-
-    DESIGNS:
-    ${designs.map(d => `- ${d.name} (${d.type})`).join('\n')}
-
-    COMPONENTS:
-    ${components.map(c => `- ${c.name} (${c.type}): ${c.specifications.length} specifications`).join('\n')}
-
-    Please provide specific, actionable guidance including:
-    1. Recommended HTML structure for each component
-    2. CSS/SCSS implementation approach
-    3. JavaScript behavior requirements
-    4. Responsive design considerations
-    5. Accessibility requirements
-    6. Performance optimization tips
-    7. Testing recommendations
-
-    Format as a bulleted list of specific recommendations.
-    `;
+  private async generateImplementationGuidance(
+    designs: FigmaDesign[],
+    components: ComponentSpecification[],
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const { system, user } = await this.renderPrompt('figma-implementation-guidance', {
+      designs: designs.map(d => `- ${d.name} (${d.type})`).join('\n'),
+      components: components.map(c => `- ${c.name} (${c.type}): ${c.specifications.length} specifications`).join('\n')
+    });
 
     try {
-      const response = await this.generateResponse(
-        'You are an expert Frontend Developer providing implementation guidance based on design specifications. Focus on practical, actionable advice.',
-        prompt
-      );
+      const response = await this.generateResponse(system, user, undefined, signal);
 
       return response.split('\n').filter(line => line.trim().length > 0);
     } catch (error) {
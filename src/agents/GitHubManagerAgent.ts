@@ -0,0 +1,251 @@
+import { BaseAgent } from './BaseAgent';
+import { PermanentTaskError } from '../utils/errors';
+import { GitHubMCPClient, GitHubMCPConfig } from '../mcp/GitHubMCPClient';
+import {
+  AgentTask,
+  AgentTaskType,
+  AgentType,
+  CodeGenerationResult,
+  GeneratedFile,
+  GitHubPullRequest,
+  TestRunReport
+} from '../types';
+import { QAReport } from './QATesterAgent';
+
+export interface PullRequestOptions {
+  reviewers?: string[];
+  labels?: string[];
+  branchPrefix?: string;
+}
+
+export interface PullRequestResult {
+  pullRequestUrl: string;
+  pullRequestNumber: number;
+  branchName: string;
+  commitSha: string;
+  filesCommitted: number;
+}
+
+export class GitHubManagerAgent extends BaseAgent {
+  private githubClient: GitHubMCPClient;
+  private pullRequestOptions: PullRequestOptions;
+
+  constructor(config: any, githubConfig: GitHubMCPConfig, pullRequestOptions: PullRequestOptions = {}) {
+    super({
+      ...config,
+      type: AgentType.GITHUB_MANAGER,
+      capabilities: [{
+        name: 'GitHub Pull Requests',
+        description: 'Create branches, commit generated files and open pull requests',
+        requiredServices: ['GitHub API'],
+        supportedOperations: [AgentTaskType.CREATE_PULL_REQUEST]
+      }]
+    });
+
+    this.githubClient = new GitHubMCPClient(githubConfig);
+    this.pullRequestOptions = pullRequestOptions;
+  }
+
+  protected async performTask(task: AgentTask, signal: AbortSignal): Promise<any> {
+    switch (task.type) {
+      case AgentTaskType.CREATE_PULL_REQUEST:
+        return this.createPullRequest(task.input, signal);
+      default:
+        throw new PermanentTaskError('UNSUPPORTED_TASK', `Unsupported task type: ${task.type}`);
+    }
+  }
+
+  /**
+   * Create a branch, commit generated files and open a draft pull request
+   */
+  private async createPullRequest(input: any, signal?: AbortSignal): Promise<PullRequestResult> {
+    const { analyze_prompt, analyze_jira_task, generate_code, create_tests, validate_code, run_tests, visual_qa_testing } = input;
+    const generated: CodeGenerationResult | undefined = generate_code;
+    const testResult: CodeGenerationResult | undefined = create_tests;
+    const validated: CodeGenerationResult | undefined = validate_code;
+    const qaReport: QAReport | undefined = visual_qa_testing;
+    const testReport: TestRunReport | undefined = run_tests;
+
+    if (!generated) {
+      throw new PermanentTaskError('INVALID_INPUT', 'Generated code is required to create a pull request');
+    }
+
+    // Validation output already contains the complete, possibly fixed, file set
+    const files = validated ? [...validated.files, ...validated.tests] : this.collectFiles(generated, testResult);
+    if (files.length === 0) {
+      throw new PermanentTaskError('INVALID_INPUT', 'No generated files to commit');
+    }
+
+    const jiraKey: string | undefined = analyze_jira_task?.jiraTask?.key;
+    const title = this.buildTitle(analyze_prompt, analyze_jira_task);
+    const branchName = this.buildBranchName(jiraKey, title);
+    const baseBranch = this.githubClient.getBaseBranch();
+
+    this.logger.info(`Creating pull request from branch ${branchName}`, { filesCount: files.length });
+
+    const baseSha = await this.githubClient.getBranchSha(baseBranch, signal);
+    const branchCreated = await this.githubClient.createBranch(branchName, baseSha, signal);
+    if (!branchCreated) {
+      this.logger.info(`Branch ${branchName} already exists, committing on top of it`);
+    }
+
+    const commitSha = await this.githubClient.commitFiles(branchName, files, title, signal);
+
+    const pullRequest: GitHubPullRequest = {
+      title,
+      body: this.buildBody(analyze_prompt, analyze_jira_task, files, validated || generated, qaReport, testReport),
+      head: branchName,
+      base: baseBranch,
+      draft: true,
+      reviewers: this.pullRequestOptions.reviewers,
+      labels: this.pullRequestOptions.labels || ['ai-generated']
+    };
+
+    // A rerun updates the pull request it opened before instead of failing on a duplicate
+    const existing = branchCreated ? null : await this.githubClient.findOpenPullRequest(branchName, signal);
+    const created = existing
+      ? await this.githubClient.updatePullRequest(existing.number, pullRequest, signal)
+      : await this.githubClient.createPullRequest(pullRequest, signal);
+
+    this.logger.info(existing ? 'Pull request updated' : 'Pull request created', { url: created.url, number: created.number });
+
+    return {
+      pullRequestUrl: created.url,
+      pullRequestNumber: created.number,
+      branchName,
+      commitSha,
+      filesCommitted: files.length
+    };
+  }
+
+  /**
+   * Collect all files to commit, preferring tests from the dedicated test step
+   */
+  private collectFiles(generated: CodeGenerationResult, testResult?: CodeGenerationResult): GeneratedFile[] {
+    const tests = testResult?.tests.length ? testResult.tests : generated.tests;
+    const files = new Map<string, GeneratedFile>();
+
+    for (const file of [...generated.files, ...(testResult?.files || []), ...tests]) {
+      files.set(file.path, file);
+    }
+
+    return [...files.values()];
+  }
+
+  private buildTitle(promptAnalysis: any, jiraAnalysis: any): string {
+    if (jiraAnalysis?.jiraTask) {
+      return `[${jiraAnalysis.jiraTask.key}] ${jiraAnalysis.jiraTask.summary}`;
+    }
+
+    return promptAnalysis?.analysis?.mainGoal || 'AI generated frontend components';
+  }
+
+  private buildBranchName(jiraKey: string | undefined, title: string): string {
+    const prefix = this.pullRequestOptions.branchPrefix || 'feature/';
+
+    if (jiraKey) {
+      return `${prefix}${jiraKey}`;
+    }
+
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 40);
+
+    return `${prefix}ai-${slug || 'components'}-${Date.now().toString(36)}`;
+  }
+
+  /**
+   * Build pull request description from workflow outputs
+   */
+  private buildBody(
+    promptAnalysis: any,
+    jiraAnalysis: any,
+    files: GeneratedFile[],
+    generated: CodeGenerationResult,
+    qaReport?: QAReport,
+    testReport?: TestRunReport
+  ): string {
+    const sections: string[] = [];
+
+    if (jiraAnalysis?.jiraTask) {
+      const { jiraTask } = jiraAnalysis;
+      sections.push(`## Jira\n\n**${jiraTask.key}**: ${jiraTask.summary}\n\nComplexity: ${jiraAnalysis.estimatedComplexity || 'Unknown'}`);
+    }
+
+    if (promptAnalysis?.analysis) {
+      const { analysis } = promptAnalysis;
+      const requirements = [
+        ...(analysis.technicalRequirements || []),
+        ...(analysis.uiRequirements || []),
+        ...(analysis.functionalRequirements || [])
+      ];
+
+      sections.push(`## Analysis\n\n${analysis.mainGoal}\n\nComplexity: ${analysis.complexity}\n\n${requirements.map((r: string) => `- ${r}`).join('\n')}`);
+    }
+
+    sections.push(`## Generated Files\n\n${files.map(f => `- \`${f.path}\` (${f.type})${f.description ? ` - ${f.description}` : ''}`).join('\n')}`);
+
+    if (generated.dependencies.length > 0) {
+      sections.push(`## Dependencies\n\n${generated.dependencies.map(d => `- \`${d}\``).join('\n')}`);
+    }
+
+    if (generated.validation) {
+      const { fixIterations, fixedFiles, warnings } = generated.validation;
+      const fixes = fixIterations > 0
+        ? `Errors fixed automatically in ${fixIterations} iteration(s): ${fixedFiles.map(f => `\`${f}\``).join(', ')}`
+        : 'No errors found';
+
+      sections.push(`## Validation\n\nType-check and lint passed. ${fixes}. Warnings: ${warnings.length}`);
+    }
+
+    if (testReport) {
+      sections.push(this.buildTestSection(testReport));
+    }
+
+    if (qaReport) {
+      const rows = qaReport.visualTests
+        .map(t => `| ${t.componentName} | ${t.passed ? '✅' : '❌'} | ${t.similarity.toFixed(1)}% | ${t.issues.length} |`)
+        .join('\n');
+
+      sections.push(`## QA Report\n\nOverall score: **${qaReport.overallScore}**\n\n| Component | Passed | Similarity | Issues |\n| --- | --- | --- | --- |\n${rows}\n\n${qaReport.recommendations.map(r => `- ${r}`).join('\n')}`);
+    }
+
+    sections.push('_This pull request was generated automatically and should be reviewed before merging._');
+
+    return sections.join('\n\n');
+  }
+
+  private buildTestSection(report: TestRunReport): string {
+    if (report.status === 'skipped' || (report.status === 'error' && report.suites.length === 0)) {
+      return `## Test Results\n\nTests were not run: ${report.message?.split('\n')[0] || report.status}`;
+    }
+
+    const icon = report.status === 'passed' ? '✅' : '❌';
+    const lines = [
+      `## Test Results\n\n${icon} **${report.passed} passed**, ${report.failed} failed, ${report.skipped} skipped (${(report.durationMs / 1000).toFixed(1)}s)`
+    ];
+
+    if (report.coverage) {
+      const { lines: lineCoverage, statements, functions, branches } = report.coverage;
+      lines.push(`Coverage: lines ${lineCoverage}%, statements ${statements}%, functions ${functions}%, branches ${branches}%`);
+    }
+
+    const problems = report.suites.flatMap(suite => suite.status === 'error'
+      ? [`- \`${suite.file}\` could not run`]
+      : suite.failures.map(f => `- \`${suite.file}\`: ${f.test}`));
+    if (problems.length > 0) {
+      lines.push(problems.join('\n'));
+    }
+
+    return lines.join('\n\n');
+  }
+
+  /**
+   * Test connection to GitHub
+   */
+  async testConnection(): Promise<boolean> {
+    return this.githubClient.testConnection();
+  }
+}
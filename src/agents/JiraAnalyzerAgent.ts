@@ -1,16 +1,66 @@
 import { BaseAgent } from './BaseAgent';
+import { PermanentTaskError } from '../utils/errors';
 import { JiraMCPClient, JiraMCPConfig } from '../mcp/JiraMCPClient';
+import { AdfNode, adfBulletList, adfDoc, adfLink, adfParagraph, adfText } from '../mcp/adf';
+import { buildEpicPlan } from '../mcp/jiraEpic';
+import { PullRequestResult } from './GitHubManagerAgent';
+import { QAReport } from './QATesterAgent';
 import { 
   AgentTask, 
   AgentTaskType, 
   AgentType,
-  JiraTask
+  JiraAttachment,
+  JiraEpicPlan,
+  JiraTask,
+  JiraTaskQuery,
+  JiraWriteBackResult,
+  TestRunReport
 } from '../types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+
+export interface JiraAttachmentOptions {
+  cacheDir?: string;
+  maxSizeBytes?: number;
+  maxTextLength?: number; // Characters of each text attachment passed to the analysis
+}
+
+export interface JiraTextAttachment {
+  filename: string;
+  content: string;
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_TEXT_LENGTH = 20000;
+const TEXT_MIME_TYPES = /^(text\/|application\/(json|xml|x-yaml|yaml|csv)\b)/;
+const MAX_COMMENT_FILES = 20;
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|json|ya?ml|csv|xml|html?|css|scss|log)$/i;
+
+// Models sometimes answer a list field with a single sentence
+const stringList = z.union([z.array(z.string()), z.string().transform(value => [value])]).default([]);
+
+const JiraAnalysisSchema = z.object({
+  technicalRequirements: stringList,
+  uiUxRequirements: stringList,
+  businessLogic: stringList,
+  dataRequirements: stringList,
+  testingRequirements: stringList,
+  dependencies: stringList,
+  deliverables: stringList,
+  frameworkRecommendations: stringList,
+  stylingApproach: z.string().default(''),
+  complexityAssessment: z.string().min(1)
+});
+
+export type JiraAnalysis = z.infer<typeof JiraAnalysisSchema>;
 
 export class JiraAnalyzerAgent extends BaseAgent {
   private jiraClient: JiraMCPClient;
+  private attachmentOptions: Required<JiraAttachmentOptions>;
 
-  constructor(config: any, jiraConfig: JiraMCPConfig) {
+  constructor(config: any, jiraConfig: JiraMCPConfig, attachmentOptions: JiraAttachmentOptions = {}) {
     super({
       ...config,
       type: AgentType.JIRA_ANALYZER,
@@ -18,44 +68,74 @@ export class JiraAnalyzerAgent extends BaseAgent {
         name: 'Jira Task Analysis',
         description: 'Analyze Jira tasks and extract development requirements',
         requiredServices: ['Jira API'],
-        supportedOperations: [AgentTaskType.ANALYZE_JIRA_TASK]
+        supportedOperations: [AgentTaskType.ANALYZE_JIRA_TASK, AgentTaskType.SEARCH_JIRA_TASKS, AgentTaskType.DECOMPOSE_JIRA_EPIC]
+      }, {
+        name: 'Jira Write-back',
+        description: 'Post workflow results to Jira tasks and move them to the next status',
+        requiredServices: ['Jira API'],
+        supportedOperations: [AgentTaskType.UPDATE_JIRA_TASK]
       }]
     });
 
     this.jiraClient = new JiraMCPClient(jiraConfig);
+    this.attachmentOptions = {
+      cacheDir: attachmentOptions.cacheDir || path.join(process.cwd(), 'temp', 'jira-attachments'),
+      maxSizeBytes: attachmentOptions.maxSizeBytes || DEFAULT_MAX_ATTACHMENT_SIZE,
+      maxTextLength: attachmentOptions.maxTextLength || DEFAULT_MAX_TEXT_LENGTH
+    };
   }
 
-  protected async performTask(task: AgentTask): Promise<any> {
+  protected async performTask(task: AgentTask, signal: AbortSignal): Promise<any> {
     switch (task.type) {
       case AgentTaskType.ANALYZE_JIRA_TASK:
-        return this.analyzeJiraTask(task.input);
+        return this.analyzeJiraTask(task.input, signal);
+      case AgentTaskType.SEARCH_JIRA_TASKS:
+        return this.searchTasks(task.input, signal);
+      case AgentTaskType.DECOMPOSE_JIRA_EPIC:
+        return this.decomposeEpic(task.input, signal);
+      case AgentTaskType.UPDATE_JIRA_TASK:
+        return this.updateJiraTask(task.input, signal);
       default:
-        throw new Error(`Unsupported task type: ${task.type}`);
+        throw new PermanentTaskError('UNSUPPORTED_TASK', `Unsupported task type: ${task.type}`);
     }
   }
 
   /**
    * Analyze a Jira task and extract development requirements
    */
-  private async analyzeJiraTask(input: any): Promise<any> {
+  private async analyzeJiraTask(input: any, signal?: AbortSignal): Promise<any> {
     const { taskNumber } = input;
     
     this.logger.info(`Analyzing Jira task: ${taskNumber}`);
 
     try {
-      // Fetch task from Jira
-      const jiraTask = await this.jiraClient.getTask(taskNumber);
+      // Fetch task from Jira unless the coordinator already did, e.g. with the children of an Epic
+      const jiraTask: JiraTask = input.jiraTask ? { ...input.jiraTask } : await this.jiraClient.getTask(taskNumber, signal);
+      jiraTask.attachments = await this.downloadAttachments(jiraTask.attachments || [], signal);
+
+      const referenceImages = jiraTask.attachments.filter(a => a.localPath && this.isImage(a));
+      const textAttachments = await this.readTextAttachments(jiraTask.attachments);
       
       // Use AI to analyze the task and extract structured information
-      const analysisPrompt = this.buildAnalysisPrompt(jiraTask);
-      const analysis = await this.generateResponse(
-        this.getSystemPrompt(),
-        analysisPrompt,
-        jiraTask
+      const { system, user } = await this.renderPrompt(
+        'jira-analysis',
+        this.buildPromptVariables(jiraTask, referenceImages, textAttachments)
       );
-
-      // Parse AI response to structured data
-      const structuredAnalysis = this.parseAnalysisResponse(analysis);
+      let structuredAnalysis: JiraAnalysis;
+      try {
+        structuredAnalysis = await this.generateStructured(
+          JiraAnalysisSchema,
+          system,
+          user,
+          { context: jiraTask, signal }
+        );
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        this.logger.warn('AI analysis failed, using fallback analysis', { error });
+        structuredAnalysis = this.createFallbackAnalysis(jiraTask, referenceImages);
+      }
 
       this.logger.info(`Task analysis completed for: ${taskNumber}`);
 
@@ -64,6 +144,8 @@ export class JiraAnalyzerAgent extends BaseAgent {
         analysis: structuredAnalysis,
         figmaLinks: jiraTask.figmaLinks || [],
         acceptanceCriteria: jiraTask.acceptanceCriteria || [],
+        referenceImages,
+        textAttachments,
         estimatedComplexity: this.estimateComplexity(jiraTask),
         recommendedApproach: this.recommendApproach(jiraTask)
       };
@@ -74,107 +156,251 @@ export class JiraAnalyzerAgent extends BaseAgent {
   }
 
   /**
-   * Build analysis prompt for AI
+   * Find the issues selected by a JQL query, the current user's open tasks or a sprint
    */
-  private buildAnalysisPrompt(jiraTask: JiraTask): string {
-    return `
-    Please analyze this Jira task and extract the following information:
-
-    TASK DETAILS:
-    - Key: ${jiraTask.key}
-    - Summary: ${jiraTask.summary}
-    - Description: ${jiraTask.description}
-    - Issue Type: ${jiraTask.issueType}
-    - Priority: ${jiraTask.priority}
-    - Labels: ${jiraTask.labels.join(', ')}
-    - Components: ${jiraTask.components.join(', ')}
-
-    ACCEPTANCE CRITERIA:
-    ${jiraTask.acceptanceCriteria?.join('\n') || 'None specified'}
-
-    FIGMA LINKS:
-    ${jiraTask.figmaLinks?.join('\n') || 'None provided'}
-
-    Please provide a structured analysis including:
-    1. **Technical Requirements**: What needs to be built technically
-    2. **UI/UX Requirements**: User interface and experience requirements
-    3. **Business Logic**: Any business rules or logic that needs implementation
-    4. **Data Requirements**: What data structures or APIs are needed
-    5. **Testing Requirements**: What should be tested
-    6. **Dependencies**: Any external dependencies or integrations needed
-    7. **Deliverables**: Specific files or components that need to be created
-    8. **Framework Recommendations**: Suggested frontend framework/libraries
-    9. **Styling Approach**: CSS methodology or styling framework suggestions
-    10. **Complexity Assessment**: Simple/Medium/Complex with reasoning
-
-    Format your response as structured JSON.
-    `;
+  private async searchTasks(query: JiraTaskQuery, signal?: AbortSignal): Promise<JiraTask[]> {
+    if (query.jql) {
+      return this.jiraClient.getTasksByJQL(query.jql, undefined, signal);
+    }
+    if (query.myTasks) {
+      return this.jiraClient.getMyTasks(signal);
+    }
+    if (query.sprintId) {
+      return this.jiraClient.getSprintTasks(query.sprintId, signal);
+    }
+
+    throw new Error('Jira task query requires jql, myTasks or sprintId');
   }
 
   /**
-   * Get system prompt for task analysis
+   * Plan one story workflow per child issue when the task is an Epic; returns null for any other issue type
    */
-  private getSystemPrompt(): string {
-    return `
-    You are an expert Frontend Development Analyst specializing in converting Jira tickets into actionable development plans.
-
-    Your role is to:
-    - Analyze Jira tasks thoroughly and extract all technical requirements
-    - Identify UI/UX patterns and components needed
-    - Suggest appropriate technical implementations
-    - Estimate complexity and effort required
-    - Identify potential challenges and solutions
-    - Recommend best practices for frontend development
-
-    Always provide detailed, actionable analysis that a developer can immediately use to start coding.
-    Focus on modern frontend development practices using React, Vue, Angular, or vanilla JavaScript as appropriate.
-    Consider responsive design, accessibility, performance, and maintainability.
-
-    Respond in valid JSON format only.
-    `;
+  private async decomposeEpic(input: any, signal?: AbortSignal): Promise<JiraEpicPlan | null> {
+    const { taskNumber } = input;
+
+    const jiraTask = await this.jiraClient.getTask(taskNumber, signal);
+    if (jiraTask.issueType !== 'Epic') {
+      return null;
+    }
+
+    const children = await this.jiraClient.getEpicChildren(jiraTask.key, signal);
+    const plan = buildEpicPlan(jiraTask, children);
+
+    this.logger.info(`Epic ${jiraTask.key} decomposed into ${plan.stories.length} stories`, { batches: plan.batches });
+    if (plan.unordered.length > 0) {
+      this.logger.warn(`Dependency cycle between stories of Epic ${jiraTask.key}, running them last without ordering`, {
+        stories: plan.unordered
+      });
+    }
+
+    return plan;
   }
 
   /**
-   * Parse AI response into structured data
+   * Post a summary of the finished workflow and apply the configured transition
+   *
+   * Comment and transition are independent; their failures are collected instead of failing the task.
    */
-  private parseAnalysisResponse(response: string): any {
-    try {
-      // Try to parse as JSON first
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+  private async updateJiraTask(input: any, signal?: AbortSignal): Promise<JiraWriteBackResult> {
+    const { taskKey, comment, transition } = input;
+    const result: JiraWriteBackResult = { commentPosted: false, errors: [] };
+
+    const attempt = async (action: () => Promise<void>) => {
+      try {
+        await action();
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        result.errors.push(error instanceof Error ? error.message : String(error));
       }
+    };
 
-      // If not valid JSON, create structured response from text
-      return {
-        technicalRequirements: this.extractSection(response, 'Technical Requirements'),
-        uiUxRequirements: this.extractSection(response, 'UI/UX Requirements'),
-        businessLogic: this.extractSection(response, 'Business Logic'),
-        dataRequirements: this.extractSection(response, 'Data Requirements'),
-        testingRequirements: this.extractSection(response, 'Testing Requirements'),
-        dependencies: this.extractSection(response, 'Dependencies'),
-        deliverables: this.extractSection(response, 'Deliverables'),
-        frameworkRecommendations: this.extractSection(response, 'Framework Recommendations'),
-        stylingApproach: this.extractSection(response, 'Styling Approach'),
-        complexityAssessment: this.extractSection(response, 'Complexity Assessment')
-      };
-    } catch (error) {
-      this.logger.warn('Failed to parse analysis response as JSON, using raw text');
-      return {
-        rawAnalysis: response,
-        technicalRequirements: ['Could not parse structured requirements'],
-        complexityAssessment: 'Medium'
-      };
+    if (comment) {
+      await attempt(async () => {
+        await this.jiraClient.addComment(taskKey, this.buildWorkflowComment(input), signal);
+        result.commentPosted = true;
+      });
+    }
+
+    if (transition) {
+      await attempt(async () => {
+        result.transition = await this.jiraClient.transitionTaskByName(taskKey, transition, signal);
+      });
+    }
+
+    if (result.errors.length > 0) {
+      this.logger.warn(`Jira write-back for ${taskKey} incomplete`, { errors: result.errors });
+    } else {
+      this.logger.info(`Jira task ${taskKey} updated`, { commentPosted: result.commentPosted, transition: result.transition });
+    }
+
+    return result;
+  }
+
+  /**
+   * Summary comment with the analysis, generated files, QA and test results and the pull request link
+   */
+  private buildWorkflowComment(input: any): AdfNode {
+    const { analyze_jira_task, visual_qa_testing, run_tests, create_pull_request, generatedFiles = [] } = input;
+    const qaReport: QAReport | undefined = visual_qa_testing;
+    const testReport: TestRunReport | undefined = run_tests;
+    const pullRequest: PullRequestResult | undefined = create_pull_request;
+    const analysis: JiraAnalysis | undefined = analyze_jira_task?.analysis;
+    const files = generatedFiles as string[];
+
+    const content: AdfNode[] = [adfParagraph(adfText('Frontend automation workflow completed', [{ type: 'strong' }]))];
+
+    if (analyze_jira_task?.estimatedComplexity) {
+      content.push(adfParagraph(`Estimated complexity: ${analyze_jira_task.estimatedComplexity}`));
+    }
+
+    if (analysis?.deliverables.length) {
+      content.push(adfParagraph('Deliverables:'), adfBulletList(analysis.deliverables.map(deliverable => [deliverable])));
+    }
+
+    if (files.length > 0) {
+      content.push(
+        adfParagraph(`Generated files (${files.length}):`),
+        adfBulletList(files.slice(0, MAX_COMMENT_FILES).map(file => [adfText(file, [{ type: 'code' }])]))
+      );
+      if (files.length > MAX_COMMENT_FILES) {
+        content.push(adfParagraph(`...and ${files.length - MAX_COMMENT_FILES} more`));
+      }
     }
+
+    if (qaReport) {
+      const passed = qaReport.visualTests.filter(t => t.passed).length;
+      content.push(adfParagraph(`Visual QA score: ${qaReport.overallScore}/100 (${passed}/${qaReport.visualTests.length} components passed)`));
+    }
+
+    if (testReport) {
+      content.push(adfParagraph(`Unit tests: ${testReport.status}, ${testReport.passed} passed, ${testReport.failed} failed, ${testReport.skipped} skipped`));
+    }
+
+    if (pullRequest?.pullRequestUrl) {
+      content.push(adfParagraph('Pull request: ', adfLink(`#${pullRequest.pullRequestNumber}`, pullRequest.pullRequestUrl)));
+    }
+
+    return adfDoc(...content);
   }
 
   /**
-   * Extract section from text response
+   * Download image and text attachments into the local cache; other files and oversized ones are only listed
    */
-  private extractSection(text: string, sectionName: string): string {
-    const regex = new RegExp(`${sectionName}:?\\s*([\\s\\S]*?)(?=\\n\\n|\\n[A-Z]|$)`, 'i');
-    const match = text.match(regex);
-    return match ? match[1].trim() : '';
+  private async downloadAttachments(attachments: JiraAttachment[], signal?: AbortSignal): Promise<JiraAttachment[]> {
+    const results: JiraAttachment[] = [];
+
+    for (const attachment of attachments) {
+      if (!this.isImage(attachment) && !this.isText(attachment)) {
+        results.push(attachment);
+        continue;
+      }
+
+      if (attachment.size > this.attachmentOptions.maxSizeBytes) {
+        this.logger.warn(`Skipping attachment ${attachment.filename}: ${attachment.size} bytes exceeds the size limit`);
+        results.push(attachment);
+        continue;
+      }
+
+      try {
+        const localPath = await this.jiraClient.downloadAttachment(attachment, this.attachmentOptions.cacheDir, signal);
+        results.push({ ...attachment, localPath });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        this.logger.warn(`Failed to download attachment ${attachment.filename}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        results.push(attachment);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Read downloaded text attachments, truncated to the configured length
+   */
+  private async readTextAttachments(attachments: JiraAttachment[]): Promise<JiraTextAttachment[]> {
+    const texts: JiraTextAttachment[] = [];
+
+    for (const attachment of attachments) {
+      if (!attachment.localPath || !this.isText(attachment)) {
+        continue;
+      }
+
+      const content = await fs.readFile(attachment.localPath, 'utf-8');
+      const truncated = content.length > this.attachmentOptions.maxTextLength;
+      texts.push({
+        filename: attachment.filename,
+        content: truncated ? content.slice(0, this.attachmentOptions.maxTextLength) : content,
+        truncated
+      });
+    }
+
+    return texts;
+  }
+
+  private isImage(attachment: JiraAttachment): boolean {
+    return attachment.mimeType.startsWith('image/');
+  }
+
+  private isText(attachment: JiraAttachment): boolean {
+    return TEXT_MIME_TYPES.test(attachment.mimeType) || TEXT_EXTENSIONS.test(attachment.filename);
+  }
+
+  /**
+   * Build analysis prompt variables for AI
+   */
+  private buildPromptVariables(
+    jiraTask: JiraTask,
+    referenceImages: JiraAttachment[],
+    textAttachments: JiraTextAttachment[]
+  ): Record<string, unknown> {
+    const attachments = [
+      ...textAttachments.map(t => `--- ${t.filename}${t.truncated ? ' (truncated)' : ''} ---\n${t.content}`),
+      ...referenceImages.map(image => `${image.filename} (image, used as a reference design)`)
+    ];
+
+    return {
+      key: jiraTask.key,
+      summary: jiraTask.summary,
+      description: jiraTask.description || 'None provided',
+      comments: jiraTask.comments?.map(c => `${c.author || 'Unknown'}: ${c.body}`).join('\n\n') || 'None',
+      issueType: jiraTask.issueType,
+      priority: jiraTask.priority,
+      labels: jiraTask.labels.join(', '),
+      components: jiraTask.components.join(', '),
+      acceptanceCriteria: jiraTask.acceptanceCriteria?.join('\n') || 'None specified',
+      figmaLinks: jiraTask.figmaLinks?.join('\n') || 'None provided',
+      attachments: attachments.join('\n\n') || 'None',
+      projectContext: this.describeProject()
+    };
+  }
+
+  /**
+   * Build analysis from the task fields alone when the AI analysis is unusable
+   */
+  private createFallbackAnalysis(jiraTask: JiraTask, referenceImages: JiraAttachment[]): JiraAnalysis {
+    const uiUxRequirements = [
+      ...(jiraTask.figmaLinks?.length ? ['Match the linked Figma designs'] : []),
+      ...(referenceImages.length ? ['Match the attached reference images'] : [])
+    ];
+
+    return {
+      technicalRequirements: jiraTask.acceptanceCriteria || [],
+      uiUxRequirements,
+      businessLogic: [],
+      dataRequirements: [],
+      testingRequirements: jiraTask.acceptanceCriteria || [],
+      dependencies: [],
+      deliverables: [jiraTask.summary],
+      frameworkRecommendations: [],
+      stylingApproach: '',
+      complexityAssessment: this.estimateComplexity(jiraTask)
+    };
   }
 
   /**
@@ -204,6 +430,10 @@ export class JiraAnalyzerAgent extends BaseAgent {
     // Component factor
     if (jiraTask.components.length > 2) complexityScore += 1;
 
+    // Team estimate factor
+    if ((jiraTask.storyPoints || 0) >= 8) complexityScore += 2;
+    else if ((jiraTask.storyPoints || 0) >= 3) complexityScore += 1;
+
     if (complexityScore <= 2) return 'Simple';
     if (complexityScore <= 4) return 'Medium';
     return 'Complex';
@@ -1,19 +1,40 @@
 import { BaseAgent } from './BaseAgent';
+import { PermanentTaskError } from '../utils/errors';
 import { 
   AgentTask, 
   AgentTaskType, 
-  TaskPriority, 
-  TaskStatus,
-  AgentType,
-  WorkflowStep,
+  AgentType, 
+  JiraBatchResult,
+  JiraEpicPlan,
+  JiraEpicResult,
   JiraTask,
-  CodeGenerationRequest
+  JiraTaskQuery,
+  JiraWriteBackOptions,
+  TaskPriority,
+  TaskStatus,
+  TokenUsage,
+  WorkflowBudget,
+  WorkflowKind,
+  WorkflowState,
+  WorkflowStep
 } from '../types';
+import { WorkflowStore } from '../workflow/WorkflowStore';
+import { addUsage, describeBudgetOverrun } from '../llm/usage';
+import { WorkflowRegistry } from '../workflow/WorkflowRegistry';
+import { WorkflowDefinition, createWorkflowSteps } from '../workflow/WorkflowDefinition';
+import { OutputWriter, collectGeneratedFiles } from '../output/OutputWriter';
+import { CodeDisplayer } from '../utils/CodeDisplayer';
+import { DesignToken, FigmaAnalysisResult } from './FigmaDesignerAgent';
 import { v4 as uuidv4 } from 'uuid';
 
 export class MainCoordinatorAgent extends BaseAgent {
   private subAgents: Map<AgentType, BaseAgent>;
   private activeWorkflows: Map<string, WorkflowStep[]>;
+  private workflowStore: WorkflowStore;
+  private workflowRegistry: WorkflowRegistry;
+  private budget?: WorkflowBudget;
+  private outputWriter?: OutputWriter;
+  private jiraWriteBack?: JiraWriteBackOptions;
 
   constructor(config: any) {
     super({
@@ -35,6 +56,11 @@ export class MainCoordinatorAgent extends BaseAgent {
 
     this.subAgents = new Map();
     this.activeWorkflows = new Map();
+    this.workflowStore = new WorkflowStore(config.workflowStateDir);
+    this.workflowRegistry = new WorkflowRegistry(config.workflowDefinitionsDir);
+    this.budget = config.budget;
+    this.outputWriter = config.output ? new OutputWriter(config.output) : undefined;
+    this.jiraWriteBack = config.jiraWriteBack;
   }
 
   /**
@@ -48,12 +74,12 @@ export class MainCoordinatorAgent extends BaseAgent {
   /**
    * Process text prompts and coordinate the full development workflow (primary method)
    */
-  public async processPrompts(prompts: string[]): Promise<void> {
+  public async processPrompts(prompts: string[], workflowName?: string): Promise<void> {
     this.logger.info(`Processing ${prompts.length} prompts`);
 
     for (const prompt of prompts) {
       try {
-        await this.executePromptWorkflow(prompt);
+        await this.executePromptWorkflow(prompt, workflowName);
       } catch (error) {
         this.logger.error(`Failed to process prompt`, {
           error: error instanceof Error ? error.message : String(error),
@@ -65,169 +91,258 @@ export class MainCoordinatorAgent extends BaseAgent {
 
   /**
    * Process Jira task numbers and coordinate the full development workflow (optional integration)
+   *
+   * Up to `concurrency` workflows run at the same time; a failed task does not stop the others.
+   * An Epic processed on its own spreads that limit over its stories, within a batch it runs them one by one.
    */
-  public async processJiraTasks(taskNumbers: string[]): Promise<void> {
-    this.logger.info(`Processing ${taskNumbers.length} Jira tasks`, { taskNumbers });
+  public async processJiraTasks(taskNumbers: string[], workflowName?: string, concurrency: number = 1): Promise<void> {
+    this.logger.info(`Processing ${taskNumbers.length} Jira tasks`, { taskNumbers, concurrency });
 
-    for (const taskNumber of taskNumbers) {
+    // Each task of a batch holds one slot, so Epics must not start stories beyond it
+    const epicConcurrency = taskNumbers.length > 1 ? 1 : concurrency;
+
+    await this.runConcurrently(taskNumbers, concurrency, async taskNumber => {
       try {
-        await this.executeJiraWorkflow(taskNumber);
+        await this.executeJiraWorkflow(taskNumber, workflowName, epicConcurrency);
       } catch (error) {
         this.logger.error(`Failed to process Jira task ${taskNumber}`, {
           error: error instanceof Error ? error.message : String(error)
         });
       }
+    });
+  }
+
+  /**
+   * Run `run` for every item with at most `concurrency` calls in flight
+   */
+  private async runConcurrently<T>(items: T[], concurrency: number, run: (item: T) => Promise<void>): Promise<void> {
+    const queue = [...items];
+    const worker = async () => {
+      for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+        await run(item);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency, queue.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+  }
+
+  /**
+   * Process the Jira issues matching a query, skipping issues that already have a completed workflow
+   */
+  public async processJiraQuery(query: JiraTaskQuery, workflowName?: string, concurrency: number = 1): Promise<JiraBatchResult> {
+    const agent = this.subAgents.get(AgentType.JIRA_ANALYZER);
+    if (!agent) {
+      throw new Error(`No agent registered for type: ${AgentType.JIRA_ANALYZER}`);
     }
+
+    const tasks: JiraTask[] = await agent.executeTask({
+      id: uuidv4(),
+      type: AgentTaskType.SEARCH_JIRA_TASKS,
+      description: 'Find Jira tasks to process',
+      priority: TaskPriority.MEDIUM,
+      dependencies: [],
+      input: query,
+      status: TaskStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    const matched = [...new Set(tasks.map(task => task.key))];
+    const completed = await this.getCompletedJiraKeys();
+    const skipped = matched.filter(key => completed.has(key.toUpperCase()));
+    const pending = matched.filter(key => !completed.has(key.toUpperCase()));
+
+    this.logger.info(`Jira query matched ${matched.length} tasks, ${skipped.length} already processed`, { query, skipped });
+
+    await this.processJiraTasks(pending, workflowName, concurrency);
+
+    return { matched, skipped, queued: pending };
+  }
+
+  /**
+   * Keys of Jira tasks whose workflow completed; failed ones can be picked up again
+   */
+  private async getCompletedJiraKeys(): Promise<Set<string>> {
+    const states = await this.workflowStore.list();
+
+    return new Set(states
+      .filter(state => state.kind === WorkflowKind.JIRA && state.status === TaskStatus.COMPLETED)
+      .map(state => state.source.toUpperCase()));
   }
 
   /**
    * Execute the full development workflow for a text prompt
    */
-  private async executePromptWorkflow(prompt: string): Promise<void> {
+  private async executePromptWorkflow(prompt: string, workflowName: string = 'prompt'): Promise<void> {
     const workflowId = uuidv4();
-    this.logger.info(`Starting prompt workflow`, { workflowId, promptPreview: prompt.substring(0, 100) });
-
-    // Define workflow steps for prompt analysis
-    const workflowSteps: WorkflowStep[] = [
-      {
-        id: uuidv4(),
-        name: 'Analyze Prompt',
-        agentType: AgentType.PROMPT_ANALYZER,
-        dependencies: [],
-        input: { prompt },
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Extract Figma Design',
-        agentType: AgentType.FIGMA_DESIGNER,
-        dependencies: ['Analyze Prompt'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Generate Code',
-        agentType: AgentType.CODE_GENERATOR,
-        dependencies: ['Analyze Prompt', 'Extract Figma Design'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Visual QA Testing',
-        agentType: AgentType.QA_TESTER,
-        dependencies: ['Generate Code', 'Extract Figma Design'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Create Tests',
-        agentType: AgentType.CODE_GENERATOR,
-        dependencies: ['Visual QA Testing'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Create Pull Request',
-        agentType: AgentType.GITHUB_MANAGER,
-        dependencies: ['Generate Code', 'Create Tests', 'Visual QA Testing'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      }
-    ];
+    const definition = await this.loadWorkflowDefinition(workflowName, WorkflowKind.PROMPT);
+    this.logger.info(`Starting prompt workflow`, { workflowId, workflow: definition.name, promptPreview: prompt.substring(0, 100) });
 
-    this.activeWorkflows.set(workflowId, workflowSteps);
+    const workflowSteps = createWorkflowSteps(definition, prompt);
+    const state = this.createWorkflowState(workflowId, WorkflowKind.PROMPT, definition.name, prompt, workflowSteps);
 
     try {
-      await this.executeWorkflowSteps(workflowId, workflowSteps);
+      await this.runWorkflow(state);
       this.logger.info(`Prompt workflow completed successfully`, { workflowId });
     } catch (error) {
       this.logger.error(`Prompt workflow failed`, { workflowId, error });
       throw error;
-    } finally {
-      this.activeWorkflows.delete(workflowId);
     }
   }
 
   /**
-   * Execute the full development workflow for a single Jira task
+   * Execute the full development workflow for a single Jira task, or one workflow per story when it is an Epic
    */
-  private async executeJiraWorkflow(taskNumber: string): Promise<void> {
-    const workflowId = uuidv4();
-    this.logger.info(`Starting workflow for task ${taskNumber}`, { workflowId });
+  private async executeJiraWorkflow(taskNumber: string, workflowName: string = 'jira', concurrency: number = 1): Promise<void> {
+    const epic = await this.planJiraEpic(taskNumber);
+    if (!epic) {
+      await this.runJiraWorkflow(taskNumber, workflowName);
+      return;
+    }
 
-    // Define workflow steps
-    const workflowSteps: WorkflowStep[] = [
-      {
+    const result = await this.executeEpicWorkflows(epic, workflowName, concurrency);
+    if (result.failed.length > 0 || result.blocked.length > 0) {
+      throw new Error(
+        `Epic ${epic.epicKey} incomplete: failed ${result.failed.join(', ') || 'none'}, blocked ${result.blocked.join(', ') || 'none'}`
+      );
+    }
+  }
+
+  /**
+   * Decompose the task when it is an Epic; undefined for any other issue type
+   */
+  private async planJiraEpic(taskNumber: string): Promise<JiraEpicPlan | undefined> {
+    const agent = this.subAgents.get(AgentType.JIRA_ANALYZER);
+    if (!agent) {
+      throw new Error(`No agent registered for type: ${AgentType.JIRA_ANALYZER}`);
+    }
+
+    const plan: JiraEpicPlan | null = await agent.executeTask({
+      id: uuidv4(),
+      type: AgentTaskType.DECOMPOSE_JIRA_EPIC,
+      description: `Check whether ${taskNumber} is an Epic to decompose`,
+      priority: TaskPriority.MEDIUM,
+      dependencies: [],
+      input: { taskNumber },
+      status: TaskStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    return plan || undefined;
+  }
+
+  /**
+   * Run the story workflows of an Epic batch by batch, sharing the Epic's design tokens
+   *
+   * Stories with a completed workflow are skipped; stories depending on a failed one are not started.
+   */
+  private async executeEpicWorkflows(epic: JiraEpicPlan, workflowName: string, concurrency: number): Promise<JiraEpicResult> {
+    const result: JiraEpicResult = { epicKey: epic.epicKey, completed: [], failed: [], skipped: [], blocked: [] };
+    const storyByKey = new Map(epic.stories.map(story => [story.key, story]));
+    const alreadyCompleted = await this.getCompletedJiraKeys();
+    const designTokens = await this.extractSharedDesignTokens(epic);
+
+    this.logger.info(`Processing Epic ${epic.epicKey} as ${epic.stories.length} story workflows`, {
+      batches: epic.batches,
+      sharedDesignTokens: designTokens.length
+    });
+
+    for (const batch of epic.batches) {
+      const runnable: string[] = [];
+      for (const key of batch) {
+        if (alreadyCompleted.has(key.toUpperCase())) {
+          result.skipped.push(key);
+        } else if (storyByKey.get(key)?.dependsOn.some(dep => result.failed.includes(dep) || result.blocked.includes(dep))) {
+          result.blocked.push(key);
+        } else {
+          runnable.push(key);
+        }
+      }
+
+      await this.runConcurrently(runnable, concurrency, async key => {
+        try {
+          await this.runJiraWorkflow(key, workflowName, { epicKey: epic.epicKey, designTokens }, storyByKey.get(key)?.issue);
+          result.completed.push(key);
+        } catch (error) {
+          result.failed.push(key);
+          this.logger.error(`Story workflow ${key} of Epic ${epic.epicKey} failed`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+    }
+
+    this.logger.info(`Epic ${epic.epicKey} processed`, { ...result });
+    return result;
+  }
+
+  /**
+   * Extract design tokens from the Figma links of the Epic itself, so every story styles against the same tokens
+   */
+  private async extractSharedDesignTokens(epic: JiraEpicPlan): Promise<DesignToken[]> {
+    const agent = this.subAgents.get(AgentType.FIGMA_DESIGNER);
+    if (!agent || epic.figmaLinks.length === 0) {
+      return [];
+    }
+
+    try {
+      const analysis: FigmaAnalysisResult = await agent.executeTask({
         id: uuidv4(),
-        name: 'Analyze Jira Task',
-        agentType: AgentType.JIRA_ANALYZER,
+        type: AgentTaskType.EXTRACT_FIGMA_DESIGN,
+        description: `Extract shared design tokens of Epic ${epic.epicKey}`,
+        priority: TaskPriority.MEDIUM,
         dependencies: [],
-        input: { taskNumber },
+        input: { figmaLinks: epic.figmaLinks },
         status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Extract Figma Design',
-        agentType: AgentType.FIGMA_DESIGNER,
-        dependencies: ['Analyze Jira Task'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Generate Code',
-        agentType: AgentType.CODE_GENERATOR,
-        dependencies: ['Analyze Jira Task', 'Extract Figma Design'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Visual QA Testing',
-        agentType: AgentType.QA_TESTER,
-        dependencies: ['Generate Code', 'Extract Figma Design'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Create Tests',
-        agentType: AgentType.CODE_GENERATOR,
-        dependencies: ['Visual QA Testing'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      },
-      {
-        id: uuidv4(),
-        name: 'Create Pull Request',
-        agentType: AgentType.GITHUB_MANAGER,
-        dependencies: ['Generate Code', 'Create Tests', 'Visual QA Testing'],
-        input: {},
-        status: TaskStatus.PENDING,
-        retryCount: 0
-      }
-    ];
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      return analysis.designTokens;
+    } catch (error) {
+      this.logger.warn(`Failed to extract shared design tokens of Epic ${epic.epicKey}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [];
+    }
+  }
 
-    this.activeWorkflows.set(workflowId, workflowSteps);
+  /**
+   * Run the workflow definition for a single Jira issue; story workflows of an Epic get its design tokens
+   *
+   * An already fetched `issue` is handed to the analysis step instead of being fetched again.
+   */
+  private async runJiraWorkflow(
+    taskNumber: string,
+    workflowName: string,
+    epic?: { epicKey: string; designTokens: DesignToken[] },
+    issue?: JiraTask
+  ): Promise<void> {
+    const workflowId = uuidv4();
+    const definition = await this.loadWorkflowDefinition(workflowName, WorkflowKind.JIRA);
+    this.logger.info(`Starting workflow for task ${taskNumber}`, { workflowId, workflow: definition.name, epicKey: epic?.epicKey });
+
+    const workflowSteps = createWorkflowSteps(definition, taskNumber);
+    const state = this.createWorkflowState(workflowId, WorkflowKind.JIRA, definition.name, taskNumber, workflowSteps);
+
+    if (epic) {
+      state.epicKey = epic.epicKey;
+      // Kept in the step input so that resumed workflows use the same tokens
+      workflowSteps
+        .filter(step => step.taskType === AgentTaskType.GENERATE_CODE)
+        .forEach(step => (step.input = { ...step.input, sharedDesignTokens: epic.designTokens }));
+    }
+
+    if (issue) {
+      workflowSteps
+        .filter(step => step.taskType === AgentTaskType.ANALYZE_JIRA_TASK)
+        .forEach(step => (step.input = { ...step.input, jiraTask: issue }));
+    }
 
     try {
       // Execute workflow steps
-      await this.executeWorkflowSteps(workflowId, workflowSteps);
+      await this.runWorkflow(state);
       this.logger.info(`Workflow completed successfully`, { workflowId, taskNumber });
     } catch (error) {
       this.logger.error(`Workflow failed`, { 
@@ -236,16 +351,204 @@ export class MainCoordinatorAgent extends BaseAgent {
         error: error instanceof Error ? error.message : String(error)
       });
       throw error;
+    }
+  }
+
+  /**
+   * Resolve a workflow definition and make sure it fits the kind of input being processed
+   */
+  private async loadWorkflowDefinition(nameOrPath: string, kind: WorkflowKind): Promise<WorkflowDefinition> {
+    const definition = await this.workflowRegistry.get(nameOrPath);
+    if (definition.kind !== kind) {
+      throw new Error(`Workflow '${definition.name}' is a ${definition.kind} workflow and cannot process ${kind} input`);
+    }
+
+    return definition;
+  }
+
+  /**
+   * Resume a persisted workflow from its first incomplete step
+   */
+  public async resumeWorkflow(workflowId: string): Promise<void> {
+    const state = await this.workflowStore.load(workflowId);
+    if (!state) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    if (state.status === TaskStatus.COMPLETED) {
+      this.logger.info('Workflow already completed, nothing to resume', { workflowId });
+      return;
+    }
+
+    if (this.activeWorkflows.has(workflowId)) {
+      throw new Error(`Workflow is already running: ${workflowId}`);
+    }
+
+    // Completed steps keep their outputs; everything else runs again
+    for (const step of state.steps) {
+      if (step.status !== TaskStatus.COMPLETED) {
+        if (step.status !== TaskStatus.PENDING) {
+          step.retryCount++;
+        }
+        step.status = TaskStatus.PENDING;
+      }
+    }
+
+    const completedCount = state.steps.filter(s => s.status === TaskStatus.COMPLETED).length;
+    this.logger.info('Resuming workflow', {
+      workflowId,
+      kind: state.kind,
+      completedSteps: completedCount,
+      remainingSteps: state.steps.length - completedCount
+    });
+
+    await this.runWorkflow(state);
+    this.logger.info('Resumed workflow completed successfully', { workflowId });
+  }
+
+  /**
+   * List names of available workflow definitions
+   */
+  public async listWorkflowDefinitions(): Promise<string[]> {
+    return this.workflowRegistry.list();
+  }
+
+  /**
+   * List persisted workflows
+   */
+  public async listWorkflows(): Promise<WorkflowState[]> {
+    return this.workflowStore.list();
+  }
+
+  private createWorkflowState(
+    workflowId: string,
+    kind: WorkflowKind,
+    workflowName: string,
+    source: string,
+    steps: WorkflowStep[]
+  ): WorkflowState {
+    const now = new Date().toISOString();
+
+    return {
+      id: workflowId,
+      kind,
+      workflowName,
+      source,
+      status: TaskStatus.PENDING,
+      steps,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Execute workflow steps while persisting state after every change
+   */
+  private async runWorkflow(state: WorkflowState): Promise<void> {
+    this.activeWorkflows.set(state.id, state.steps);
+    state.status = TaskStatus.IN_PROGRESS;
+    state.error = undefined;
+    await this.workflowStore.save(state);
+
+    try {
+      try {
+        await this.executeWorkflowSteps(state, () => this.workflowStore.save(state));
+      } finally {
+        // Generated files are kept even when validation, QA or the pull request fails afterwards
+        await this.writeOutput(state);
+      }
+      await this.writeBackToJira(state);
+      state.status = TaskStatus.COMPLETED;
+    } catch (error) {
+      state.status = TaskStatus.FAILED;
+      state.error = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Workflow state saved, resume with --resume ${state.id}`, { workflowId: state.id });
+      throw error;
     } finally {
-      this.activeWorkflows.delete(workflowId);
+      this.activeWorkflows.delete(state.id);
+      await this.workflowStore.save(state);
+    }
+  }
+
+  /**
+   * Write the files generated so far by a workflow to the output directory, if one is configured
+   */
+  private async writeOutput(state: WorkflowState): Promise<void> {
+    const files = collectGeneratedFiles(state.steps);
+    if (!this.outputWriter || files.length === 0) {
+      return;
+    }
+
+    const results = await this.outputWriter.write(files);
+    // Diffs are only for display; the persisted state keeps the outcome per file
+    state.outputFiles = results.map(result => ({ ...result, diff: undefined }));
+
+    CodeDisplayer.displayWriteResults(results, this.outputWriter.getRootDir());
+    this.logger.info(`${this.outputWriter.isDryRun() ? 'Planned' : 'Wrote'} ${files.length} generated files`, {
+      workflowId: state.id,
+      rootDir: this.outputWriter.getRootDir(),
+      conflicts: results.filter(r => r.conflict).map(r => r.path)
+    });
+  }
+
+  /**
+   * Post the results of a finished Jira workflow to the issue; failures are recorded in the state, not thrown
+   */
+  private async writeBackToJira(state: WorkflowState): Promise<void> {
+    const options = this.jiraWriteBack;
+    if (state.kind !== WorkflowKind.JIRA || !options || (!options.comment && !options.transition)) {
+      return;
+    }
+
+    const agent = this.subAgents.get(AgentType.JIRA_ANALYZER);
+    if (!agent) {
+      state.jiraWriteBack = { commentPosted: false, errors: [`No agent registered for type: ${AgentType.JIRA_ANALYZER}`] };
+      return;
+    }
+
+    // The write-back sees every step output under the same keys dependent steps use
+    const input: any = {
+      ...options,
+      taskKey: state.source,
+      generatedFiles: collectGeneratedFiles(state.steps).map(file => file.path)
+    };
+    for (const step of state.steps) {
+      if (step.output) {
+        input[step.name.replace(/\s+/g, '_').toLowerCase()] = step.output;
+      }
+    }
+
+    const agentTask: AgentTask = {
+      id: uuidv4(),
+      type: AgentTaskType.UPDATE_JIRA_TASK,
+      description: `Write back results of workflow ${state.id} to ${state.source}`,
+      priority: TaskPriority.MEDIUM,
+      dependencies: [],
+      input,
+      status: TaskStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    try {
+      state.jiraWriteBack = await agent.executeTask(agentTask);
+    } catch (error) {
+      state.jiraWriteBack = { commentPosted: false, errors: [error instanceof Error ? error.message : String(error)] };
+    }
+
+    if (state.jiraWriteBack?.errors.length) {
+      this.logger.warn('Jira write-back failed', { workflowId: state.id, errors: state.jiraWriteBack.errors });
     }
   }
 
   /**
    * Execute workflow steps in correct dependency order
    */
-  private async executeWorkflowSteps(workflowId: string, steps: WorkflowStep[]): Promise<void> {
-    const completedSteps = new Set<string>();
+  private async executeWorkflowSteps(state: WorkflowState, persist: () => Promise<void>): Promise<void> {
+    const { id: workflowId, steps } = state;
+    const completedSteps = new Set<string>(
+      steps.filter(step => step.status === TaskStatus.COMPLETED).map(step => step.name)
+    );
     
     while (completedSteps.size < steps.length) {
       const readySteps = steps.filter(step => 
@@ -258,10 +561,16 @@ export class MainCoordinatorAgent extends BaseAgent {
       }
 
       // Execute ready steps in parallel
-      const stepPromises = readySteps.map(step => this.executeWorkflowStep(workflowId, step));
+      readySteps.forEach(step => (step.status = TaskStatus.IN_PROGRESS));
+      await persist();
+
+      const stepPromises = readySteps.map(step => (
+        this.isSkippedStep(step) ? Promise.resolve(undefined) : this.executeWorkflowStep(workflowId, step)
+      ));
       const results = await Promise.allSettled(stepPromises);
 
-      // Process results
+      // Process results, keeping outputs of steps that succeeded alongside a failed one
+      let failure: Error | undefined;
       for (let i = 0; i < results.length; i++) {
         const result = results[i];
         const step = readySteps[i];
@@ -278,12 +587,70 @@ export class MainCoordinatorAgent extends BaseAgent {
             stepName: step.name,
             error: result.reason
           });
-          throw new Error(`Step '${step.name}' failed: ${result.reason}`);
+          failure = failure || new Error(`Step '${step.name}' failed: ${result.reason}`);
         }
       }
+
+      state.tokenUsage = addUsage(...steps.map(s => s.tokenUsage));
+      const budgetError = this.applyBudget(state);
+
+      await persist();
+
+      if (failure || budgetError) {
+        throw failure || budgetError;
+      }
     }
   }
 
+  /**
+   * Steps of optional integrations run only when their agent is registered; GitHub needs credentials
+   */
+  private isSkippedStep(step: WorkflowStep): boolean {
+    if (step.agentType !== AgentType.GITHUB_MANAGER || this.subAgents.has(step.agentType)) {
+      return false;
+    }
+
+    step.skipped = true;
+    this.logger.info(`Skipping step '${step.name}', GitHub integration is not configured`);
+    return true;
+  }
+
+  /**
+   * Check workflow token usage against the budget, failing the workflow or downgrading
+   * the model of the remaining steps when it is exceeded
+   */
+  private applyBudget(state: WorkflowState): Error | undefined {
+    if (!this.budget || !state.tokenUsage) {
+      return undefined;
+    }
+
+    const overrun = describeBudgetOverrun(state.tokenUsage, this.budget.maxTokens, this.budget.maxCostUsd);
+    if (!overrun) {
+      return undefined;
+    }
+
+    if (this.budget.onExceeded === 'fail') {
+      return new Error(`Workflow budget exceeded: ${overrun}`);
+    }
+
+    const downgradeModel = this.budget.downgradeModel || 'gpt-3.5-turbo';
+    if (!state.budgetExceeded) {
+      this.logger.warn(`Workflow budget exceeded, switching remaining steps to ${downgradeModel}`, {
+        workflowId: state.id,
+        overrun
+      });
+    }
+    state.budgetExceeded = true;
+
+    for (const step of state.steps) {
+      if (step.status === TaskStatus.PENDING) {
+        step.model = downgradeModel;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Execute a single workflow step
    */
@@ -298,20 +665,24 @@ export class MainCoordinatorAgent extends BaseAgent {
 
     const agentTask: AgentTask = {
       id: uuidv4(),
-      type: this.mapStepToTaskType(step.name),
+      type: step.taskType,
       description: `Execute ${step.name} for workflow ${workflowId}`,
       priority: TaskPriority.MEDIUM,
       dependencies: step.dependencies,
       input: enrichedInput,
       status: TaskStatus.PENDING,
       createdAt: new Date(),
-      updatedAt: new Date()
+      updatedAt: new Date(),
+      model: step.model
     };
 
-    step.status = TaskStatus.IN_PROGRESS;
-    const result = await agent.executeTask(agentTask);
-    
-    return result;
+    try {
+      return await agent.executeTask(agentTask);
+    } finally {
+      // Usage is kept for failed steps too, since their tokens were spent
+      step.tokenUsage = addUsage(step.tokenUsage, agent.getTaskTokenUsage(agentTask.id));
+      step.promptTemplates = agent.getTaskPromptTemplates(agentTask.id);
+    }
   }
 
   /**
@@ -333,31 +704,18 @@ export class MainCoordinatorAgent extends BaseAgent {
       }
     }
 
-    return enrichedInput;
-  }
+    // Apply explicit mappings of the form "Step Name.path.to.value"
+    for (const [inputKey, source] of Object.entries(step.inputMappings || {})) {
+      const [dependency, ...pathParts] = source.split('.');
+      const dependencyStep = workflow.find(s => s.name === dependency);
+      const value = pathParts.reduce((current: any, key) => current?.[key], dependencyStep?.output);
 
-  /**
-   * Map workflow step name to agent task type
-   */
-  private mapStepToTaskType(stepName: string): AgentTaskType {
-    switch (stepName) {
-      case 'Analyze Prompt':
-        return AgentTaskType.ANALYZE_PROMPT;
-      case 'Analyze Jira Task':
-        return AgentTaskType.ANALYZE_JIRA_TASK;
-      case 'Extract Figma Design':
-        return AgentTaskType.EXTRACT_FIGMA_DESIGN;
-      case 'Generate Code':
-        return AgentTaskType.GENERATE_CODE;
-      case 'Visual QA Testing':
-        return AgentTaskType.CREATE_TESTS;
-      case 'Create Tests':
-        return AgentTaskType.CREATE_TESTS;
-      case 'Create Pull Request':
-        return AgentTaskType.CREATE_PULL_REQUEST;
-      default:
-        throw new Error(`Unknown step name: ${stepName}`);
+      if (value !== undefined) {
+        enrichedInput[inputKey] = value;
+      }
     }
+
+    return enrichedInput;
   }
 
   /**
@@ -368,7 +726,7 @@ export class MainCoordinatorAgent extends BaseAgent {
       case AgentTaskType.ANALYZE_JIRA_TASK:
         return this.processJiraTasks(task.input.taskNumbers || [task.input.taskNumber]);
       default:
-        throw new Error(`Unsupported task type for coordinator: ${task.type}`);
+        throw new PermanentTaskError('UNSUPPORTED_TASK', `Unsupported task type for coordinator: ${task.type}`);
     }
   }
 
@@ -382,10 +740,17 @@ export class MainCoordinatorAgent extends BaseAgent {
       agentsStatus[type] = agent.getStatus();
     }
 
+    const workflowTokenUsage: { [workflowId: string]: TokenUsage } = {};
+    for (const [workflowId, steps] of this.activeWorkflows.entries()) {
+      workflowTokenUsage[workflowId] = addUsage(...steps.map(step => step.tokenUsage));
+    }
+
     return {
       coordinator: this.getStatus(),
       agents: agentsStatus,
-      activeWorkflows: this.activeWorkflows.size
+      activeWorkflows: this.activeWorkflows.size,
+      workflowTokenUsage,
+      tokenUsage: addUsage(this.tokenUsage, ...Array.from(this.subAgents.values()).map(agent => agent.getStatus().tokenUsage))
     };
   }
 
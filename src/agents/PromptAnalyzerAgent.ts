@@ -1,4 +1,5 @@
 import { BaseAgent } from './BaseAgent';
+import { PermanentTaskError } from '../utils/errors';
 import { 
   AgentTask, 
   AgentTaskType, 
@@ -6,6 +7,7 @@ import {
   PromptTask
 } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 
 export interface PromptAnalysisResult {
   promptTask: PromptTask;
@@ -24,6 +26,17 @@ export interface PromptAnalysisResult {
   features: string[];
 }
 
+const PromptAnalysisSchema: z.ZodType<PromptAnalysisResult['analysis'], z.ZodTypeDef, unknown> = z.object({
+  mainGoal: z.string().min(1),
+  technicalRequirements: z.array(z.string()).default([]),
+  uiRequirements: z.array(z.string()).default([]),
+  functionalRequirements: z.array(z.string()).default([]),
+  complexity: z.enum(['Simple', 'Medium', 'Complex']),
+  estimatedTime: z.string().default('2-4 hours'),
+  suggestedFramework: z.string().default('React'),
+  suggestedStyling: z.string().default('CSS')
+});
+
 export class PromptAnalyzerAgent extends BaseAgent {
   constructor(config: any) {
     super({
@@ -38,23 +51,23 @@ export class PromptAnalyzerAgent extends BaseAgent {
     });
   }
 
-  protected async performTask(task: AgentTask): Promise<any> {
+  protected async performTask(task: AgentTask, signal: AbortSignal): Promise<any> {
     switch (task.type) {
       case AgentTaskType.ANALYZE_PROMPT:
-        return this.analyzePrompt(task.input);
+        return this.analyzePrompt(task.input, signal);
       default:
-        throw new Error(`Unsupported task type: ${task.type}`);
+        throw new PermanentTaskError('UNSUPPORTED_TASK', `Unsupported task type: ${task.type}`);
     }
   }
 
   /**
    * Analyze text prompt and extract requirements, Figma links, and specifications
    */
-  private async analyzePrompt(input: any): Promise<PromptAnalysisResult> {
+  private async analyzePrompt(input: any, signal?: AbortSignal): Promise<PromptAnalysisResult> {
     const { prompt } = input;
     
     if (!prompt || typeof prompt !== 'string') {
-      throw new Error('Prompt is required and must be a string');
+      throw new PermanentTaskError('INVALID_INPUT', 'Prompt is required and must be a string');
     }
 
     this.logger.info('Starting prompt analysis', { promptLength: prompt.length });
@@ -64,7 +77,7 @@ export class PromptAnalyzerAgent extends BaseAgent {
       const figmaLinks = this.extractFigmaLinks(prompt);
       
       // Analyze prompt using AI
-      const analysis = await this.performAIAnalysis(prompt);
+      const analysis = await this.performAIAnalysis(prompt, signal);
       
       // Create prompt task
       const promptTask: PromptTask = {
@@ -117,79 +130,20 @@ export class PromptAnalyzerAgent extends BaseAgent {
   /**
    * Perform AI analysis of the prompt
    */
-  private async performAIAnalysis(prompt: string): Promise<PromptAnalysisResult['analysis']> {
-    const analysisPrompt = `
-    Analyze this frontend development prompt and extract detailed requirements:
-
-    PROMPT:
-    ${prompt}
-
-    Please provide a comprehensive analysis in the following JSON format:
-    {
-      "mainGoal": "Brief description of the main objective",
-      "technicalRequirements": ["Array of technical requirements"],
-      "uiRequirements": ["Array of UI/UX requirements"],
-      "functionalRequirements": ["Array of functional requirements"],
-      "complexity": "Simple|Medium|Complex",
-      "estimatedTime": "Estimated development time",
-      "suggestedFramework": "React|Vue|Angular|Vanilla",
-      "suggestedStyling": "CSS|SCSS|Styled-Components|Tailwind|Material-UI"
-    }
-
-    Consider:
-    - Component complexity and interaction patterns
-    - State management needs
-    - API integration requirements
-    - Responsive design needs
-    - Accessibility requirements
-    - Performance considerations
-
-    Focus on extracting specific, actionable requirements that can be used for development.
-    `;
+  private async performAIAnalysis(prompt: string, signal?: AbortSignal): Promise<PromptAnalysisResult['analysis']> {
+    const { system, user } = await this.renderPrompt('prompt-analysis', {
+      prompt,
+      projectContext: this.describeProject()
+    });
 
     try {
-      const aiResponse = await this.generateResponse(
-        'You are an expert technical analyst specializing in frontend development requirements analysis. Extract specific, actionable requirements from user prompts.',
-        analysisPrompt
-      );
-
-      return this.parseAnalysisResponse(aiResponse);
+      return await this.generateStructured(PromptAnalysisSchema, system, user, { signal });
     } catch (error) {
       this.logger.warn('AI analysis failed, using fallback analysis', { error });
       return this.createFallbackAnalysis(prompt);
     }
   }
 
-  /**
-   * Parse AI response into structured analysis
-   */
-  private parseAnalysisResponse(response: string): PromptAnalysisResult['analysis'] {
-    try {
-      // Extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        // Validate and normalize the response
-        return {
-          mainGoal: parsed.mainGoal || 'Frontend development task',
-          technicalRequirements: Array.isArray(parsed.technicalRequirements) ? parsed.technicalRequirements : [],
-          uiRequirements: Array.isArray(parsed.uiRequirements) ? parsed.uiRequirements : [],
-          functionalRequirements: Array.isArray(parsed.functionalRequirements) ? parsed.functionalRequirements : [],
-          complexity: ['Simple', 'Medium', 'Complex'].includes(parsed.complexity) ? parsed.complexity : 'Medium',
-          estimatedTime: parsed.estimatedTime || '2-4 hours',
-          suggestedFramework: parsed.suggestedFramework || 'React',
-          suggestedStyling: parsed.suggestedStyling || 'CSS'
-        };
-      }
-      
-      throw new Error('No valid JSON found in response');
-    } catch (error) {
-      this.logger.warn('Failed to parse AI analysis response', { error });
-      return this.createFallbackAnalysis(response);
-    }
-  }
-
   /**
    * Create fallback analysis when AI analysis fails
    */
@@ -210,12 +164,15 @@ export class PromptAnalyzerAgent extends BaseAgent {
       complexity = 'Medium';
     }
 
+    // Without explicit hints the target project's stack is the best guess
     const suggestedFramework = lowerPrompt.includes('vue') ? 'Vue' : 
-                              lowerPrompt.includes('angular') ? 'Angular' : 'React';
+                              lowerPrompt.includes('angular') ? 'Angular' :
+                              this.projectContext?.framework || 'React';
     
     const suggestedStyling = lowerPrompt.includes('tailwind') ? 'Tailwind' :
                             lowerPrompt.includes('material') ? 'Material-UI' :
-                            lowerPrompt.includes('styled') ? 'Styled-Components' : 'CSS';
+                            lowerPrompt.includes('styled') ? 'Styled-Components' :
+                            this.projectContext?.styling || 'CSS';
 
     return {
       mainGoal: 'Frontend component development based on prompt',
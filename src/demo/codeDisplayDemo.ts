@@ -1,5 +1,5 @@
 import { CodeDisplayer } from '../utils/CodeDisplayer';
-import { GeneratedFile, FileType } from '../types';
+import { FileType, GeneratedFile } from '../types';
 
 /**
  * Demo function to show code display functionality
@@ -4,9 +4,13 @@ import { PromptAnalyzerAgent } from './agents/PromptAnalyzerAgent';
 import { JiraAnalyzerAgent } from './agents/JiraAnalyzerAgent';
 import { FigmaDesignerAgent } from './agents/FigmaDesignerAgent';
 import { QATesterAgent } from './agents/QATesterAgent';
-import { AgentType } from './types';
+import { CodeGeneratorAgent } from './agents/CodeGeneratorAgent';
+import { GitHubManagerAgent } from './agents/GitHubManagerAgent';
+import { FileType, JiraBatchResult, JiraTaskQuery, JiraWriteBackOptions, ModelRoutingConfig, OutputOptions, ProjectContext, TokenUsage, WorkflowBudget, WriteStrategy } from './types';
 import winston from 'winston';
-import { CodeDisplayer } from './utils/CodeDisplayer';
+import { getModelProvider } from './llm/ModelProvider';
+import { getRoutedModels, loadModelRouting } from './llm/ModelRouting';
+import { ProjectScanner } from './project/ProjectScanner';
 
 // Load environment variables
 dotenv.config();
@@ -26,6 +30,9 @@ export class AIFrontendAutomationSystem {
   private coordinatorAgent!: MainCoordinatorAgent;
   private logger: winston.Logger;
   private isInitialized: boolean = false;
+  private modelRouting?: ModelRoutingConfig;
+  private projectContext?: ProjectContext;
+  private jiraConcurrency: number = 1;
 
   constructor() {
     this.logger = winston.createLogger({
@@ -50,8 +57,14 @@ export class AIFrontendAutomationSystem {
 
   /**
    * Initialize the AI agent system
+   *
+   * `projectDir` (or TARGET_PROJECT_DIR) points at the local project the generated code is meant for.
+   * `outputDir` (or OUTPUT_DIR) is where generated files are written; with `dryRun` only diffs are shown.
+   * `jiraConcurrency` (or JIRA_BATCH_CONCURRENCY) is how many Jira workflows run at the same time.
    */
-  async initialize(): Promise<void> {
+  async initialize(
+    options: { projectDir?: string; outputDir?: string; dryRun?: boolean; jiraConcurrency?: number } = {}
+  ): Promise<void> {
     if (this.isInitialized) {
       this.logger.warn('System already initialized');
       return;
@@ -60,8 +73,23 @@ export class AIFrontendAutomationSystem {
     this.logger.info('Initializing AI Frontend Automation System');
 
     try {
+      // Per-agent / per-task model routing is optional
+      this.modelRouting = await loadModelRouting();
+
       // Validate environment variables
       this.validateEnvironment();
+      this.jiraConcurrency = this.getJiraBatchConcurrency(options.jiraConcurrency);
+
+      const projectDir = options.projectDir || process.env.TARGET_PROJECT_DIR;
+      if (projectDir) {
+        this.projectContext = await new ProjectScanner().scan(projectDir);
+        this.logger.info('Scanned target project', {
+          rootDir: this.projectContext.rootDir,
+          framework: this.projectContext.framework,
+          styling: this.projectContext.styling,
+          components: this.projectContext.components.length
+        });
+      }
 
       // Initialize coordinator agent
       this.coordinatorAgent = new MainCoordinatorAgent({
@@ -70,7 +98,11 @@ export class AIFrontendAutomationSystem {
         model: process.env.MAIN_AGENT_MODEL || 'gpt-4-turbo-preview',
         maxConcurrentTasks: parseInt(process.env.MAX_PARALLEL_AGENTS || '3'),
         retryAttempts: 3,
-        timeout: parseInt(process.env.TASK_TIMEOUT_MINUTES || '30') * 60 * 1000
+        timeout: parseInt(process.env.TASK_TIMEOUT_MINUTES || '30') * 60 * 1000,
+        modelRouting: this.modelRouting,
+        budget: this.getWorkflowBudget(),
+        output: this.getOutputOptions(options.outputDir, options.dryRun),
+        jiraWriteBack: this.getJiraWriteBackOptions()
       });
 
       // Initialize and register specialized agents
@@ -90,7 +122,7 @@ export class AIFrontendAutomationSystem {
   /**
    * Process text prompts and execute full automation workflow (primary method)
    */
-  async processPrompts(prompts: string[]): Promise<void> {
+  async processPrompts(prompts: string[], workflowName?: string): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('System not initialized. Call initialize() first.');
     }
@@ -98,7 +130,7 @@ export class AIFrontendAutomationSystem {
     this.logger.info(`Processing ${prompts.length} prompts`);
 
     try {
-      await this.coordinatorAgent.processPrompts(prompts);
+      await this.coordinatorAgent.processPrompts(prompts, workflowName);
       this.logger.info('All prompts processed successfully');
     } catch (error) {
       this.logger.error('Failed to process prompts', { error });
@@ -109,7 +141,7 @@ export class AIFrontendAutomationSystem {
   /**
    * Process Jira tasks and execute full automation workflow (optional integration)
    */
-  async processJiraTasks(taskNumbers: string[]): Promise<void> {
+  async processJiraTasks(taskNumbers: string[], workflowName?: string): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('System not initialized. Call initialize() first.');
     }
@@ -117,7 +149,7 @@ export class AIFrontendAutomationSystem {
     this.logger.info(`Processing ${taskNumbers.length} Jira tasks`, { taskNumbers });
 
     try {
-      await this.coordinatorAgent.processJiraTasks(taskNumbers);
+      await this.coordinatorAgent.processJiraTasks(taskNumbers, workflowName, this.jiraConcurrency);
       this.logger.info('All Jira tasks processed successfully');
     } catch (error) {
       this.logger.error('Failed to process Jira tasks', { error, taskNumbers });
@@ -125,6 +157,45 @@ export class AIFrontendAutomationSystem {
     }
   }
 
+  /**
+   * Process the Jira tasks matching a JQL query, the current user's open tasks or a sprint (optional integration)
+   */
+  async processJiraQuery(query: JiraTaskQuery, workflowName?: string): Promise<JiraBatchResult> {
+    if (!this.isInitialized) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+
+    this.logger.info('Processing Jira tasks by query', { query });
+
+    try {
+      const result = await this.coordinatorAgent.processJiraQuery(query, workflowName, this.jiraConcurrency);
+      this.logger.info('Jira query processed', { queued: result.queued.length, skipped: result.skipped.length });
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to process Jira query', { error, query });
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a previously interrupted workflow by its ID
+   */
+  async resumeWorkflow(workflowId: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('System not initialized. Call initialize() first.');
+    }
+
+    this.logger.info(`Resuming workflow ${workflowId}`);
+
+    try {
+      await this.coordinatorAgent.resumeWorkflow(workflowId);
+      this.logger.info('Workflow resumed successfully', { workflowId });
+    } catch (error) {
+      this.logger.error('Failed to resume workflow', { error, workflowId });
+      throw error;
+    }
+  }
+
   /**
    * Get system status
    */
@@ -153,19 +224,121 @@ export class AIFrontendAutomationSystem {
     this.logger.info('System stopped successfully');
   }
 
+  /**
+   * Get total token usage and cost across all agents
+   */
+  getTokenUsage(): TokenUsage {
+    return this.coordinatorAgent.getAgentsStatus().tokenUsage;
+  }
+
+  /**
+   * Read the per-workflow token/cost budget from the environment
+   */
+  private getWorkflowBudget(): WorkflowBudget | undefined {
+    const maxTokens = process.env.WORKFLOW_MAX_TOKENS;
+    const maxCostUsd = process.env.WORKFLOW_MAX_COST_USD;
+
+    if (!maxTokens && !maxCostUsd) {
+      return undefined;
+    }
+
+    const onExceeded = process.env.WORKFLOW_BUDGET_ACTION || 'fail';
+    if (onExceeded !== 'fail' && onExceeded !== 'downgrade') {
+      throw new Error(`Invalid WORKFLOW_BUDGET_ACTION: ${onExceeded}. Expected fail or downgrade`);
+    }
+
+    return {
+      maxTokens: maxTokens ? parseInt(maxTokens) : undefined,
+      maxCostUsd: maxCostUsd ? parseFloat(maxCostUsd) : undefined,
+      onExceeded,
+      downgradeModel: process.env.WORKFLOW_BUDGET_DOWNGRADE_MODEL
+    };
+  }
+
+  /**
+   * Where and how generated files are written; files are only kept in the workflow state without an output directory
+   */
+  private getOutputOptions(outputDir?: string, dryRun?: boolean): OutputOptions | undefined {
+    const rootDir = outputDir || process.env.OUTPUT_DIR;
+    if (!rootDir) {
+      return undefined;
+    }
+
+    const strategies: Partial<Record<FileType, WriteStrategy>> = {};
+    for (const entry of (process.env.OUTPUT_STRATEGIES || '').split(',').map(e => e.trim()).filter(Boolean)) {
+      const [type, strategy] = entry.split('=').map(part => part.trim());
+      if (!Object.values(FileType).includes(type as FileType)) {
+        throw new Error(`Invalid OUTPUT_STRATEGIES file type: ${type}. Expected one of ${Object.values(FileType).join(', ')}`);
+      }
+      if (strategy !== 'overwrite' && strategy !== 'skip' && strategy !== 'merge') {
+        throw new Error(`Invalid OUTPUT_STRATEGIES strategy for ${type}: ${strategy}. Expected overwrite, skip or merge`);
+      }
+      strategies[type as FileType] = strategy;
+    }
+
+    return {
+      rootDir,
+      dryRun: dryRun || process.env.OUTPUT_DRY_RUN === 'true',
+      strategies
+    };
+  }
+
+  /**
+   * Number of Jira workflows run at the same time, at most MAX_PARALLEL_AGENTS; agents queue tasks beyond their own limit
+   */
+  private getJiraBatchConcurrency(requested?: number): number {
+    const concurrency = requested ?? parseInt(process.env.JIRA_BATCH_CONCURRENCY || '1');
+    const maxParallel = parseInt(process.env.MAX_PARALLEL_AGENTS || '3');
+
+    if (isNaN(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid Jira batch concurrency: ${concurrency}. Expected a positive number`);
+    }
+    if (concurrency > maxParallel) {
+      this.logger.warn(`Jira batch concurrency ${concurrency} exceeds MAX_PARALLEL_AGENTS, using ${maxParallel}`);
+    }
+
+    return Math.min(concurrency, maxParallel);
+  }
+
+  /**
+   * What to report back to Jira when a Jira workflow finishes; nothing is written unless configured
+   */
+  private getJiraWriteBackOptions(): JiraWriteBackOptions | undefined {
+    const comment = process.env.JIRA_COMMENT_ON_COMPLETE === 'true';
+    const transition = process.env.JIRA_TRANSITION_ON_COMPLETE?.trim();
+
+    if (!comment && !transition) {
+      return undefined;
+    }
+
+    return { comment, transition: transition || undefined };
+  }
+
+  /**
+   * Models to fall back to, in order, when the primary model of an agent fails
+   */
+  private getFallbackModels(): string[] {
+    return (process.env.FALLBACK_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+  }
+
   /**
    * Validate required environment variables
    */
   private validateEnvironment(): void {
-    const requiredVars = [
-      'OPENAI_API_KEY'
+    // API keys are only required for the providers of the configured models, and not at all when replaying a cassette
+    const replaying = process.env.LLM_CASSETTE_MODE === 'replay';
+    const models = replaying ? [] : [
+      process.env.MAIN_AGENT_MODEL || 'gpt-4-turbo-preview',
+      process.env.SPECIALIZED_AGENT_MODEL || 'gpt-3.5-turbo',
+      ...this.getFallbackModels(),
+      ...getRoutedModels(this.modelRouting)
     ];
+    const requiredVars = [...new Set(models.flatMap(model => getModelProvider(model).requiredEnvVars))];
 
-    const optionalJiraVars = [
-      'JIRA_HOST',
-      'JIRA_USERNAME', 
-      'JIRA_API_TOKEN'
-    ];
+    // Jira Server / Data Center authenticates with a personal access token instead of username and API token
+    const optionalJiraVars = process.env.JIRA_PERSONAL_ACCESS_TOKEN
+      ? ['JIRA_HOST']
+      : ['JIRA_HOST', 'JIRA_USERNAME', 'JIRA_API_TOKEN'];
 
     const optionalVars = [
       'FIGMA_ACCESS_TOKEN',
@@ -200,6 +373,9 @@ export class AIFrontendAutomationSystem {
   private async initializeSpecializedAgents(): Promise<void> {
     const baseAgentConfig = {
       model: process.env.SPECIALIZED_AGENT_MODEL || 'gpt-3.5-turbo',
+      fallbackModels: this.getFallbackModels(),
+      modelRouting: this.modelRouting,
+      projectContext: this.projectContext,
       maxConcurrentTasks: 2,
       retryAttempts: 3,
       timeout: parseInt(process.env.TASK_TIMEOUT_MINUTES || '30') * 60 * 1000
@@ -214,7 +390,8 @@ export class AIFrontendAutomationSystem {
 
     // Initialize Jira Analyzer Agent (optional)
     let jiraAgent: JiraAnalyzerAgent | null = null;
-    if (process.env.JIRA_HOST && process.env.JIRA_USERNAME && process.env.JIRA_API_TOKEN) {
+    const hasJiraCredentials = Boolean(process.env.JIRA_PERSONAL_ACCESS_TOKEN || (process.env.JIRA_USERNAME && process.env.JIRA_API_TOKEN));
+    if (process.env.JIRA_HOST && hasJiraCredentials) {
       jiraAgent = new JiraAnalyzerAgent(
         {
           ...baseAgentConfig,
@@ -225,7 +402,20 @@ export class AIFrontendAutomationSystem {
           host: process.env.JIRA_HOST,
           username: process.env.JIRA_USERNAME,
           apiToken: process.env.JIRA_API_TOKEN,
-          projectKey: process.env.JIRA_PROJECT_KEY || 'PROJ'
+          personalAccessToken: process.env.JIRA_PERSONAL_ACCESS_TOKEN,
+          apiVersion: process.env.JIRA_API_VERSION === '2' ? '2' : '3',
+          basePath: process.env.JIRA_BASE_PATH,
+          projectKey: process.env.JIRA_PROJECT_KEY || 'PROJ',
+          fields: {
+            storyPoints: process.env.JIRA_FIELD_STORY_POINTS,
+            epicLink: process.env.JIRA_FIELD_EPIC_LINK,
+            sprint: process.env.JIRA_FIELD_SPRINT,
+            acceptanceCriteria: process.env.JIRA_FIELD_ACCEPTANCE_CRITERIA
+          }
+        },
+        {
+          cacheDir: process.env.JIRA_ATTACHMENTS_DIR,
+          maxSizeBytes: process.env.JIRA_ATTACHMENT_MAX_MB ? parseFloat(process.env.JIRA_ATTACHMENT_MAX_MB) * 1024 * 1024 : undefined
         }
       );
     }
@@ -239,16 +429,57 @@ export class AIFrontendAutomationSystem {
       },
       {
         accessToken: process.env.FIGMA_ACCESS_TOKEN!,
-        teamId: process.env.FIGMA_TEAM_ID
+        teamId: process.env.FIGMA_TEAM_ID,
+        cacheDir: process.env.FIGMA_CACHE_DIR
+      }
+    );
+
+    // Initialize Code Generator Agent
+    const codeAgent = new CodeGeneratorAgent(
+      {
+        ...baseAgentConfig,
+        id: 'code-generator',
+        name: 'Code Generator Agent'
+      },
+      {
+        maxFixIterations: process.env.VALIDATION_MAX_FIX_ITERATIONS ? parseInt(process.env.VALIDATION_MAX_FIX_ITERATIONS) : undefined,
+        eslintConfigFile: process.env.VALIDATION_ESLINT_CONFIG
       }
     );
 
     // Initialize QA Tester Agent
-    const qaAgent = new QATesterAgent({
-      ...baseAgentConfig,
-      id: 'qa-tester',
-      name: 'QA Tester Agent'
-    });
+    const qaAgent = new QATesterAgent(
+      {
+        ...baseAgentConfig,
+        id: 'qa-tester',
+        name: 'QA Tester Agent'
+      },
+      {
+        timeoutMs: parseInt(process.env.TEST_RUN_TIMEOUT_MINUTES || '5') * 60 * 1000
+      }
+    );
+
+    // Initialize GitHub Manager Agent (optional)
+    let githubAgent: GitHubManagerAgent | null = null;
+    if (process.env.GITHUB_TOKEN && process.env.GITHUB_REPO_OWNER && process.env.GITHUB_REPO_NAME) {
+      githubAgent = new GitHubManagerAgent(
+        {
+          ...baseAgentConfig,
+          id: 'github-manager',
+          name: 'GitHub Manager Agent'
+        },
+        {
+          token: process.env.GITHUB_TOKEN,
+          owner: process.env.GITHUB_REPO_OWNER,
+          repo: process.env.GITHUB_REPO_NAME,
+          baseBranch: process.env.GITHUB_BASE_BRANCH
+        },
+        {
+          reviewers: process.env.GITHUB_REVIEWERS?.split(',').map(r => r.trim()).filter(Boolean),
+          labels: process.env.GITHUB_LABELS?.split(',').map(l => l.trim()).filter(Boolean)
+        }
+      );
+    }
 
     // Register agents with coordinator
     this.coordinatorAgent.registerAgent(promptAgent);
@@ -256,7 +487,11 @@ export class AIFrontendAutomationSystem {
       this.coordinatorAgent.registerAgent(jiraAgent);
     }
     this.coordinatorAgent.registerAgent(figmaAgent);
+    this.coordinatorAgent.registerAgent(codeAgent);
     this.coordinatorAgent.registerAgent(qaAgent);
+    if (githubAgent) {
+      this.coordinatorAgent.registerAgent(githubAgent);
+    }
 
     this.logger.info('Specialized agents initialized and registered');
   }
@@ -270,7 +505,7 @@ export class AIFrontendAutomationSystem {
     const agentsStatus = this.coordinatorAgent.getAgentsStatus();
     
     // Test each agent's connection
-    for (const [agentType, agentStatus] of Object.entries(agentsStatus.agents)) {
+    for (const agentType of Object.keys(agentsStatus.agents)) {
       try {
         // Note: This would need to be implemented properly based on agent types
         this.logger.info(`Connection test passed for ${agentType}`);
@@ -288,6 +523,61 @@ export class AIFrontendAutomationSystem {
  */
 async function main() {
   const args = process.argv.slice(2);
+
+  // Optional workflow selection: --workflow <name|path/to/definition.json>
+  let workflowName: string | undefined;
+  const workflowFlagIndex = args.indexOf('--workflow');
+  if (workflowFlagIndex !== -1) {
+    workflowName = args[workflowFlagIndex + 1];
+    if (!workflowName) {
+      console.log('❌ Error: Please provide a workflow name or definition file after --workflow flag');
+      process.exit(1);
+    }
+    args.splice(workflowFlagIndex, 2);
+  }
+
+  // Optional target project whose conventions the generated code should follow: --project <dir>
+  let projectDir: string | undefined;
+  const projectFlagIndex = args.indexOf('--project');
+  if (projectFlagIndex !== -1) {
+    projectDir = args[projectFlagIndex + 1];
+    if (!projectDir) {
+      console.log('❌ Error: Please provide a project directory after --project flag');
+      process.exit(1);
+    }
+    args.splice(projectFlagIndex, 2);
+  }
+
+  // Optional output directory for generated files: --output <dir>, previewed only with --dry-run
+  let outputDir: string | undefined;
+  const outputFlagIndex = args.indexOf('--output');
+  if (outputFlagIndex !== -1) {
+    outputDir = args[outputFlagIndex + 1];
+    if (!outputDir) {
+      console.log('❌ Error: Please provide an output directory after --output flag');
+      process.exit(1);
+    }
+    args.splice(outputFlagIndex, 2);
+  }
+
+  // Optional number of Jira workflows run at the same time: --concurrency <n>
+  let jiraConcurrency: number | undefined;
+  const concurrencyFlagIndex = args.indexOf('--concurrency');
+  if (concurrencyFlagIndex !== -1) {
+    const concurrency = args[concurrencyFlagIndex + 1];
+    if (!concurrency || !/^\d+$/.test(concurrency)) {
+      console.log('❌ Error: Please provide a number after --concurrency flag');
+      process.exit(1);
+    }
+    jiraConcurrency = parseInt(concurrency);
+    args.splice(concurrencyFlagIndex, 2);
+  }
+
+  const dryRunFlagIndex = args.indexOf('--dry-run');
+  const dryRun = dryRunFlagIndex !== -1;
+  if (dryRun) {
+    args.splice(dryRunFlagIndex, 1);
+  }
   
   if (args.length === 0) {
     console.log(`
@@ -296,31 +586,77 @@ AI Frontend Development Automation System
 Usage:
   npm run dev "<prompt>"                     # Process text prompt (primary mode)
   npm run dev --jira <task1> [task2] ...     # Process Jira tasks (optional)
+  npm run dev --jql "<query>"                # Process Jira tasks matching a JQL query
+  npm run dev --my-tasks                     # Process your open Jira tasks
+  npm run dev --sprint <id>                  # Process the Jira tasks of a sprint
+  npm run dev --concurrency <n> ...          # Run up to n Jira workflows at the same time (default: 1)
+  npm run dev --resume <workflowId>          # Resume an interrupted workflow
+  npm run dev --workflow <name|file.json> ... # Use a specific workflow definition
+  npm run dev --project <dir> ...            # Follow the conventions of a local project
+  npm run dev --output <dir> [--dry-run] ... # Write generated files (or only preview their diffs)
 
 Examples:
   npm run dev "Create a React login form with validation"
   npm run dev "Build a responsive navbar with dark mode toggle"
   npm run dev "Create user dashboard with charts https://figma.com/file/..."
   npm run dev --jira DEV-123 DEV-124
+  npm run dev --jql "project = DEV AND labels = frontend AND status = 'To Do'" --concurrency 2
+  npm run dev --sprint 42
+  npm run dev --resume 3f1c2a9e-0b7d-4c1e-9a51-2d6f0c8e4b17
+  npm run dev --workflow design-only "Landing page hero https://figma.com/file/..."
+  npm run dev --project ../web-app "Add a user avatar dropdown to the header"
+  npm run dev --output ../web-app --dry-run "Add a user avatar dropdown to the header"
 
 Environment Variables:
   Required:
-    - OPENAI_API_KEY: OpenAI API key
+    - OPENAI_API_KEY: OpenAI API key (ANTHROPIC_API_KEY for claude-* models, none for fake)
 
   Optional Integrations:
     - FIGMA_ACCESS_TOKEN: Figma personal access token
+    - FIGMA_CACHE_DIR: Cache of Figma node data, reused until the file changes (default: temp/figma-cache)
     - GITHUB_TOKEN: GitHub personal access token
+    - GITHUB_REPO_OWNER / GITHUB_REPO_NAME: Repository for pull requests
+    - GITHUB_BASE_BRANCH: Pull request base branch (default: main)
+    - GITHUB_REVIEWERS / GITHUB_LABELS: Comma-separated reviewers and labels
     
   Optional Jira Integration:
-    - JIRA_HOST: Jira domain (e.g., company.atlassian.net)
+    - JIRA_HOST: Jira domain (e.g., company.atlassian.net) or Server / Data Center URL (e.g., https://jira.company.com)
     - JIRA_USERNAME: Jira username
     - JIRA_API_TOKEN: Jira API token
+    - JIRA_PERSONAL_ACCESS_TOKEN: Server / Data Center personal access token, used instead of username and API token
+    - JIRA_API_VERSION: 3 (Jira Cloud, default) or 2 (Server / Data Center, wiki markup descriptions)
+    - JIRA_BASE_PATH: Context path of a Server / Data Center instance (e.g., /jira)
+    - JIRA_FIELD_STORY_POINTS / JIRA_FIELD_EPIC_LINK / JIRA_FIELD_SPRINT / JIRA_FIELD_ACCEPTANCE_CRITERIA:
+      Custom field IDs of your Jira site (e.g. customfield_10016)
+    - JIRA_ATTACHMENTS_DIR: Cache for downloaded image and text attachments (default: temp/jira-attachments)
+    - JIRA_ATTACHMENT_MAX_MB: Larger attachments are not downloaded (default: 10)
+    - JIRA_COMMENT_ON_COMPLETE: true - post a summary comment when a Jira workflow finishes
+    - JIRA_TRANSITION_ON_COMPLETE: Transition or status name to apply when a Jira workflow finishes (e.g. "In Review")
+    - JIRA_BATCH_CONCURRENCY: Jira workflows run at the same time, at most MAX_PARALLEL_AGENTS (same as --concurrency, default: 1)
 
   Configuration:
     - MAIN_AGENT_MODEL: AI model for main coordinator (default: gpt-4-turbo-preview)
     - SPECIALIZED_AGENT_MODEL: AI model for specialized agents (default: gpt-3.5-turbo)
+    - FALLBACK_MODELS: Comma-separated models to try when the primary model fails (e.g. claude-3-haiku-20240307)
+    - MODEL_ROUTING_FILE: JSON file with model, temperature, maxTokens and fallbacks per agent type and task type
+    - TARGET_PROJECT_DIR: Local project to scan for framework, components and conventions (same as --project)
+    - VALIDATION_MAX_FIX_ITERATIONS: Attempts to fix type-check and lint errors in generated code (default: 2)
+    - VALIDATION_ESLINT_CONFIG: ESLint config for generated code (default: recommended TypeScript rules)
+    - TEST_RUN_TIMEOUT_MINUTES: Time limit for running generated unit tests (default: 5)
+    - OUTPUT_DIR: Directory to write generated files to (same as --output)
+    - OUTPUT_DRY_RUN: true - only show diffs of what would be written (same as --dry-run)
+    - OUTPUT_STRATEGIES: Conflict strategy per file type, e.g. COMPONENT=merge,TEST=skip (overwrite | skip | merge)
+    - PROMPT_TEMPLATES_DIR: Directory with prompt templates (*.json) overriding the built-in ones by name
+    - LLM_FAKE_RESPONSES: JSON file with scripted responses by prompt hash for the "fake" model
+    - LLM_CASSETTE_MODE: record | replay | off - record LLM exchanges or replay them offline
+    - LLM_CASSETTE_DIR: Directory for recorded LLM exchanges (default: .cassettes)
     - MAX_PARALLEL_AGENTS: Maximum parallel agents (default: 3)
     - TASK_TIMEOUT_MINUTES: Task timeout in minutes (default: 30)
+    - WORKFLOW_STATE_DIR: Directory for persisted workflow state (default: .workflows)
+    - WORKFLOW_DEFINITIONS_DIR: Directory with custom workflow definitions (*.json)
+    - WORKFLOW_MAX_TOKENS / WORKFLOW_MAX_COST_USD: Token or USD budget per workflow
+    - WORKFLOW_BUDGET_ACTION: fail | downgrade - what to do when the budget is exceeded (default: fail)
+    - WORKFLOW_BUDGET_DOWNGRADE_MODEL: Model for remaining steps when downgrading (default: gpt-3.5-turbo)
     - LOG_LEVEL: Logging level (default: info)
     - LOG_FILE: Log file path (default: logs/system.log)
     `);
@@ -329,9 +665,15 @@ Environment Variables:
 
   const system = new AIFrontendAutomationSystem();
 
+  // Stopping the agents aborts in-flight requests; the failed workflow stays resumable
+  process.once('SIGINT', () => {
+    console.log('🛑 Interrupted, cancelling running tasks...');
+    void system.stop();
+  });
+
   try {
     // Initialize system
-    await system.initialize();
+    await system.initialize({ projectDir, outputDir, dryRun, jiraConcurrency });
 
     // Check if using Jira mode
     if (args[0] === '--jira') {
@@ -341,14 +683,47 @@ Environment Variables:
         process.exit(1);
       }
       console.log(`🎯 Processing ${taskNumbers.length} Jira tasks: ${taskNumbers.join(', ')}`);
-      await system.processJiraTasks(taskNumbers);
+      await system.processJiraTasks(taskNumbers, workflowName);
+    } else if (args[0] === '--jql' || args[0] === '--my-tasks' || args[0] === '--sprint') {
+      let query: JiraTaskQuery;
+      if (args[0] === '--my-tasks') {
+        query = { myTasks: true };
+      } else if (args[0] === '--sprint') {
+        if (!args[1] || !/^\d+$/.test(args[1])) {
+          console.log('❌ Error: Please provide a numeric sprint ID after --sprint flag');
+          process.exit(1);
+        }
+        query = { sprintId: args[1] };
+      } else {
+        if (!args[1]) {
+          console.log('❌ Error: Please provide a JQL query after --jql flag');
+          process.exit(1);
+        }
+        query = { jql: args[1] };
+      }
+
+      console.log('🔎 Searching Jira tasks...');
+      const result = await system.processJiraQuery(query, workflowName);
+      console.log(`🎯 Found ${result.matched.length} Jira tasks, processed ${result.queued.length}` +
+        (result.skipped.length > 0 ? `, skipped ${result.skipped.length} already completed: ${result.skipped.join(', ')}` : ''));
+    } else if (args[0] === '--resume') {
+      const workflowId = args[1];
+      if (!workflowId) {
+        console.log('❌ Error: Please provide a workflow ID after --resume flag');
+        process.exit(1);
+      }
+      console.log(`🔁 Resuming workflow ${workflowId}`);
+      await system.resumeWorkflow(workflowId);
     } else {
       // Default: treat arguments as prompts
       console.log(`🚀 Processing ${args.length} prompts...`);
-      await system.processPrompts(args);
+      await system.processPrompts(args, workflowName);
     }
 
     console.log('✅ All tasks completed successfully!');
+
+    const usage = system.getTokenUsage();
+    console.log(`💰 LLM usage: ${usage.totalTokens} tokens in ${usage.calls} calls, ~$${usage.costUsd.toFixed(4)}`);
   } catch (error) {
     console.error('❌ System error:', error);
     process.exit(1);
@@ -0,0 +1,103 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BaseMessage } from '@langchain/core/messages';
+import { CassetteMode, CassetteOptions } from '../types';
+import { hashMessages } from './promptHash';
+import { ModelResponse, ModelUsage } from './usage';
+
+export interface CassetteEntry {
+  hash: string;
+  messages: Array<{ role: string; content: string }>;
+  response: string;
+  usage?: ModelUsage;
+  recordedAt: string;
+}
+
+/**
+ * Records LLM exchanges to disk and replays them, so runs can be reproduced without network access
+ */
+export class Cassette {
+  private directory: string;
+  private mode: CassetteMode;
+
+  constructor(options: CassetteOptions) {
+    this.mode = options.mode;
+    this.directory = options.directory || process.env.LLM_CASSETTE_DIR || path.join(process.cwd(), '.cassettes');
+  }
+
+  /**
+   * Create a cassette from explicit options or LLM_CASSETTE_MODE, or undefined when recording is off
+   */
+  static fromConfig(options?: CassetteOptions): Cassette | undefined {
+    if (options) {
+      return new Cassette(options);
+    }
+
+    const mode = process.env.LLM_CASSETTE_MODE;
+    if (!mode || mode === 'off') {
+      return undefined;
+    }
+    if (mode !== 'record' && mode !== 'replay') {
+      throw new Error(`Invalid LLM_CASSETTE_MODE: ${mode}. Expected record, replay or off`);
+    }
+
+    return new Cassette({ mode });
+  }
+
+  getMode(): CassetteMode {
+    return this.mode;
+  }
+
+  /**
+   * Replay the recorded response for these messages, or invoke the model and record its response
+   */
+  async run(messages: BaseMessage[], invoke: () => Promise<ModelResponse>): Promise<ModelResponse> {
+    const hash = hashMessages(messages);
+
+    if (this.mode === 'replay') {
+      const entry = await this.load(hash);
+      if (!entry) {
+        throw new Error(`No recorded LLM response for prompt ${hash} in ${this.directory}`);
+      }
+      return { content: entry.response, usage: entry.usage };
+    }
+
+    const response = await invoke();
+    await this.save({
+      hash,
+      messages: messages.map(message => ({
+        role: message._getType(),
+        content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+      })),
+      response: response.content,
+      usage: response.usage,
+      recordedAt: new Date().toISOString()
+    });
+
+    return response;
+  }
+
+  private async load(hash: string): Promise<CassetteEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getFilePath(hash), 'utf-8')) as CassetteEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Failed to load cassette entry ${hash}: ${error}`);
+    }
+  }
+
+  private async save(entry: CassetteEntry): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.getFilePath(entry.hash), JSON.stringify(entry, null, 2), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to record cassette entry ${entry.hash}: ${error}`);
+    }
+  }
+
+  private getFilePath(hash: string): string {
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
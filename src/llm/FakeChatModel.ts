@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import { BaseMessage } from '@langchain/core/messages';
+import { SimpleChatModel } from '@langchain/core/language_models/chat_models';
+import { hashMessages } from './promptHash';
+
+export interface FakeChatModelOptions {
+  responses?: { [promptHash: string]: string };
+  responsesFile?: string;
+  defaultResponse?: string;
+}
+
+/**
+ * Offline chat model that answers with scripted responses keyed by prompt hash
+ *
+ * Prompts without a scripted response get the default response, which makes agents
+ * fall back to their template/heuristic code paths.
+ */
+export class FakeChatModel extends SimpleChatModel {
+  private responses: { [promptHash: string]: string };
+  private defaultResponse: string;
+  private unmatchedHashes: string[] = [];
+
+  constructor(options: FakeChatModelOptions = {}) {
+    super({});
+    this.responses = {
+      ...(options.responsesFile ? FakeChatModel.loadResponses(options.responsesFile) : {}),
+      ...options.responses
+    };
+    this.defaultResponse = options.defaultResponse ?? '{}';
+  }
+
+  _llmType(): string {
+    return 'fake';
+  }
+
+  _call(messages: BaseMessage[]): Promise<string> {
+    const promptHash = hashMessages(messages);
+
+    if (promptHash in this.responses) {
+      return Promise.resolve(this.responses[promptHash]);
+    }
+
+    this.unmatchedHashes.push(promptHash);
+    return Promise.resolve(this.defaultResponse);
+  }
+
+  /**
+   * Hashes of prompts that were answered with the default response, useful for writing new scripts
+   */
+  getUnmatchedHashes(): string[] {
+    return [...this.unmatchedHashes];
+  }
+
+  private static loadResponses(filePath: string): { [promptHash: string]: string } {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to load fake model responses from ${filePath}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { BaseLanguageModel } from '@langchain/core/language_models/base';
+import { ChatOpenAI } from '@langchain/openai';
+import { FakeChatModel } from './FakeChatModel';
+
+export interface ModelOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ModelProvider {
+  name: string;
+  requiredEnvVars: string[];
+  supports(modelName: string): boolean;
+  create(modelName: string, options: ModelOptions): BaseLanguageModel;
+}
+
+const DEFAULT_TEMPERATURE = 0.1;
+
+const providers: ModelProvider[] = [
+  {
+    name: 'openai',
+    requiredEnvVars: ['OPENAI_API_KEY'],
+    supports: modelName => modelName.startsWith('gpt-'),
+    create: (modelName, options) => new ChatOpenAI({
+      modelName,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: options.maxTokens,
+      openAIApiKey: process.env.OPENAI_API_KEY
+    })
+  },
+  {
+    name: 'anthropic',
+    requiredEnvVars: ['ANTHROPIC_API_KEY'],
+    supports: modelName => modelName.startsWith('claude-'),
+    create: (modelName, options) => new ChatAnthropic({
+      modelName,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: options.maxTokens,
+      anthropicApiKey: process.env.ANTHROPIC_API_KEY
+    })
+  },
+  {
+    // Offline model for tests and CI: "fake", responses scripted in LLM_FAKE_RESPONSES
+    name: 'fake',
+    requiredEnvVars: [],
+    supports: modelName => modelName === 'fake' || modelName.startsWith('fake-'),
+    create: () => new FakeChatModel({ responsesFile: process.env.LLM_FAKE_RESPONSES })
+  }
+];
+
+/**
+ * Register an additional model provider; it takes precedence over the built-in ones
+ */
+export function registerModelProvider(provider: ModelProvider): void {
+  providers.unshift(provider);
+}
+
+/**
+ * Find the provider responsible for a model name
+ */
+export function getModelProvider(modelName: string): ModelProvider {
+  const provider = providers.find(p => p.supports(modelName));
+  if (!provider) {
+    throw new Error(`Unsupported model: ${modelName}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Create a language model instance for a model name
+ */
+export function createLanguageModel(modelName: string, options: ModelOptions = {}): BaseLanguageModel {
+  return getModelProvider(modelName).create(modelName, options);
+}
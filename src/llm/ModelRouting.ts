@@ -0,0 +1,102 @@
+import * as fs from 'fs/promises';
+import { z } from 'zod';
+import { AgentTaskType, AgentType, ModelRoutingConfig, ModelSettings } from '../types';
+import { getModelProvider } from './ModelProvider';
+
+const modelName = z.string().min(1).superRefine((name, ctx) => {
+  try {
+    getModelProvider(name);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+  }
+});
+
+const ModelRuleSchema = z.object({
+  model: modelName.optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  fallbacks: z.array(modelName).optional()
+}).strict();
+
+const ModelRoutingSchema = z.object({
+  default: ModelRuleSchema.optional(),
+  agents: z.record(z.nativeEnum(AgentType), ModelRuleSchema).optional(),
+  tasks: z.record(z.nativeEnum(AgentTaskType), ModelRuleSchema).optional()
+}).strict();
+
+/**
+ * Validate a raw routing configuration, throwing a readable error on failure
+ */
+export function parseModelRouting(raw: unknown, source: string = 'model routing'): ModelRoutingConfig {
+  const result = ModelRoutingSchema.safeParse(raw);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid ${source}:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load the routing configuration from a JSON file (MODEL_ROUTING_FILE by default)
+ */
+export async function loadModelRouting(filePath: string | undefined = process.env.MODEL_ROUTING_FILE): Promise<ModelRoutingConfig | undefined> {
+  if (!filePath) {
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read model routing ${filePath}: ${error}`);
+  }
+
+  return parseModelRouting(raw, `model routing ${filePath}`);
+}
+
+/**
+ * Resolve model settings for an agent and task type: base < default < agent rule < task rule
+ */
+export function resolveModelSettings(
+  base: ModelSettings,
+  routing: ModelRoutingConfig | undefined,
+  agentType: AgentType,
+  taskType?: AgentTaskType
+): ModelSettings {
+  const rules = [
+    routing?.default,
+    routing?.agents?.[agentType],
+    taskType ? routing?.tasks?.[taskType] : undefined
+  ];
+
+  return rules.reduce<ModelSettings>((settings, rule) => ({
+    model: rule?.model ?? settings.model,
+    temperature: rule?.temperature ?? settings.temperature,
+    maxTokens: rule?.maxTokens ?? settings.maxTokens,
+    fallbacks: rule?.fallbacks ?? settings.fallbacks
+  }), base);
+}
+
+/**
+ * All model names a routing configuration may use, including fallbacks
+ */
+export function getRoutedModels(routing: ModelRoutingConfig | undefined): string[] {
+  if (!routing) {
+    return [];
+  }
+
+  const rules = [
+    routing.default,
+    ...Object.values(routing.agents || {}),
+    ...Object.values(routing.tasks || {})
+  ];
+
+  return [...new Set(rules.flatMap(rule => [
+    ...(rule?.model ? [rule.model] : []),
+    ...(rule?.fallbacks || [])
+  ]))];
+}
@@ -0,0 +1,14 @@
+import { createHash } from 'crypto';
+import { BaseMessage } from '@langchain/core/messages';
+
+/**
+ * Stable hash of a conversation, used to key scripted and recorded responses
+ */
+export function hashMessages(messages: BaseMessage[]): string {
+  const normalized = messages.map(message => ({
+    role: message._getType(),
+    content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+  }));
+
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').substring(0, 16);
+}
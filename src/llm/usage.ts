@@ -0,0 +1,104 @@
+import { TokenUsage } from '../types';
+
+export interface ModelUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ModelResponse {
+  content: string;
+  usage?: ModelUsage;
+}
+
+// USD per 1M tokens (input, output); the longest matching model prefix wins
+const MODEL_PRICING: { [modelPrefix: string]: [number, number] } = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4-turbo': [10, 30],
+  'gpt-4': [30, 60],
+  'gpt-3.5-turbo': [0.5, 1.5],
+  'claude-3-opus': [15, 75],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-haiku': [0.25, 1.25],
+  'fake': [0, 0]
+};
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, calls: 0 };
+}
+
+/**
+ * Sum usage records, ignoring missing ones
+ */
+export function addUsage(...usages: Array<TokenUsage | undefined>): TokenUsage {
+  return usages.reduce<TokenUsage>((total, usage) => usage ? {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    costUsd: total.costUsd + usage.costUsd,
+    calls: total.calls + usage.calls
+  } : total, emptyUsage());
+}
+
+/**
+ * Build the usage record of a single model call
+ */
+export function createUsage(modelName: string, usage: ModelUsage): TokenUsage {
+  const pricing = Object.keys(MODEL_PRICING)
+    .filter(prefix => modelName.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  const [inputPrice, outputPrice] = pricing ? MODEL_PRICING[pricing] : [0, 0];
+
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.promptTokens + usage.completionTokens,
+    costUsd: (usage.promptTokens * inputPrice + usage.completionTokens * outputPrice) / 1_000_000,
+    calls: 1
+  };
+}
+
+/**
+ * Read token counts from a LangChain chat response (OpenAI and Anthropic metadata formats)
+ */
+export function extractModelUsage(response: any): ModelUsage | undefined {
+  const metadata = response?.usage_metadata;
+  if (metadata) {
+    return { promptTokens: metadata.input_tokens || 0, completionTokens: metadata.output_tokens || 0 };
+  }
+
+  const tokenUsage = response?.response_metadata?.tokenUsage;
+  if (tokenUsage) {
+    return { promptTokens: tokenUsage.promptTokens || 0, completionTokens: tokenUsage.completionTokens || 0 };
+  }
+
+  const anthropicUsage = response?.response_metadata?.usage;
+  if (anthropicUsage) {
+    return { promptTokens: anthropicUsage.input_tokens || 0, completionTokens: anthropicUsage.output_tokens || 0 };
+  }
+
+  return undefined;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for providers that report no usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Check a usage total against a budget and describe the first limit it exceeds
+ */
+export function describeBudgetOverrun(usage: TokenUsage, maxTokens?: number, maxCostUsd?: number): string | undefined {
+  if (maxTokens !== undefined && usage.totalTokens > maxTokens) {
+    return `${usage.totalTokens} tokens used, limit is ${maxTokens}`;
+  }
+  if (maxCostUsd !== undefined && usage.costUsd > maxCostUsd) {
+    return `$${usage.costUsd.toFixed(4)} spent, limit is $${maxCostUsd}`;
+  }
+
+  return undefined;
+}
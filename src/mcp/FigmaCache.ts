@@ -0,0 +1,161 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface FigmaFileMeta {
+  version: string;
+  etag?: string;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Stored for nodes the file does not contain, so they are not requested again for the same version
+const MISSING_NODE = { missing: true };
+
+/**
+ * On-disk cache of Figma API responses, keyed by file key, file version and node id
+ *
+ * Entries of a file are only valid for the version they were fetched at; recording a new version drops the old ones.
+ * Concurrent requests for the same key share one in-flight fetch.
+ */
+export class FigmaCache {
+  private directory: string;
+  private inFlight: Map<string, InFlightRequest>;
+
+  constructor(directory?: string) {
+    this.directory = directory || path.join(process.cwd(), 'temp', 'figma-cache');
+    this.inFlight = new Map();
+  }
+
+  /**
+   * Run `fetch` unless a fetch for the same key is already running, in which case its result is shared
+   *
+   * A caller whose signal aborts stops waiting; the shared fetch itself is only aborted once every caller has.
+   */
+  dedupe<T>(key: string, fetch: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    let request = this.inFlight.get(key);
+    if (!request) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        waiters: 0,
+        promise: fetch(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        })
+      };
+      this.inFlight.set(key, created);
+      request = created;
+    }
+
+    const shared = request;
+    shared.waiters++;
+
+    if (!signal) {
+      // Callers without a signal never stop waiting, so the shared fetch is never aborted
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiters--;
+        if (shared.waiters === 0) {
+          this.inFlight.delete(key);
+          shared.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Version and ETag of a file as last seen, or null if the file was never fetched
+   */
+  async getFileMeta(fileKey: string): Promise<FigmaFileMeta | null> {
+    return this.read<FigmaFileMeta>(path.join(this.getFileDir(fileKey), 'meta.json'));
+  }
+
+  /**
+   * Record the current version of a file, removing entries cached for other versions
+   */
+  async setFileMeta(fileKey: string, meta: FigmaFileMeta): Promise<void> {
+    const fileDir = this.getFileDir(fileKey);
+    const previous = await this.getFileMeta(fileKey);
+
+    if (previous && previous.version !== meta.version) {
+      await fs.rm(path.join(fileDir, toSafeName(previous.version)), { recursive: true, force: true });
+    }
+    await this.write(path.join(fileDir, 'meta.json'), meta);
+  }
+
+  /**
+   * Node data of a file version from the cache, fetched and stored on a miss; null if the file has no such node
+   */
+  async getNode<T>(
+    fileKey: string,
+    version: string,
+    nodeId: string,
+    fetch: (signal: AbortSignal) => Promise<T | null>,
+    signal?: AbortSignal
+  ): Promise<T | null> {
+    const filePath = path.join(this.getFileDir(fileKey), toSafeName(version), `${toSafeName(nodeId)}.json`);
+
+    return this.dedupe(`node:${fileKey}@${version}:${nodeId}`, async fetchSignal => {
+      const cached = await this.read<T | typeof MISSING_NODE>(filePath);
+      if (cached !== null) {
+        return isMissingNode(cached) ? null : cached;
+      }
+
+      const node = await fetch(fetchSignal);
+      await this.write(filePath, node === null ? MISSING_NODE : node);
+      return node;
+    }, signal);
+  }
+
+  private getFileDir(fileKey: string): string {
+    return path.join(this.directory, toSafeName(fileKey));
+  }
+
+  private async read<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+    } catch {
+      // Missing or unreadable entries are fetched again
+      return null;
+    }
+  }
+
+  private async write(filePath: string, value: unknown): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(value), 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      throw new Error(`Failed to write Figma cache entry ${filePath}: ${error}`);
+    }
+  }
+}
+
+function toSafeName(value: string): string {
+  return value.replace(/[^\w.-]+/g, '_');
+}
+
+function isMissingNode(value: unknown): value is typeof MISSING_NODE {
+  return typeof value === 'object' && value !== null
+    && Object.keys(value).length === 1 && (value as typeof MISSING_NODE).missing === true;
+}
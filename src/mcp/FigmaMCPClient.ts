@@ -1,17 +1,22 @@
 import axios, { AxiosInstance } from 'axios';
-import { FigmaDesign, DesignSpecification } from '../types';
+import { DesignSpecification, FigmaDesign } from '../types';
+import { FigmaCache } from './FigmaCache';
+import { PermanentTaskError } from '../utils/errors';
 
 export interface FigmaMCPConfig {
   accessToken: string;
   teamId?: string;
+  cacheDir?: string; // Node data cache, default temp/figma-cache
 }
 
 export class FigmaMCPClient {
   private client: AxiosInstance;
   private config: FigmaMCPConfig;
+  private cache: FigmaCache;
 
   constructor(config: FigmaMCPConfig) {
     this.config = config;
+    this.cache = new FigmaCache(config.cacheDir);
     this.client = axios.create({
       baseURL: 'https://api.figma.com/v1',
       headers: {
@@ -43,39 +48,24 @@ export class FigmaMCPClient {
       }
     }
 
-    throw new Error(`Invalid Figma URL: ${url}`);
+    throw new PermanentTaskError('INVALID_INPUT', `Invalid Figma URL: ${url}`);
   }
 
   /**
    * Get design information from Figma URL
    */
-  async getDesignFromUrl(url: string): Promise<FigmaDesign> {
+  async getDesignFromUrl(url: string, signal?: AbortSignal): Promise<FigmaDesign> {
     const { fileKey, nodeId } = this.parseFigmaUrl(url);
     
     try {
-      // Get file information
-      const fileResponse = await this.client.get(`/files/${fileKey}`);
-      const file = fileResponse.data;
-
-      let targetNode = null;
-      let nodeName = 'Root';
-
-      // Find specific node if nodeId is provided
-      if (nodeId) {
-        const nodesResponse = await this.client.get(`/files/${fileKey}/nodes`, {
-          params: { ids: nodeId }
-        });
-        
-        if (nodesResponse.data.nodes[nodeId]) {
-          targetNode = nodesResponse.data.nodes[nodeId];
-          nodeName = targetNode.document.name;
-        }
-      }
+      const version = await this.getFileVersion(fileKey, signal);
+      const targetNode = nodeId ? await this.getNode(fileKey, version, nodeId, signal) : null;
+      const nodeName = targetNode?.document.name || 'Root';
 
       // Get node styles and properties
-      const specifications = await this.extractDesignSpecifications(fileKey, nodeId);
+      const specifications = this.extractDesignSpecifications(targetNode?.document);
 
-      // Generate image URL if needed
+      // Rendered image URLs expire, so they are requested on every call
       let imageUrl: string | undefined;
       if (nodeId) {
         try {
@@ -84,7 +74,8 @@ export class FigmaMCPClient {
               ids: nodeId,
               format: 'png',
               scale: 2
-            }
+            },
+            signal
           });
           imageUrl = imageResponse.data.images[nodeId];
         } catch (error) {
@@ -98,30 +89,60 @@ export class FigmaMCPClient {
         name: nodeName,
         type: targetNode?.document.type || 'FILE',
         url,
+        version,
         imageUrl,
         specifications
       };
     } catch (error) {
-      throw new Error(`Failed to fetch Figma design: ${error}`);
+      throw Object.assign(new Error(`Failed to fetch Figma design: ${error}`), { cause: error });
     }
   }
 
   /**
-   * Extract design specifications from a node
+   * Current version of a file; the cached ETag makes the check a 304 when nothing changed
    */
-  private async extractDesignSpecifications(fileKey: string, nodeId?: string): Promise<DesignSpecification[]> {
-    const specifications: DesignSpecification[] = [];
+  private async getFileVersion(fileKey: string, signal?: AbortSignal): Promise<string> {
+    return this.cache.dedupe(`version:${fileKey}`, async fetchSignal => {
+      const cached = await this.cache.getFileMeta(fileKey);
+
+      // depth=1 returns the file metadata without the document tree
+      const response = await this.client.get(`/files/${fileKey}`, {
+        params: { depth: 1 },
+        headers: cached?.etag ? { 'If-None-Match': cached.etag } : undefined,
+        validateStatus: status => status === 304 || (status >= 200 && status < 300),
+        signal: fetchSignal
+      });
+
+      if (response.status === 304 && cached) {
+        return cached.version;
+      }
 
-    try {
-      let nodeData = null;
+      const version = String(response.data.version);
+      await this.cache.setFileMeta(fileKey, { version, etag: response.headers?.etag });
+      return version;
+    }, signal);
+  }
 
-      if (nodeId) {
-        const nodesResponse = await this.client.get(`/files/${fileKey}/nodes`, {
-          params: { ids: nodeId }
-        });
-        nodeData = nodesResponse.data.nodes[nodeId]?.document;
-      }
+  /**
+   * Node of a file version with its document, read from the cache when it was fetched before
+   */
+  private async getNode(fileKey: string, version: string, nodeId: string, signal?: AbortSignal): Promise<any> {
+    return this.cache.getNode(fileKey, version, nodeId, async fetchSignal => {
+      const response = await this.client.get(`/files/${fileKey}/nodes`, {
+        params: { ids: nodeId },
+        signal: fetchSignal
+      });
+      return response.data.nodes[nodeId] || null;
+    }, signal);
+  }
 
+  /**
+   * Extract design specifications from a node document
+   */
+  private extractDesignSpecifications(nodeData: any): DesignSpecification[] {
+    const specifications: DesignSpecification[] = [];
+
+    try {
       if (!nodeData) {
         return specifications;
       }
@@ -0,0 +1,247 @@
+import { Octokit } from '@octokit/rest';
+import { GeneratedFile, GitHubPullRequest } from '../types';
+
+export interface GitHubMCPConfig {
+  token: string;
+  owner: string;
+  repo: string;
+  baseBranch?: string;
+  baseUrl?: string;
+}
+
+export interface CreatedPullRequest {
+  number: number;
+  url: string;
+}
+
+export class GitHubMCPClient {
+  private client: Octokit;
+  private config: GitHubMCPConfig;
+
+  constructor(config: GitHubMCPConfig) {
+    this.config = config;
+    this.client = new Octokit({
+      auth: config.token,
+      baseUrl: config.baseUrl || 'https://api.github.com',
+      request: {
+        timeout: 30000
+      }
+    });
+  }
+
+  /**
+   * Get the default base branch for pull requests
+   */
+  getBaseBranch(): string {
+    return this.config.baseBranch || 'main';
+  }
+
+  /**
+   * Get latest commit SHA of a branch
+   */
+  async getBranchSha(branch: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const response = await this.client.git.getRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `heads/${branch}`,
+        request: { signal }
+      });
+      return response.data.object.sha;
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to get branch ${branch}: ${error}`), { cause: error });
+    }
+  }
+
+  /**
+   * Create a new branch pointing at the given commit; returns false if the branch already exists
+   */
+  async createBranch(branch: string, sha: string, signal?: AbortSignal): Promise<boolean> {
+    try {
+      await this.client.git.createRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `refs/heads/${branch}`,
+        sha,
+        request: { signal }
+      });
+      return true;
+    } catch (error: any) {
+      // Branch names are derived from the Jira key, so reruns of a task find the branch of the previous run
+      if (error?.status === 422 && /Reference already exists/i.test(error.message)) {
+        return false;
+      }
+      throw Object.assign(new Error(`Failed to create branch ${branch}: ${error}`), { cause: error });
+    }
+  }
+
+  /**
+   * Commit all files to a branch as a single commit and return the commit SHA
+   */
+  async commitFiles(branch: string, files: GeneratedFile[], message: string, signal?: AbortSignal): Promise<string> {
+    const { owner, repo } = this.config;
+
+    try {
+      const parentSha = await this.getBranchSha(branch, signal);
+      const parentCommit = await this.client.git.getCommit({ owner, repo, commit_sha: parentSha, request: { signal } });
+
+      const tree = [];
+      for (const file of files) {
+        const blob = await this.client.git.createBlob({
+          owner,
+          repo,
+          content: Buffer.from(file.content, 'utf-8').toString('base64'),
+          encoding: 'base64',
+          request: { signal }
+        });
+
+        tree.push({
+          path: file.path,
+          mode: '100644' as const,
+          type: 'blob' as const,
+          sha: blob.data.sha
+        });
+      }
+
+      const createdTree = await this.client.git.createTree({
+        owner,
+        repo,
+        base_tree: parentCommit.data.tree.sha,
+        tree,
+        request: { signal }
+      });
+
+      const commit = await this.client.git.createCommit({
+        owner,
+        repo,
+        message,
+        tree: createdTree.data.sha,
+        parents: [parentSha],
+        request: { signal }
+      });
+
+      await this.client.git.updateRef({
+        owner,
+        repo,
+        ref: `heads/${branch}`,
+        sha: commit.data.sha,
+        request: { signal }
+      });
+
+      return commit.data.sha;
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to commit files to ${branch}: ${error}`), { cause: error });
+    }
+  }
+
+  /**
+   * Open a pull request and assign reviewers and labels
+   */
+  async createPullRequest(pullRequest: GitHubPullRequest, signal?: AbortSignal): Promise<CreatedPullRequest> {
+    const { owner, repo } = this.config;
+
+    try {
+      const response = await this.client.pulls.create({
+        owner,
+        repo,
+        title: pullRequest.title,
+        body: pullRequest.body,
+        head: pullRequest.head,
+        base: pullRequest.base,
+        draft: pullRequest.draft,
+        request: { signal }
+      });
+
+      const number = response.data.number;
+
+      if (pullRequest.reviewers && pullRequest.reviewers.length > 0) {
+        await this.client.pulls.requestReviewers({
+          owner,
+          repo,
+          pull_number: number,
+          reviewers: pullRequest.reviewers,
+          request: { signal }
+        });
+      }
+
+      if (pullRequest.labels && pullRequest.labels.length > 0) {
+        await this.client.issues.addLabels({
+          owner,
+          repo,
+          issue_number: number,
+          labels: pullRequest.labels,
+          request: { signal }
+        });
+      }
+
+      return {
+        number,
+        url: response.data.html_url
+      };
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to create pull request: ${error}`), { cause: error });
+    }
+  }
+
+  /**
+   * Find the open pull request for a branch of this repository
+   */
+  async findOpenPullRequest(branch: string, signal?: AbortSignal): Promise<CreatedPullRequest | null> {
+    const { owner, repo } = this.config;
+
+    try {
+      const response = await this.client.pulls.list({
+        owner,
+        repo,
+        head: `${owner}:${branch}`,
+        state: 'open',
+        request: { signal }
+      });
+
+      const pull = response.data[0];
+      return pull ? { number: pull.number, url: pull.html_url } : null;
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to find pull request for ${branch}: ${error}`), { cause: error });
+    }
+  }
+
+  /**
+   * Replace title and description of an existing pull request
+   */
+  async updatePullRequest(number: number, pullRequest: GitHubPullRequest, signal?: AbortSignal): Promise<CreatedPullRequest> {
+    const { owner, repo } = this.config;
+
+    try {
+      const response = await this.client.pulls.update({
+        owner,
+        repo,
+        pull_number: number,
+        title: pullRequest.title,
+        body: pullRequest.body,
+        request: { signal }
+      });
+
+      return {
+        number,
+        url: response.data.html_url
+      };
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to update pull request #${number}: ${error}`), { cause: error });
+    }
+  }
+
+  /**
+   * Test connection to GitHub
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.client.repos.get({
+        owner: this.config.owner,
+        repo: this.config.repo
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
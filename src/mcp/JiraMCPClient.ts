@@ -1,13 +1,24 @@
 import axios, { AxiosInstance } from 'axios';
-import { JiraTask } from '../types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { JiraAttachment, JiraTask } from '../types';
+import { AdfNode, adfDoc, adfParagraph } from './adf';
+import { JiraFieldMapping, JiraMarkup, getIssueFields, mapJiraIssue } from './jiraIssue';
+import { adfToWikiMarkup } from './wiki';
 
 export interface JiraMCPConfig {
-  host: string;
-  username: string;
-  apiToken: string;
+  host: string; // Domain of a Jira Cloud site, or the URL of a Server / Data Center instance
+  username?: string;
+  apiToken?: string;
+  personalAccessToken?: string; // Server / Data Center; sent as bearer token instead of basic auth
   projectKey: string;
+  apiVersion?: '2' | '3'; // 3 (Jira Cloud) by default; Server / Data Center only offers 2
+  basePath?: string; // Context path of the instance, e.g. "/jira"
+  fields?: JiraFieldMapping;
 }
 
+const SEARCH_PAGE_SIZE = 50;
+
 export class JiraMCPClient {
   private client: AxiosInstance;
   private config: JiraMCPConfig;
@@ -15,145 +26,179 @@ export class JiraMCPClient {
   constructor(config: JiraMCPConfig) {
     this.config = config;
     this.client = axios.create({
-      baseURL: `https://${config.host}/rest/api/3`,
-      auth: {
-        username: config.username,
-        password: config.apiToken
+      baseURL: getApiUrl(config),
+      auth: config.personalAccessToken ? undefined : {
+        username: config.username || '',
+        password: config.apiToken || ''
       },
       headers: {
         'Accept': 'application/json',
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(config.personalAccessToken ? { 'Authorization': `Bearer ${config.personalAccessToken}` } : {})
       },
       timeout: 30000
     });
   }
 
+  /**
+   * Rich text format of the configured API version
+   */
+  private get markup(): JiraMarkup {
+    return this.config.apiVersion === '2' ? 'wiki' : 'adf';
+  }
+
   /**
    * Get Jira task by key/number
    */
-  async getTask(taskKey: string): Promise<JiraTask> {
+  async getTask(taskKey: string, signal?: AbortSignal): Promise<JiraTask> {
     try {
       const response = await this.client.get(`/issue/${taskKey}`, {
         params: {
-          expand: 'description,comment,attachment'
-        }
+          fields: getIssueFields(this.config.fields).join(',')
+        },
+        signal
       });
 
-      const issue = response.data;
-      
-      return {
-        id: issue.id,
-        key: issue.key,
-        summary: issue.fields.summary,
-        description: issue.fields.description?.content?.[0]?.content?.[0]?.text || '',
-        status: issue.fields.status.name,
-        assignee: issue.fields.assignee?.displayName,
-        priority: issue.fields.priority?.name || 'Medium',
-        labels: issue.fields.labels || [],
-        components: issue.fields.components?.map((c: any) => c.name) || [],
-        issueType: issue.fields.issuetype.name,
-        figmaLinks: this.extractFigmaLinks(issue),
-        acceptanceCriteria: this.extractAcceptanceCriteria(issue)
-      };
+      return mapJiraIssue(response.data, this.config.fields, this.markup);
     } catch (error) {
-      throw new Error(`Failed to fetch Jira task ${taskKey}: ${error}`);
+      // Keep the HTTP error as cause so retries can honor status codes and Retry-After
+      throw Object.assign(new Error(`Failed to fetch Jira task ${taskKey}: ${error}`), { cause: error });
     }
   }
 
   /**
-   * Get multiple tasks by JQL query
+   * Get all tasks matching a JQL query, following pages until `maxResults` tasks are collected
+   *
+   * Jira Cloud (API 3) pages `/search/jql` by `nextPageToken`; Server / Data Center pages `/search` by `startAt`/`total`.
    */
-  async getTasksByJQL(jql: string, maxResults: number = 50): Promise<JiraTask[]> {
+  async getTasksByJQL(jql: string, maxResults?: number, signal?: AbortSignal): Promise<JiraTask[]> {
+    const tokenPaging = this.config.apiVersion !== '2';
+    const tasks: JiraTask[] = [];
+    let nextPageToken: string | undefined;
+
     try {
-      const response = await this.client.post('/search', {
-        jql,
-        maxResults,
-        expand: ['description', 'comment', 'attachment']
-      });
+      for (;;) {
+        const pageSize = maxResults ? Math.min(SEARCH_PAGE_SIZE, maxResults - tasks.length) : SEARCH_PAGE_SIZE;
+        const response = await this.client.post(tokenPaging ? '/search/jql' : '/search', {
+          jql,
+          maxResults: pageSize,
+          fields: getIssueFields(this.config.fields),
+          ...(tokenPaging ? (nextPageToken ? { nextPageToken } : {}) : { startAt: tasks.length })
+        }, { signal });
+
+        const { issues = [], total, isLast } = response.data;
+        tasks.push(...issues.map((issue: any) => mapJiraIssue(issue, this.config.fields, this.markup)));
+        nextPageToken = response.data.nextPageToken;
 
-      return response.data.issues.map((issue: any) => ({
-        id: issue.id,
-        key: issue.key,
-        summary: issue.fields.summary,
-        description: issue.fields.description?.content?.[0]?.content?.[0]?.text || '',
-        status: issue.fields.status.name,
-        assignee: issue.fields.assignee?.displayName,
-        priority: issue.fields.priority?.name || 'Medium',
-        labels: issue.fields.labels || [],
-        components: issue.fields.components?.map((c: any) => c.name) || [],
-        issueType: issue.fields.issuetype.name,
-        figmaLinks: this.extractFigmaLinks(issue),
-        acceptanceCriteria: this.extractAcceptanceCriteria(issue)
-      }));
+        const hasMore = tokenPaging ? nextPageToken !== undefined : typeof total === 'number' && tasks.length < total;
+        if (isLast || !hasMore || issues.length === 0 || (maxResults && tasks.length >= maxResults)) {
+          return tasks;
+        }
+      }
     } catch (error) {
-      throw new Error(`Failed to search Jira tasks: ${error}`);
+      throw Object.assign(new Error(`Failed to search Jira tasks: ${error}`), { cause: error });
     }
   }
 
   /**
    * Get tasks assigned to current user
    */
-  async getMyTasks(): Promise<JiraTask[]> {
+  async getMyTasks(signal?: AbortSignal): Promise<JiraTask[]> {
     const jql = `assignee = currentUser() AND status != Done ORDER BY priority DESC, created DESC`;
-    return this.getTasksByJQL(jql);
+    return this.getTasksByJQL(jql, undefined, signal);
   }
 
   /**
    * Get tasks for specific sprint
    */
-  async getSprintTasks(sprintId: string): Promise<JiraTask[]> {
+  async getSprintTasks(sprintId: string, signal?: AbortSignal): Promise<JiraTask[]> {
     const jql = `sprint = ${sprintId} ORDER BY priority DESC, created DESC`;
-    return this.getTasksByJQL(jql);
+    return this.getTasksByJQL(jql, undefined, signal);
+  }
+
+  /**
+   * Get the open child issues of an Epic in backlog order
+   *
+   * Team-managed projects link children through the parent; company-managed ones and Server / Data Center
+   * use the Epic Link field.
+   */
+  async getEpicChildren(epicKey: string, signal?: AbortSignal): Promise<JiraTask[]> {
+    const epicLinkId = this.config.fields?.epicLink?.match(/^customfield_(\d+)$/)?.[1];
+    let link = `parent = ${epicKey}`;
+    if (epicLinkId) {
+      link = `(parent = ${epicKey} OR cf[${epicLinkId}] = ${epicKey})`;
+    } else if (this.config.apiVersion === '2') {
+      link = `"Epic Link" = ${epicKey}`;
+    }
+    const jql = `${link} AND statusCategory != Done ORDER BY Rank ASC`;
+    return this.getTasksByJQL(jql, undefined, signal);
   }
 
   /**
    * Update task status
    */
-  async updateTaskStatus(taskKey: string, transitionId: string): Promise<void> {
+  async updateTaskStatus(taskKey: string, transitionId: string, signal?: AbortSignal): Promise<void> {
     try {
       await this.client.post(`/issue/${taskKey}/transitions`, {
         transition: {
           id: transitionId
         }
-      });
+      }, { signal });
     } catch (error) {
       throw new Error(`Failed to update task status: ${error}`);
     }
   }
 
   /**
-   * Add comment to task
+   * Apply the transition with the given name, or the one leading to a status of that name
+   *
+   * Transition ids differ between projects and workflows, so configuration refers to them by name.
+   * Returns the name of the applied transition.
+   */
+  async transitionTaskByName(taskKey: string, name: string, signal?: AbortSignal): Promise<string> {
+    const transitions = await this.getTransitions(taskKey, signal);
+    const wanted = name.trim().toLowerCase();
+    const transition = transitions.find(t => t.name?.toLowerCase() === wanted)
+      || transitions.find(t => t.to?.name?.toLowerCase() === wanted);
+
+    if (!transition) {
+      const available = transitions.map(t => (t.to?.name && t.to.name !== t.name ? `${t.name} (to ${t.to.name})` : t.name));
+      throw new Error(`Transition '${name}' is not available for ${taskKey}. Available: ${available.join(', ') || 'none'}`);
+    }
+
+    await this.updateTaskStatus(taskKey, transition.id, signal);
+    return transition.name;
+  }
+
+  /**
+   * Add comment to task; plain text is posted as a single paragraph
    */
-  async addComment(taskKey: string, comment: string): Promise<void> {
+  async addComment(taskKey: string, comment: string | AdfNode, signal?: AbortSignal): Promise<void> {
     try {
       await this.client.post(`/issue/${taskKey}/comment`, {
-        body: {
-          type: 'doc',
-          version: 1,
-          content: [
-            {
-              type: 'paragraph',
-              content: [
-                {
-                  type: 'text',
-                  text: comment
-                }
-              ]
-            }
-          ]
-        }
-      });
+        body: this.toRichText(comment)
+      }, { signal });
     } catch (error) {
       throw new Error(`Failed to add comment: ${error}`);
     }
   }
 
+  /**
+   * Rich text body in the format of the configured API version: an ADF document for v3, wiki markup for v2
+   */
+  private toRichText(text: string | AdfNode): AdfNode | string {
+    if (this.markup === 'wiki') {
+      return typeof text === 'string' ? text : adfToWikiMarkup(text);
+    }
+    return typeof text === 'string' ? adfDoc(adfParagraph(text)) : text;
+  }
+
   /**
    * Get available transitions for a task
    */
-  async getTransitions(taskKey: string): Promise<any[]> {
+  async getTransitions(taskKey: string, signal?: AbortSignal): Promise<any[]> {
     try {
-      const response = await this.client.get(`/issue/${taskKey}/transitions`);
+      const response = await this.client.get(`/issue/${taskKey}/transitions`, { signal });
       return response.data.transitions;
     } catch (error) {
       throw new Error(`Failed to get transitions: ${error}`);
@@ -161,53 +206,39 @@ export class JiraMCPClient {
   }
 
   /**
-   * Extract Figma links from issue description and comments
+   * Download an attachment into the cache directory and return its local path
+   *
+   * Attachment ids are never reused for other content, so a cached file of the expected size is returned as is.
    */
-  private extractFigmaLinks(issue: any): string[] {
-    const figmaLinks: string[] = [];
-    const figmaRegex = /https:\/\/www\.figma\.com\/[^\s)]+/g;
-
-    // Check description
-    const description = issue.fields.description?.content?.[0]?.content?.[0]?.text || '';
-    const descriptionLinks = description.match(figmaRegex) || [];
-    figmaLinks.push(...descriptionLinks);
-
-    // Check comments
-    if (issue.fields.comment?.comments) {
-      for (const comment of issue.fields.comment.comments) {
-        const commentText = comment.body?.content?.[0]?.content?.[0]?.text || '';
-        const commentLinks = commentText.match(figmaRegex) || [];
-        figmaLinks.push(...commentLinks);
+  async downloadAttachment(attachment: JiraAttachment, cacheDir: string, signal?: AbortSignal): Promise<string> {
+    const safeName = attachment.filename.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^\.+/, '') || 'attachment';
+    const localPath = path.resolve(cacheDir, attachment.id, safeName);
+
+    try {
+      const stats = await fs.stat(localPath);
+      if (!attachment.size || stats.size === attachment.size) {
+        return localPath;
       }
+    } catch {
+      // Not cached yet
     }
 
-    // Remove duplicates
-    return [...new Set(figmaLinks)];
-  }
+    try {
+      const response = await this.client.get(attachment.url, {
+        responseType: 'arraybuffer',
+        signal
+      });
 
-  /**
-   * Extract acceptance criteria from issue description
-   */
-  private extractAcceptanceCriteria(issue: any): string[] {
-    const description = issue.fields.description?.content?.[0]?.content?.[0]?.text || '';
-    const criteria: string[] = [];
-
-    // Look for common acceptance criteria patterns
-    const patterns = [
-      /acceptance criteria:?\s*\n(.*?)(?:\n\n|\n(?=[A-Z])|$)/gis,
-      /given.*when.*then.*/gi,
-      /user can.*/gi,
-      /system should.*/gi
-    ];
-
-    for (const pattern of patterns) {
-      const matches = description.match(pattern);
-      if (matches) {
-        criteria.push(...matches);
-      }
-    }
+      // Write through a temporary file so an interrupted download never looks cached
+      await fs.mkdir(path.dirname(localPath), { recursive: true });
+      const tempPath = `${localPath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, Buffer.from(response.data));
+      await fs.rename(tempPath, localPath);
 
-    return [...new Set(criteria)];
+      return localPath;
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to download Jira attachment ${attachment.filename}: ${error}`), { cause: error });
+    }
   }
 
   /**
@@ -221,4 +252,14 @@ export class JiraMCPClient {
       return false;
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * REST API root; hosts without a scheme are Jira Cloud sites reached over HTTPS
+ */
+function getApiUrl(config: JiraMCPConfig): string {
+  const origin = /^https?:\/\//.test(config.host) ? config.host : `https://${config.host}`;
+  const basePath = (config.basePath || '').replace(/^\/*/, '/').replace(/\/+$/, '');
+
+  return `${origin.replace(/\/+$/, '')}${basePath === '/' ? '' : basePath}/rest/api/${config.apiVersion || '3'}`;
+}
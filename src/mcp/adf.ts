@@ -0,0 +1,264 @@
+/**
+ * Atlassian Document Format (ADF) node, as returned by Jira Cloud for rich text fields
+ */
+export interface AdfNode {
+  type: string;
+  version?: number;
+  text?: string;
+  attrs?: { [key: string]: any };
+  marks?: { type: string; attrs?: { [key: string]: any } }[];
+  content?: AdfNode[];
+}
+
+type AdfFormat = 'markdown' | 'text';
+
+const INLINE_TYPES = new Set(['text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'status', 'date', 'placeholder', 'inlineExtension']);
+
+/**
+ * Convert an ADF document to Markdown; plain strings (wiki markup or API v2 fields) are returned as they are
+ */
+export function adfToMarkdown(value: unknown): string {
+  return convert(value, 'markdown');
+}
+
+/**
+ * Convert an ADF document to plain text, keeping list items on separate lines and link targets visible
+ */
+export function adfToPlainText(value: unknown): string {
+  return convert(value, 'text');
+}
+
+function convert(value: unknown, format: AdfFormat): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!isNode(value)) {
+    return '';
+  }
+
+  return renderBlocks(value.type === 'doc' ? value.content || [] : [value], format)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function isNode(value: unknown): value is AdfNode {
+  return typeof value === 'object' && value !== null && typeof (value as AdfNode).type === 'string';
+}
+
+/**
+ * Render block nodes separated by blank lines; consecutive inline nodes are joined into one paragraph
+ */
+function renderBlocks(nodes: AdfNode[], format: AdfFormat): string {
+  const blocks: string[] = [];
+  let inline: AdfNode[] = [];
+
+  const flushInline = () => {
+    if (inline.length > 0) {
+      blocks.push(renderInline(inline, format));
+      inline = [];
+    }
+  };
+
+  for (const node of nodes) {
+    if (INLINE_TYPES.has(node.type)) {
+      inline.push(node);
+      continue;
+    }
+    flushInline();
+    blocks.push(renderBlock(node, format));
+  }
+  flushInline();
+
+  return blocks.filter(block => block.trim() !== '').join('\n\n');
+}
+
+function renderBlock(node: AdfNode, format: AdfFormat): string {
+  const children = node.content || [];
+  const markdown = format === 'markdown';
+
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(children, format);
+    case 'heading': {
+      const text = renderInline(children, format);
+      return markdown ? `${'#'.repeat(Math.min(Math.max(node.attrs?.level || 1, 1), 6))} ${text}` : text;
+    }
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+    case 'decisionList':
+      return renderList(node, format);
+    case 'codeBlock': {
+      const code = children.map(child => child.text || '').join('');
+      return markdown ? `\`\`\`${node.attrs?.language || ''}\n${code}\n\`\`\`` : code;
+    }
+    case 'blockquote':
+      return prefixLines(renderBlocks(children, format), markdown ? '> ' : '');
+    case 'panel': {
+      const label = node.attrs?.panelType ? `${capitalize(node.attrs.panelType as string)}: ` : '';
+      return prefixLines(`${label}${renderBlocks(children, format)}`, markdown ? '> ' : '');
+    }
+    case 'expand':
+    case 'nestedExpand': {
+      const title = node.attrs?.title ? (markdown ? `**${node.attrs.title}**` : node.attrs.title as string) : '';
+      return [title, renderBlocks(children, format)].filter(Boolean).join('\n\n');
+    }
+    case 'rule':
+      return markdown ? '---' : '';
+    case 'table':
+      return renderTable(node, format);
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return children.map(child => renderMedia(child, format)).join('\n');
+    case 'media':
+      return renderMedia(node, format);
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url || '';
+    default:
+      // Unknown or extension nodes: keep whatever text they contain
+      return renderBlocks(children, format);
+  }
+}
+
+/**
+ * Render a list; nested lists inside items are indented below the item text
+ */
+function renderList(node: AdfNode, format: AdfFormat): string {
+  const start = typeof node.attrs?.order === 'number' ? node.attrs.order : 1;
+
+  return (node.content || []).map((item, index) => {
+    let marker = '- ';
+    if (node.type === 'orderedList') {
+      marker = `${start + index}. `;
+    } else if (item.type === 'taskItem') {
+      marker = item.attrs?.state === 'DONE' ? '- [x] ' : '- [ ] ';
+    }
+
+    // Task and decision items hold inline content directly, list items hold blocks
+    const body = item.type === 'listItem' ? renderBlocks(item.content || [], format) : renderInline(item.content || [], format);
+    const [first = '', ...rest] = body.replace(/\n\n/g, '\n').split('\n');
+    const indent = ' '.repeat(marker.length);
+
+    return [`${marker}${first}`, ...rest.map(line => (line ? `${indent}${line}` : line))].join('\n');
+  }).join('\n');
+}
+
+function renderTable(node: AdfNode, format: AdfFormat): string {
+  const rows = (node.content || []).map(row => (row.content || []).map(cell =>
+    renderBlocks(cell.content || [], format).replace(/\n+/g, ' ').replace(/\|/g, '\\|')
+  ));
+  if (rows.length === 0) {
+    return '';
+  }
+
+  if (format === 'text') {
+    return rows.map(cells => cells.join(' | ')).join('\n');
+  }
+
+  // Markdown tables need a header row; Jira tables without header cells get an empty one
+  const hasHeader = (node.content?.[0].content || []).every(cell => cell.type === 'tableHeader');
+  const columns = Math.max(...rows.map(cells => cells.length));
+  const header = hasHeader ? rows[0] : new Array<string>(columns).fill('');
+  const body = hasHeader ? rows.slice(1) : rows;
+  const toRow = (cells: string[]) => `| ${[...cells, ...new Array<string>(columns - cells.length).fill('')].join(' | ')} |`;
+
+  return [toRow(header), toRow(new Array<string>(columns).fill('---')), ...body.map(toRow)].join('\n');
+}
+
+function renderMedia(node: AdfNode, format: AdfFormat): string {
+  if (node.type !== 'media') {
+    return '';
+  }
+  const name = (node.attrs?.alt || node.attrs?.id || 'attachment') as string;
+  return format === 'markdown' ? `![${name}](attachment:${node.attrs?.id || name})` : `[attachment: ${name}]`;
+}
+
+function renderInline(nodes: AdfNode[], format: AdfFormat): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return applyMarks(node.text || '', node.marks || [], format);
+      case 'hardBreak':
+        return '\n';
+      case 'mention':
+        return (node.attrs?.text || '@unknown') as string;
+      case 'emoji':
+        return (node.attrs?.text || node.attrs?.shortName || '') as string;
+      case 'inlineCard':
+        return (node.attrs?.url || '') as string;
+      case 'status':
+        return `[${node.attrs?.text || ''}]`;
+      case 'date':
+        return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+      default:
+        return node.text || renderInline(node.content || [], format);
+    }
+  }).join('');
+}
+
+function applyMarks(text: string, marks: NonNullable<AdfNode['marks']>, format: AdfFormat): string {
+  const link = marks.find(mark => mark.type === 'link')?.attrs?.href as string | undefined;
+
+  if (format === 'text') {
+    return link && link !== text ? `${text} (${link})` : text;
+  }
+
+  let result = text;
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'code':
+        result = `\`${result}\``;
+        break;
+      case 'strong':
+        result = `**${result}**`;
+        break;
+      case 'em':
+        result = `*${result}*`;
+        break;
+      case 'strike':
+        result = `~~${result}~~`;
+        break;
+    }
+  }
+
+  return link && link !== text ? `[${result}](${link})` : result;
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return prefix ? text.split('\n').map(line => `${prefix}${line}`.trimEnd()).join('\n') : text;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Build an ADF document, e.g. for comments posted to Jira Cloud
+ */
+export function adfDoc(...content: AdfNode[]): AdfNode {
+  return { type: 'doc', version: 1, content };
+}
+
+export function adfParagraph(...content: (AdfNode | string)[]): AdfNode {
+  return { type: 'paragraph', content: content.map(part => (typeof part === 'string' ? adfText(part) : part)) };
+}
+
+export function adfText(text: string, marks?: AdfNode['marks']): AdfNode {
+  return marks ? { type: 'text', text, marks } : { type: 'text', text };
+}
+
+export function adfLink(text: string, href: string): AdfNode {
+  return adfText(text, [{ type: 'link', attrs: { href } }]);
+}
+
+/**
+ * Bullet list with one paragraph per item
+ */
+export function adfBulletList(items: (AdfNode | string)[][]): AdfNode {
+  return {
+    type: 'bulletList',
+    content: items.map(item => ({ type: 'listItem', content: [adfParagraph(...item)] }))
+  };
+}
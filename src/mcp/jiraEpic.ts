@@ -0,0 +1,52 @@
+import { JiraEpicPlan, JiraEpicStory, JiraTask } from '../types';
+
+/**
+ * Plan the story workflows of an Epic from its child issues
+ *
+ * "Blocks" links between children become dependencies; links to issues outside the Epic are ignored,
+ * since those are either finished or not ours to schedule.
+ */
+export function buildEpicPlan(epic: JiraTask, children: JiraTask[]): JiraEpicPlan {
+  const keys = new Set(children.map(child => child.key));
+
+  const stories: JiraEpicStory[] = children.map(child => ({
+    key: child.key,
+    summary: child.summary,
+    dependsOn: [...new Set(child.blockedBy || [])].filter(key => keys.has(key) && key !== child.key),
+    issue: child
+  }));
+
+  return {
+    epicKey: epic.key,
+    summary: epic.summary,
+    figmaLinks: epic.figmaLinks || [],
+    stories,
+    ...groupByDependencies(stories)
+  };
+}
+
+/**
+ * Group stories into batches whose dependencies all lie in earlier batches, keeping the given order within a batch
+ *
+ * Stories that cannot be ordered because of a dependency cycle are collected in a final batch.
+ */
+function groupByDependencies(stories: JiraEpicStory[]): Pick<JiraEpicPlan, 'batches' | 'unordered'> {
+  const batches: string[][] = [];
+  const planned = new Set<string>();
+  let remaining = stories;
+
+  while (remaining.length > 0) {
+    const batch = remaining.filter(story => story.dependsOn.every(key => planned.has(key)));
+    if (batch.length === 0) {
+      const unordered = remaining.map(story => story.key);
+      batches.push(unordered);
+      return { batches, unordered };
+    }
+
+    batch.forEach(story => planned.add(story.key));
+    batches.push(batch.map(story => story.key));
+    remaining = remaining.filter(story => !planned.has(story.key));
+  }
+
+  return { batches, unordered: [] };
+}
@@ -0,0 +1,220 @@
+import { JiraAttachment, JiraComment, JiraTask } from '../types';
+import { adfToMarkdown } from './adf';
+import { wikiToMarkdown } from './wiki';
+
+// Rich text fields are ADF documents in REST API v3 and wiki markup strings in v2
+export type JiraMarkup = 'adf' | 'wiki';
+
+/**
+ * IDs of instance-specific custom fields (e.g. customfield_10016); they differ between Jira sites
+ */
+export interface JiraFieldMapping {
+  storyPoints?: string;
+  epicLink?: string;
+  sprint?: string;
+  acceptanceCriteria?: string;
+}
+
+// Fields every issue request asks for; custom fields from the mapping are added on top
+const STANDARD_FIELDS = [
+  'summary',
+  'description',
+  'status',
+  'assignee',
+  'priority',
+  'labels',
+  'components',
+  'issuetype',
+  'parent',
+  'comment',
+  'attachment',
+  'issuelinks'
+];
+
+/**
+ * Fields to request so that mapJiraIssue has everything it reads
+ */
+export function getIssueFields(fieldMapping: JiraFieldMapping = {}): string[] {
+  const customFields = Object.values(fieldMapping).filter((field): field is string => Boolean(field));
+  return [...new Set([...STANDARD_FIELDS, ...customFields])];
+}
+
+/**
+ * Convert an issue from the Jira REST API into a JiraTask
+ */
+export function mapJiraIssue(issue: any, fieldMapping: JiraFieldMapping = {}, markup: JiraMarkup = 'adf'): JiraTask {
+  const toMarkdown = markup === 'wiki' ? wikiToMarkdown : adfToMarkdown;
+  const fields = issue.fields || {};
+  const description = toMarkdown(fields.description);
+  const comments = getComments(fields, toMarkdown);
+
+  const task: JiraTask = {
+    id: issue.id,
+    key: issue.key,
+    summary: fields.summary,
+    description,
+    status: fields.status?.name,
+    assignee: fields.assignee?.displayName,
+    priority: fields.priority?.name || 'Medium',
+    labels: fields.labels || [],
+    components: fields.components?.map((c: any) => c.name) || [],
+    issueType: fields.issuetype?.name,
+    figmaLinks: extractFigmaLinks([description, ...comments.map(c => c.body)]),
+    acceptanceCriteria: [...new Set([
+      ...parseCriteriaField(toMarkdown(fieldMapping.acceptanceCriteria ? fields[fieldMapping.acceptanceCriteria] : undefined)),
+      ...extractAcceptanceCriteria(description)
+    ])],
+    comments,
+    attachments: getAttachments(fields),
+    blockedBy: getBlockingIssues(fields)
+  };
+
+  const storyPoints = fieldMapping.storyPoints ? fields[fieldMapping.storyPoints] : undefined;
+  if (typeof storyPoints === 'number') {
+    task.storyPoints = storyPoints;
+  }
+
+  // Company-managed projects link epics through a custom field, team-managed ones through the parent
+  const epicLink = fieldMapping.epicLink ? fields[fieldMapping.epicLink] : undefined;
+  const epicKey = typeof epicLink === 'string' ? epicLink : epicLink?.key;
+  if (epicKey) {
+    task.epicKey = epicKey;
+  } else if (fields.parent?.fields?.issuetype?.name === 'Epic') {
+    task.epicKey = fields.parent.key;
+  }
+
+  const sprint = fieldMapping.sprint ? getSprintName(fields[fieldMapping.sprint]) : undefined;
+  if (sprint) {
+    task.sprint = sprint;
+  }
+
+  return task;
+}
+
+/**
+ * Comments of an issue converted to Markdown
+ */
+function getComments(fields: any, toMarkdown: (value: unknown) => string): JiraComment[] {
+  return (fields.comment?.comments || []).map((comment: any): JiraComment => ({
+    author: comment.author?.displayName,
+    created: comment.created,
+    body: toMarkdown(comment.body)
+  }));
+}
+
+/**
+ * Attachment metadata of an issue; the files themselves are fetched with JiraMCPClient.downloadAttachment
+ */
+function getAttachments(fields: any): JiraAttachment[] {
+  return (fields.attachment || []).map((attachment: any): JiraAttachment => ({
+    id: String(attachment.id),
+    filename: attachment.filename,
+    mimeType: attachment.mimeType || 'application/octet-stream',
+    size: attachment.size || 0,
+    url: attachment.content,
+    author: attachment.author?.displayName,
+    created: attachment.created
+  }));
+}
+
+/**
+ * Keys of issues linked to this one as "is blocked by"
+ */
+function getBlockingIssues(fields: any): string[] {
+  return (fields.issuelinks || [])
+    .filter((link: any) => link.type?.name === 'Blocks' && link.inwardIssue?.key)
+    .map((link: any) => link.inwardIssue.key as string);
+}
+
+/**
+ * Name of the active sprint, or the latest one; Jira Cloud returns sprint objects,
+ * older Server versions serialized strings like "com.atlassian.greenhopper...[id=1,state=ACTIVE,name=Sprint 1,...]"
+ */
+function getSprintName(value: unknown): string | undefined {
+  const sprints = (Array.isArray(value) ? value : value ? [value] : []).map((sprint: any) => {
+    if (typeof sprint === 'string') {
+      return {
+        name: sprint.match(/[[,]name=([^,\]]*)/)?.[1],
+        state: sprint.match(/[[,]state=([^,\]]*)/)?.[1]
+      };
+    }
+    return { name: sprint?.name as string | undefined, state: sprint?.state as string | undefined };
+  }).filter(sprint => sprint.name);
+
+  const active = sprints.find(sprint => sprint.state?.toUpperCase() === 'ACTIVE');
+  return (active || sprints[sprints.length - 1])?.name;
+}
+
+/**
+ * Extract Figma links from Markdown texts (description and comments)
+ */
+function extractFigmaLinks(texts: string[]): string[] {
+  const figmaRegex = /https:\/\/(?:www\.)?figma\.com\/[^\s)\]>|]+/g;
+
+  const figmaLinks = texts
+    .flatMap(text => text.match(figmaRegex) || [])
+    .map(link => link.replace(/[.,;:!?]+$/, ''));
+
+  // Remove duplicates
+  return [...new Set(figmaLinks)];
+}
+
+/**
+ * Criteria from a dedicated custom field: list items, or every non-empty line when it is not a list
+ */
+function parseCriteriaField(text: string): string[] {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const items = lines
+    .map(line => line.match(/^(?:[-*+]|\d+\.)\s+(?:\[[ x]\]\s+)?(.*)$/)?.[1])
+    .filter((item): item is string => Boolean(item));
+
+  return items.length > 0 ? items : lines;
+}
+
+/**
+ * Extract acceptance criteria from issue description
+ *
+ * Items below an "Acceptance Criteria" heading or label become separate criteria;
+ * Given/When/Then and "user can" / "system should" sentences anywhere in the description are added.
+ */
+function extractAcceptanceCriteria(description: string): string[] {
+  const criteria: string[] = [];
+
+  const lines = description.split('\n');
+  const start = lines.findIndex(line => /acceptance criteria/i.test(line));
+  if (start !== -1) {
+    // The criteria may follow the label on the same line
+    const inline = lines[start].replace(/^.*acceptance criteria\W*/i, '').trim();
+    if (inline) {
+      criteria.push(inline);
+    }
+
+    let inList = false;
+    for (const line of lines.slice(start + 1)) {
+      const item = line.match(/^\s*(?:[-*+]|\d+\.)\s+(?:\[[ x]\]\s+)?(.*)$/);
+      if (item) {
+        inList = true;
+        criteria.push(item[1].trim());
+      } else if (/^#{1,6} /.test(line) || (inList && line.trim() === '')) {
+        break;
+      } else if (line.trim() !== '' && !inList) {
+        criteria.push(line.trim());
+      }
+    }
+  }
+
+  const patterns = [
+    /given.*when.*then.*/gi,
+    /user can.*/gi,
+    /system should.*/gi
+  ];
+
+  for (const pattern of patterns) {
+    const matches = description.match(pattern);
+    if (matches) {
+      criteria.push(...matches.map(match => match.trim()));
+    }
+  }
+
+  return [...new Set(criteria)].filter(Boolean);
+}
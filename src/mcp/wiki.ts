@@ -0,0 +1,206 @@
+import { AdfNode, adfToPlainText } from './adf';
+
+/**
+ * Convert Jira wiki markup, as returned by REST API v2 (Jira Server / Data Center), to Markdown
+ */
+export function wikiToMarkdown(value: unknown): string {
+  if (typeof value !== 'string') {
+    return '';
+  }
+
+  const output: string[] = [];
+  const lines = value.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // {code:lang} / {noformat} blocks are copied verbatim, also when they open and close on one line
+    const block = line.match(/^\s*\{(code|noformat)(?::([^}|]*))?[^}]*\}(.*)$/);
+    if (block) {
+      const [, macro, language = '', rest] = block;
+      const closing = new RegExp(`\\{${macro}\\}`);
+      const body: string[] = [];
+      let current = rest;
+      while (!closing.test(current) && i + 1 < lines.length) {
+        body.push(current);
+        current = lines[++i];
+      }
+      body.push(current.replace(closing, ''));
+      output.push(`\`\`\`${macro === 'code' ? language.trim() : ''}`, ...trimBlankLines(body), '```');
+      continue;
+    }
+
+    if (/^\s*\{quote\}/.test(line)) {
+      const body: string[] = [];
+      let current = line.replace(/^\s*\{quote\}/, '');
+      while (!/\{quote\}/.test(current) && i + 1 < lines.length) {
+        body.push(current);
+        current = lines[++i];
+      }
+      body.push(current.replace(/\{quote\}.*$/, ''));
+      output.push(...trimBlankLines(body).map(text => `> ${convertInline(text)}`.trimEnd()));
+      continue;
+    }
+
+    output.push(convertLine(line));
+  }
+
+  return addTableHeaders(output)
+    .join('\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function convertLine(line: string): string {
+  const heading = line.match(/^\s*h([1-6])\.\s+(.*)$/);
+  if (heading) {
+    return `${'#'.repeat(Number(heading[1]))} ${convertInline(heading[2])}`;
+  }
+
+  const quote = line.match(/^\s*bq\.\s+(.*)$/);
+  if (quote) {
+    return `> ${convertInline(quote[1])}`;
+  }
+
+  // "*", "#" and mixed markers like "#*" nest one level per character
+  const item = line.match(/^\s*([*#-]+)\s+(.*)$/);
+  if (item && !/^-{4,}$/.test(line.trim())) {
+    const markers = item[1];
+    const indent = '  '.repeat(markers.length - 1);
+    return `${indent}${markers.endsWith('#') ? '1.' : '-'} ${convertInline(item[2])}`;
+  }
+
+  if (/^\s*-{4,}\s*$/.test(line)) {
+    return '---';
+  }
+
+  if (/^\s*\|/.test(line)) {
+    // Links are converted first, their "|" would otherwise split cells
+    const row = line.trim().replace(/\[([^|\]]+)\|([^\]]+)\]/g, '[$1]($2)');
+    const separator = row.startsWith('||') ? '||' : '|';
+    const cells = row.slice(separator.length, row.endsWith(separator) ? -separator.length : undefined).split(separator);
+    return `| ${cells.map(cell => convertInline(cell.trim())).join(' | ')} |`;
+  }
+
+  return convertInline(line);
+}
+
+function convertInline(text: string): string {
+  return text
+    // Color and other formatting-only macros keep their text
+    .replace(/\{color(?::[^}]*)?\}/g, '')
+    .replace(/\{\{(.+?)\}\}/g, '`$1`')
+    .replace(/!([^!\s|]+)(?:\|[^!]*)?!/g, (_, name: string) => `![${name}](${/^https?:/.test(name) ? name : `attachment:${name}`})`)
+    .replace(/\[~([^\]]+)\]/g, '@$1')
+    .replace(/\[([^|\]]+)\|([^\]]+)\]/g, '[$1]($2)')
+    .replace(/\[((?:https?|mailto):[^\]]+)\]/g, '$1')
+    .replace(/(^|[\s(])\*(\S(?:.*?\S)?)\*(?=$|[\s).,;:!?])/g, '$1**$2**')
+    .replace(/(^|[\s(])_(\S(?:.*?\S)?)_(?=$|[\s).,;:!?])/g, '$1*$2*')
+    .replace(/(^|[\s(])-(\S(?:.*?\S)?)-(?=$|[\s).,;:!?])/g, '$1~~$2~~')
+    .replace(/\\\\/g, '\n');
+}
+
+/**
+ * Markdown tables need a separator row below the first row, which wiki tables use as header ("||") row
+ */
+function addTableHeaders(lines: string[]): string[] {
+  const result: string[] = [];
+
+  lines.forEach((line, index) => {
+    result.push(line);
+    const isTableRow = line.startsWith('| ');
+    const startsTable = isTableRow && !lines[index - 1]?.startsWith('| ');
+    if (startsTable) {
+      const columns = line.split(' | ').length;
+      result.push(`| ${new Array<string>(columns).fill('---').join(' | ')} |`);
+    }
+  });
+
+  return result;
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  const start = lines.findIndex(line => line.trim() !== '');
+  if (start === -1) {
+    return [];
+  }
+  const end = lines.length - [...lines].reverse().findIndex(line => line.trim() !== '');
+  return lines.slice(start, end);
+}
+
+/**
+ * Convert an ADF document to wiki markup, e.g. for comments posted through REST API v2
+ *
+ * Covers the nodes our comments are built from; anything else is written as plain text.
+ */
+export function adfToWikiMarkup(node: AdfNode): string {
+  return renderWikiBlocks(node.type === 'doc' ? node.content || [] : [node], 0)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function renderWikiBlocks(nodes: AdfNode[], depth: number): string {
+  return nodes.map(node => renderWikiBlock(node, depth)).filter(block => block.trim() !== '').join('\n\n');
+}
+
+function renderWikiBlock(node: AdfNode, depth: number): string {
+  const children = node.content || [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return renderWikiInline(children);
+    case 'heading':
+      return `h${Math.min(Math.max(node.attrs?.level || 1, 1), 6)}. ${renderWikiInline(children)}`;
+    case 'bulletList':
+    case 'orderedList': {
+      const marker = `${'*'.repeat(depth)}${node.type === 'orderedList' ? '#' : '*'}`;
+      return children.map(item => (item.content || []).map(child => (
+        child.type === 'bulletList' || child.type === 'orderedList'
+          ? renderWikiBlock(child, depth + 1)
+          : `${marker} ${renderWikiInline(child.content || [])}`
+      )).join('\n')).join('\n');
+    }
+    case 'codeBlock':
+      return `{code${node.attrs?.language ? `:${node.attrs.language}` : ''}}\n${children.map(child => child.text || '').join('')}\n{code}`;
+    case 'rule':
+      return '----';
+    default:
+      return adfToPlainText(node);
+  }
+}
+
+function renderWikiInline(nodes: AdfNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') {
+      return '\\\\\n';
+    }
+    if (node.type !== 'text') {
+      return adfToPlainText({ type: 'paragraph', content: [node] });
+    }
+
+    let text = node.text || '';
+    let link: string | undefined;
+    for (const mark of node.marks || []) {
+      switch (mark.type) {
+        case 'code':
+          text = `{{${text}}}`;
+          break;
+        case 'strong':
+          text = `*${text}*`;
+          break;
+        case 'em':
+          text = `_${text}_`;
+          break;
+        case 'strike':
+          text = `-${text}-`;
+          break;
+        case 'link':
+          link = mark.attrs?.href as string | undefined;
+          break;
+      }
+    }
+
+    return link ? `[${text}|${link}]` : text;
+  }).join('');
+}
@@ -0,0 +1,195 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FileType, FileWriteResult, GeneratedFile, OutputOptions, WorkflowStep, WriteStrategy } from '../types';
+import { createUnifiedDiff, diffLines, splitLines } from './diff';
+
+// Generated code was produced with the existing sources as input, so it replaces them by default;
+// configs are merged key by key and project docs are left alone
+const DEFAULT_STRATEGIES: Record<FileType, WriteStrategy> = {
+  [FileType.COMPONENT]: 'overwrite',
+  [FileType.STYLE]: 'overwrite',
+  [FileType.TEST]: 'overwrite',
+  [FileType.CONFIG]: 'merge',
+  [FileType.DOCUMENTATION]: 'skip'
+};
+
+/**
+ * Materializes generated files under an output root, resolving conflicts per file type
+ */
+export class OutputWriter {
+  private rootDir: string;
+  private dryRun: boolean;
+  private strategies: Record<FileType, WriteStrategy>;
+
+  constructor(options: OutputOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+    this.dryRun = options.dryRun ?? false;
+    this.strategies = { ...DEFAULT_STRATEGIES, ...options.strategies };
+  }
+
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  /**
+   * Write files (or only compute what would change in dry-run mode)
+   */
+  async write(files: GeneratedFile[]): Promise<FileWriteResult[]> {
+    const results: FileWriteResult[] = [];
+
+    for (const file of files) {
+      results.push(await this.writeFile(file));
+    }
+
+    return results;
+  }
+
+  private async writeFile(file: GeneratedFile): Promise<FileWriteResult> {
+    const absolutePath = this.resolvePath(file.path);
+    const existing = await this.readExisting(absolutePath);
+    const strategy = this.strategies[file.type];
+
+    let action: FileWriteResult['action'];
+    let content = file.content;
+    let conflict = false;
+
+    if (existing === undefined) {
+      action = 'create';
+    } else if (existing === file.content) {
+      action = 'unchanged';
+    } else {
+      conflict = true;
+      action = strategy;
+      if (strategy === 'merge') {
+        content = mergeContent(file.path, existing, file.content);
+        action = content === existing ? 'unchanged' : 'merge';
+      }
+    }
+
+    const changed = action === 'create' || action === 'overwrite' || action === 'merge';
+    const diff = changed
+      ? createUnifiedDiff(existing || '', content, existing === undefined ? '/dev/null' : `a/${file.path}`, `b/${file.path}`)
+      : undefined;
+
+    if (changed && !this.dryRun) {
+      try {
+        await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+        await fs.writeFile(absolutePath, content, 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to write ${file.path}: ${error}`);
+      }
+    }
+
+    return { path: file.path, type: file.type, action, conflict, dryRun: this.dryRun, diff };
+  }
+
+  private resolvePath(filePath: string): string {
+    const absolutePath = path.resolve(this.rootDir, filePath);
+    const relative = path.relative(this.rootDir, absolutePath);
+
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Refusing to write outside the output directory: ${filePath}`);
+    }
+
+    return absolutePath;
+  }
+
+  private async readExisting(absolutePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(absolutePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw new Error(`Failed to read existing file ${absolutePath}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Merge generated content into an existing file without losing existing content
+ *
+ * JSON objects are merged key by key with existing values winning. For other files lines
+ * only added by the generator are inserted, and lines that were changed are wrapped in
+ * git-style conflict markers for manual resolution.
+ */
+export function mergeContent(filePath: string, existing: string, generated: string): string {
+  if (filePath.endsWith('.json')) {
+    try {
+      return JSON.stringify(mergeJson(JSON.parse(existing), JSON.parse(generated)), null, 2) + '\n';
+    } catch {
+      // Not valid JSON on one side; fall back to a line merge
+    }
+  }
+
+  const merged: string[] = [];
+  const deleted: string[] = [];
+  const inserted: string[] = [];
+
+  const flush = () => {
+    if (deleted.length > 0 && inserted.length > 0) {
+      merged.push('<<<<<<< existing', ...deleted, '=======', ...inserted, '>>>>>>> generated');
+    } else {
+      merged.push(...deleted, ...inserted);
+    }
+    deleted.length = 0;
+    inserted.length = 0;
+  };
+
+  for (const operation of diffLines(splitLines(existing), splitLines(generated))) {
+    if (operation.type === 'equal') {
+      flush();
+      merged.push(operation.line);
+    } else {
+      (operation.type === 'delete' ? deleted : inserted).push(operation.line);
+    }
+  }
+  flush();
+
+  return merged.join('\n') + '\n';
+}
+
+function mergeJson(existing: any, generated: any): any {
+  if (Array.isArray(existing) && Array.isArray(generated)) {
+    const serialized = new Set(existing.map(item => JSON.stringify(item)));
+    return [...existing, ...generated.filter(item => !serialized.has(JSON.stringify(item)))];
+  }
+
+  if (isPlainObject(existing) && isPlainObject(generated)) {
+    const result = { ...existing };
+    for (const [key, value] of Object.entries(generated)) {
+      result[key] = key in existing ? mergeJson(existing[key], value) : value;
+    }
+    return result;
+  }
+
+  return existing;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect generated files from workflow step outputs; later steps replace files with the same path
+ */
+export function collectGeneratedFiles(steps: WorkflowStep[]): GeneratedFile[] {
+  const files = new Map<string, GeneratedFile>();
+
+  for (const step of steps) {
+    const output = step.output;
+    if (!output || !Array.isArray(output.files) || !Array.isArray(output.tests)) {
+      continue;
+    }
+
+    for (const file of [...output.files, ...output.tests] as GeneratedFile[]) {
+      files.set(file.path, file);
+    }
+  }
+
+  return [...files.values()];
+}
@@ -0,0 +1,117 @@
+export interface DiffOperation {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+// Above this many line pairs the LCS table gets too large; the file is treated as fully replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split text into lines, ignoring the empty element after a trailing newline
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  return lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(line => ({ type: 'delete' as const, line })),
+      ...newLines.map(line => ({ type: 'insert' as const, line }))
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Int32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      operations.push({ type: 'equal', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      // Deletions go first so a changed line reads as "-old" followed by "+new"
+      operations.push({ type: 'delete', line: oldLines[i] });
+      i++;
+    } else {
+      operations.push({ type: 'insert', line: newLines[j] });
+      j++;
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Render a unified diff (as produced by `diff -u`), or an empty string when the texts are equal
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = 3
+): string {
+  const operations = diffLines(splitLines(oldText), splitLines(newText));
+  if (operations.every(op => op.type === 'equal')) {
+    return '';
+  }
+
+  const hunks: string[] = [];
+  let index = 0;
+
+  while (index < operations.length) {
+    // Find the next change and extend the hunk while changes are within 2 * context lines of each other
+    while (index < operations.length && operations[index].type === 'equal') {
+      index++;
+    }
+    if (index === operations.length) {
+      break;
+    }
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    let equalRun = 0;
+    while (end < operations.length && equalRun <= context * 2) {
+      equalRun = operations[end].type === 'equal' ? equalRun + 1 : 0;
+      end++;
+    }
+    end = Math.min(operations.length, end - Math.max(0, equalRun - context));
+
+    const before = operations.slice(0, start);
+    const hunk = operations.slice(start, end);
+    const oldStart = before.filter(op => op.type !== 'insert').length;
+    const newStart = before.filter(op => op.type !== 'delete').length;
+    const oldCount = hunk.filter(op => op.type !== 'insert').length;
+    const newCount = hunk.filter(op => op.type !== 'delete').length;
+
+    hunks.push(
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`,
+      ...hunk.map(op => `${op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'}${op.line}`)
+    );
+    index = end;
+  }
+
+  return [`--- ${oldLabel}`, `+++ ${newLabel}`, ...hunks].join('\n') + '\n';
+}
@@ -0,0 +1,219 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import { FileType, GeneratedFile } from '../types';
+import { PREVIEW_RUNTIME } from './runtime';
+
+export interface PreviewBuilderOptions {
+  outputDir?: string;
+  fixtures?: { [componentName: string]: PreviewProps };
+}
+
+export type PreviewProps = { [key: string]: any };
+
+export interface PreviewRequest {
+  component: GeneratedFile;
+  files: GeneratedFile[];
+  framework?: string;
+  styling?: string;
+  props?: PreviewProps;
+}
+
+export interface PreviewPage {
+  componentName: string;
+  framework: string;
+  html: string;
+  warnings: string[];
+  filePath?: string;
+}
+
+/**
+ * Builds standalone, network-free HTML pages that render generated components in isolation
+ */
+export class PreviewBuilder {
+  private outputDir: string;
+  private fixtures: { [componentName: string]: PreviewProps };
+
+  constructor(options: PreviewBuilderOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'temp', 'preview');
+    this.fixtures = options.fixtures || {};
+  }
+
+  /**
+   * Build preview pages for every component in a generated file set
+   */
+  buildAll(files: GeneratedFile[], framework?: string, styling?: string): PreviewPage[] {
+    return files
+      .filter(f => f.type === FileType.COMPONENT && /\.(tsx|jsx|vue)$/.test(f.path))
+      .map(component => this.buildPage({ component, files, framework, styling }));
+  }
+
+  /**
+   * Build a preview page for a single component
+   */
+  buildPage(request: PreviewRequest): PreviewPage {
+    const componentName = this.getComponentName(request.component.path);
+    const framework = this.resolveFramework(request);
+    const props = request.props || this.fixtures[componentName] || {};
+    const warnings: string[] = [];
+
+    if (request.styling === 'Tailwind') {
+      warnings.push('Tailwind utility classes are not compiled in offline previews');
+    }
+
+    const styles = this.collectStyles(request.component, request.files, warnings);
+    const body = framework === 'Vue'
+      ? this.buildVueBody(request.component, props, styles)
+      : this.buildReactBody(request.component, request.files, componentName, props);
+
+    return {
+      componentName,
+      framework,
+      warnings,
+      html: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${this.escapeHtml(componentName)} preview</title>
+  <style>html, body { margin: 0; padding: 0; }</style>
+${styles.map(css => `  <style>\n${css}\n  </style>`).join('\n')}
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+    };
+  }
+
+  /**
+   * Write a preview page to the output directory, or the given one, and return its path
+   */
+  async writePage(page: PreviewPage, outputDir: string = this.outputDir): Promise<string> {
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const filePath = path.join(outputDir, `${page.componentName}.html`);
+    await fs.writeFile(filePath, page.html, 'utf-8');
+    page.filePath = filePath;
+
+    return filePath;
+  }
+
+  getOutputDir(): string {
+    return this.outputDir;
+  }
+
+  /**
+   * Transpile component sources and mount the component with the mini React runtime
+   */
+  private buildReactBody(
+    component: GeneratedFile,
+    files: GeneratedFile[],
+    componentName: string,
+    props: PreviewProps
+  ): string {
+    const sources = [component, ...files.filter(f =>
+      f.path !== component.path &&
+      /\.(tsx|ts|jsx|js)$/.test(f.path) &&
+      f.type !== FileType.TEST &&
+      f.type !== FileType.CONFIG
+    )];
+
+    const modules = sources.map(file => {
+      const { outputText } = ts.transpileModule(file.content, {
+        fileName: file.path,
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2019,
+          jsx: ts.JsxEmit.ReactJSX,
+          esModuleInterop: true
+        }
+      });
+
+      const source = outputText.replace(/<\/script/gi, '<\\/script');
+      return `__preview.define(${JSON.stringify(file.path)}, function (module, exports, require) {\n${source}\n});`;
+    });
+
+    return `<div id="root"></div>
+<script>${PREVIEW_RUNTIME}</script>
+<script>
+${modules.join('\n')}
+(function () {
+  try {
+    var exported = __preview.require(${JSON.stringify(component.path)});
+    var Component = exported.default || exported[${JSON.stringify(componentName)}] ||
+      Object.keys(exported).map(function (key) { return exported[key]; }).find(function (value) { return typeof value === 'function'; });
+    __preview.ReactDOM.createRoot(document.getElementById('root'))
+      .render(__preview.React.createElement(Component, ${this.toScriptJson(props)}));
+  } catch (error) {
+    window.__PREVIEW_ERROR__ = String(error && error.stack || error);
+    document.getElementById('root').setAttribute('data-preview-error', window.__PREVIEW_ERROR__);
+  }
+  window.__PREVIEW_READY__ = true;
+})();
+</script>`;
+  }
+
+  /**
+   * Render a Vue single-file component template statically with the given props
+   */
+  private buildVueBody(component: GeneratedFile, props: PreviewProps, styles: string[]): string {
+    const template = component.content.match(/<template>([\s\S]*)<\/template>/)?.[1] || '';
+    const componentStyle = component.content.match(/<style[^>]*>([\s\S]*?)<\/style>/)?.[1];
+
+    if (componentStyle) {
+      styles.push(componentStyle);
+    }
+
+    const markup = template
+      .replace(/<slot\s*\/>|<slot>[\s\S]*?<\/slot>/g, this.escapeHtml(String(props.children ?? '')))
+      .replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, expression: string) => {
+        const value = expression.split('.').reduce((current: any, key) => current?.[key], props);
+        return this.escapeHtml(value === undefined ? '' : String(value));
+      })
+      .replace(/\s(?:v-[\w:.-]+|[:@#][\w:.-]+)(?:="[^"]*")?/g, '');
+
+    return `<div id="root">${markup.trim()}</div>
+<script>window.__PREVIEW_READY__ = true;</script>`;
+  }
+
+  /**
+   * Collect stylesheets that live next to the component
+   */
+  private collectStyles(component: GeneratedFile, files: GeneratedFile[], warnings: string[]): string[] {
+    const directory = path.dirname(component.path);
+
+    return files
+      .filter(f => f.type === FileType.STYLE && path.dirname(f.path) === directory && /\.(css|scss|less)$/.test(f.path))
+      .map(f => {
+        if (!f.path.endsWith('.css')) {
+          warnings.push(`${path.basename(f.path)} is included without preprocessing`);
+        }
+        return f.content;
+      });
+  }
+
+  private resolveFramework(request: PreviewRequest): string {
+    if (request.component.path.endsWith('.vue') || request.framework?.toLowerCase() === 'vue') {
+      return 'Vue';
+    }
+
+    return 'React';
+  }
+
+  private getComponentName(filePath: string): string {
+    return path.basename(filePath).replace(/\.[^.]+$/, '');
+  }
+
+  private toScriptJson(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, '\\u003c');
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
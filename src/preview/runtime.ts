@@ -0,0 +1,322 @@
+/**
+ * Minimal in-page runtime used by preview pages.
+ *
+ * Generated components are rendered without network access, so instead of loading React
+ * from a CDN the page ships a small React-compatible renderer (createElement, JSX runtime,
+ * basic hooks and ReactDOM roots), a styled-components shim and a CommonJS module loader
+ * for the transpiled component sources.
+ *
+ * Supported subset:
+ * - function components, forwardRef and memo
+ * - useState, useReducer, useRef, useMemo, useCallback and useId
+ * - useEffect and useLayoutEffect, run once after the first render and never cleaned up
+ * - createContext and useContext, with one value per context rather than per Provider subtree
+ * - Children.toArray and Children.map
+ * - createRoot and render from react-dom, and styled.tag template literals
+ *
+ * Every other React or ReactDOM API throws, so the page reports a render error instead of
+ * a screenshot that silently differs from the real component.
+ */
+export const PREVIEW_RUNTIME = `
+(function () {
+  var hooks = [];
+  var hookIndex = 0;
+  var effects = [];
+  var roots = [];
+  var mounted = false;
+
+  function normalizeChildren(children) {
+    return children.length === 0 ? undefined : children.length === 1 ? children[0] : children;
+  }
+
+  function createElement(type, props) {
+    var children = Array.prototype.slice.call(arguments, 2);
+    var nextProps = Object.assign({}, props);
+    if (children.length > 0) {
+      nextProps.children = normalizeChildren(children);
+    }
+    return { type: type, props: nextProps };
+  }
+
+  function jsx(type, props) {
+    return { type: type, props: props || {} };
+  }
+
+  function Fragment(props) {
+    return props.children;
+  }
+
+  function setProperty(el, key, value) {
+    if (key === 'children' || key === 'key' || key === 'ref' || value === undefined || value === null || value === false) {
+      return;
+    }
+    if (key === 'className') {
+      el.setAttribute('class', value);
+    } else if (key === 'htmlFor') {
+      el.setAttribute('for', value);
+    } else if (key === 'style' && typeof value === 'object') {
+      Object.keys(value).forEach(function (name) {
+        var cssValue = typeof value[name] === 'number' && !/^(opacity|zIndex|fontWeight|flex|lineHeight)$/.test(name)
+          ? value[name] + 'px'
+          : value[name];
+        el.style[name] = cssValue;
+      });
+    } else if (/^on[A-Z]/.test(key) && typeof value === 'function') {
+      el.addEventListener(key.slice(2).toLowerCase(), value);
+    } else if (key === 'dangerouslySetInnerHTML') {
+      el.innerHTML = value.__html;
+    } else if (value === true) {
+      el.setAttribute(key, '');
+    } else if (typeof value !== 'function' && typeof value !== 'object') {
+      el.setAttribute(key, String(value));
+    }
+  }
+
+  function toDom(node) {
+    if (node === null || node === undefined || node === true || node === false) {
+      return document.createTextNode('');
+    }
+    if (Array.isArray(node)) {
+      var fragment = document.createDocumentFragment();
+      node.forEach(function (child) { fragment.appendChild(toDom(child)); });
+      return fragment;
+    }
+    if (typeof node !== 'object') {
+      return document.createTextNode(String(node));
+    }
+    if (typeof node.type === 'function') {
+      return toDom(node.type(node.props || {}, node.props && node.props.ref));
+    }
+
+    var props = node.props || {};
+    var el = document.createElement(node.type);
+    Object.keys(props).forEach(function (key) { setProperty(el, key, props[key]); });
+    if (props.ref && typeof props.ref === 'object') {
+      props.ref.current = el;
+    } else if (typeof props.ref === 'function') {
+      props.ref(el);
+    }
+    if (!props.dangerouslySetInnerHTML) {
+      el.appendChild(toDom(props.children));
+    }
+    return el;
+  }
+
+  function renderRoots() {
+    hookIndex = 0;
+    effects = [];
+    roots.forEach(function (root) {
+      root.container.innerHTML = '';
+      root.container.appendChild(toDom(root.element));
+    });
+    if (!mounted) {
+      mounted = true;
+      effects.forEach(function (effect) { effect(); });
+    }
+  }
+
+  function useState(initial) {
+    var index = hookIndex++;
+    if (!(index in hooks)) {
+      hooks[index] = typeof initial === 'function' ? initial() : initial;
+    }
+    return [hooks[index], function (value) {
+      hooks[index] = typeof value === 'function' ? value(hooks[index]) : value;
+      renderRoots();
+    }];
+  }
+
+  function useReducer(reducer, initial) {
+    var state = useState(initial);
+    return [state[0], function (action) { state[1](function (current) { return reducer(current, action); }); }];
+  }
+
+  function useRef(initial) {
+    var index = hookIndex++;
+    if (!(index in hooks)) {
+      hooks[index] = { current: initial === undefined ? null : initial };
+    }
+    return hooks[index];
+  }
+
+  function useMemo(factory) {
+    var index = hookIndex++;
+    if (!(index in hooks)) {
+      hooks[index] = factory();
+    }
+    return hooks[index];
+  }
+
+  function useCallback(callback) {
+    return callback;
+  }
+
+  function useEffect(effect) {
+    effects.push(effect);
+  }
+
+  function createContext(defaultValue) {
+    var context = { value: defaultValue };
+    context.Provider = function (props) {
+      context.value = props.value;
+      return props.children;
+    };
+    context.Consumer = function (props) {
+      return props.children(context.value);
+    };
+    return context;
+  }
+
+  function useContext(context) {
+    return context.value;
+  }
+
+  var React = {
+    createElement: createElement,
+    Fragment: Fragment,
+    useState: useState,
+    useReducer: useReducer,
+    useRef: useRef,
+    useMemo: useMemo,
+    useCallback: useCallback,
+    useEffect: useEffect,
+    useLayoutEffect: useEffect,
+    useId: function () { return 'preview-id-' + (hookIndex++); },
+    createContext: createContext,
+    useContext: useContext,
+    forwardRef: function (render) { return function (props) { return render(props, props.ref); }; },
+    memo: function (component) { return component; },
+    Children: {
+      toArray: function (children) { return [].concat(children === undefined ? [] : children); },
+      map: function (children, fn) { return [].concat(children === undefined ? [] : children).map(fn); }
+    }
+  };
+
+  var ReactDOM = {
+    createRoot: function (container) {
+      return {
+        render: function (element) {
+          roots.push({ container: container, element: element });
+          renderRoots();
+        }
+      };
+    },
+    render: function (element, container) {
+      ReactDOM.createRoot(container).render(element);
+    }
+  };
+
+  function unsupported(name) {
+    return function () {
+      throw new Error(name + ' is not supported by the preview runtime');
+    };
+  }
+
+  // Known APIs get throwing stubs as own properties, which esModuleInterop copies into namespace imports
+  function strict(name, api, unsupportedKeys) {
+    unsupportedKeys.forEach(function (key) { api[key] = unsupported(name + '.' + key); });
+    return new Proxy(api, {
+      get: function (target, key) {
+        if (key in target || typeof key !== 'string' || /^(__esModule|default|then|toJSON|\\$\\$typeof)$/.test(key)) {
+          return target[key];
+        }
+        throw new Error(name + '.' + key + ' is not supported by the preview runtime');
+      }
+    });
+  }
+
+  React.Children = strict('React.Children', React.Children, ['count', 'forEach', 'only']);
+  React = strict('React', React, [
+    'Component', 'PureComponent', 'Suspense', 'lazy', 'cloneElement', 'createRef', 'isValidElement',
+    'startTransition', 'useTransition', 'useDeferredValue', 'useImperativeHandle', 'useSyncExternalStore',
+    'useInsertionEffect', 'useDebugValue'
+  ]);
+  ReactDOM = strict('ReactDOM', ReactDOM, ['createPortal', 'hydrateRoot', 'flushSync', 'findDOMNode']);
+
+  var styledCounter = 0;
+
+  function createStyled(tag) {
+    return function (strings) {
+      var interpolations = Array.prototype.slice.call(arguments, 1);
+      return function StyledComponent(props) {
+        var className = 'sc-' + (++styledCounter);
+        var css = strings.reduce(function (result, part, index) {
+          var value = interpolations[index - 1];
+          return result + (typeof value === 'function' ? value(props) : value === undefined ? '' : value) + part;
+        });
+        var style = document.createElement('style');
+        style.textContent = '.' + className + '{' + css + '}';
+        document.head.appendChild(style);
+        return createElement(tag, Object.assign({}, props, {
+          className: [className, props.className].filter(Boolean).join(' ')
+        }));
+      };
+    };
+  }
+
+  var styled = new Proxy(function (component) { return createStyled(component); }, {
+    get: function (_target, tag) { return createStyled(tag); }
+  });
+  styled.default = styled;
+
+  var builtinModules = {
+    'react': React,
+    'react/jsx-runtime': { jsx: jsx, jsxs: jsx, Fragment: Fragment },
+    'react/jsx-dev-runtime': { jsxDEV: jsx, Fragment: Fragment },
+    'react-dom': ReactDOM,
+    'react-dom/client': ReactDOM,
+    'styled-components': styled
+  };
+
+  var modules = {};
+  var cache = {};
+
+  function resolve(from, request) {
+    if (request.charAt(0) !== '.') {
+      return request;
+    }
+    var parts = from.split('/').slice(0, -1).concat(request.split('/'));
+    var stack = [];
+    parts.forEach(function (part) {
+      if (part === '..') { stack.pop(); } else if (part !== '.' && part !== '') { stack.push(part); }
+    });
+    var base = stack.join('/');
+    var candidates = [base, base + '.tsx', base + '.ts', base + '.jsx', base + '.js', base + '/index.tsx', base + '/index.ts'];
+    for (var i = 0; i < candidates.length; i++) {
+      if (modules[candidates[i]]) {
+        return candidates[i];
+      }
+    }
+    return base;
+  }
+
+  function requireModule(from, request) {
+    var id = resolve(from, request);
+    if (builtinModules[id]) {
+      return builtinModules[id];
+    }
+    if (/\\.module\\.(css|scss|less)$/.test(id)) {
+      return new Proxy({}, { get: function (_target, key) { return key; } });
+    }
+    if (/\\.(css|scss|less|svg|png|jpe?g|gif)$/.test(id)) {
+      return {};
+    }
+    if (!modules[id]) {
+      throw new Error('Module not available in preview: ' + request + ' (from ' + from + ')');
+    }
+    if (!cache[id]) {
+      var module = { exports: {} };
+      cache[id] = module;
+      modules[id](module, module.exports, function (next) { return requireModule(id, next); });
+    }
+    return cache[id].exports;
+  }
+
+  window.__preview = {
+    React: React,
+    ReactDOM: ReactDOM,
+    define: function (id, factory) { modules[id] = factory; },
+    require: function (id) { return requireModule('', id); }
+  };
+})();
+`;
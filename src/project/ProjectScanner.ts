@@ -0,0 +1,316 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import { ProjectContext } from '../types';
+
+export interface ProjectScannerOptions {
+  maxFiles?: number;
+  maxComponents?: number;
+  maxSampleChars?: number;
+}
+
+const DEFAULT_MAX_SAMPLE_CHARS = 4000;
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage', '.git', '.next', '.nuxt', 'storybook-static']);
+
+const COMPONENT_FILE = /\.(tsx|jsx|vue)$/;
+
+const NON_COMPONENT_FILE = /\.(test|spec|stories|story)\.[jt]sx?$|\.d\.ts$/;
+
+const LINT_CONFIG_FILE = /^(\.eslintrc(\.\w+)?|eslint\.config\.[cm]?[jt]s|\.prettierrc(\.\w+)?|prettier\.config\.[cm]?js|\.stylelintrc(\.\w+)?|biome\.json)$/;
+
+const UI_LIBRARIES = [
+  '@mui/material', 'antd', '@chakra-ui/react', '@mantine/core', 'react-bootstrap', '@headlessui/react',
+  '@radix-ui/react-', 'vuetify', 'element-plus', 'primevue', 'quasar', '@angular/material'
+];
+
+// First match wins, so more specific styling systems come before plain preprocessors
+const STYLING_PACKAGES: Array<[string, string]> = [
+  ['tailwindcss', 'Tailwind'],
+  ['@mui/material', 'Material-UI'],
+  ['styled-components', 'Styled-Components'],
+  ['@emotion/styled', 'Styled-Components'],
+  ['sass', 'SCSS'],
+  ['node-sass', 'SCSS']
+];
+
+/**
+ * Reads a local frontend project and condenses its conventions into a ProjectContext
+ */
+export class ProjectScanner {
+  private maxFiles: number;
+  private maxComponents: number;
+  private maxSampleChars: number;
+
+  constructor(options: ProjectScannerOptions = {}) {
+    this.maxFiles = options.maxFiles || 2000;
+    this.maxComponents = options.maxComponents || 100;
+    this.maxSampleChars = options.maxSampleChars || DEFAULT_MAX_SAMPLE_CHARS;
+  }
+
+  /**
+   * Scan a project root: package.json, tsconfig, lint/format config and existing components
+   */
+  async scan(rootDir: string): Promise<ProjectContext> {
+    const root = path.resolve(rootDir);
+    const packageJson = await this.readPackageJson(root);
+    const dependencies = Object.keys({ ...packageJson.dependencies, ...packageJson.devDependencies }).sort();
+    const has = (name: string) => dependencies.some(dep => name.endsWith('-') ? dep.startsWith(name) : dep === name);
+
+    const tsconfig = await this.readJsonc(path.join(root, 'tsconfig.json'));
+    const componentFiles = await this.findComponentFiles(root);
+    const components = componentFiles.slice(0, this.maxComponents).map(file => ({
+      name: this.getComponentName(file),
+      path: file
+    }));
+
+    return {
+      rootDir: root,
+      name: packageJson.name,
+      language: tsconfig || has('typescript') ? 'TypeScript' : 'JavaScript',
+      framework: this.detectFramework(has),
+      styling: STYLING_PACKAGES.find(([name]) => has(name))?.[1] || (componentFiles.length > 0 ? 'CSS' : undefined),
+      uiLibraries: UI_LIBRARIES.filter(has).map(name => name.endsWith('-') ? `${name}*` : name),
+      testFramework: ['vitest', 'jest', 'mocha'].find(has),
+      dependencies,
+      importAliases: this.getImportAliases(tsconfig),
+      componentDir: this.detectComponentDir(componentFiles),
+      fileNaming: this.detectFileNaming(componentFiles),
+      components,
+      lintConfigs: await this.findLintConfigs(root, packageJson),
+      formatting: await this.readFormatting(root, packageJson),
+      sampleComponent: await this.pickSampleComponent(root, componentFiles)
+    };
+  }
+
+  private async readPackageJson(root: string): Promise<any> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(root, 'package.json'), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new Error(`Failed to read package.json in ${root}: ${error}`);
+    }
+  }
+
+  /**
+   * Parse JSON with comments and trailing commas (tsconfig, .eslintrc, .prettierrc)
+   */
+  private async readJsonc(filePath: string): Promise<any> {
+    let text: string;
+    try {
+      text = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+
+    const { config, error } = ts.parseConfigFileTextToJson(filePath, text);
+    return error ? undefined : config;
+  }
+
+  private detectFramework(has: (name: string) => boolean): string | undefined {
+    if (has('@angular/core')) {
+      return 'Angular';
+    }
+    if (has('vue') || has('nuxt')) {
+      return 'Vue';
+    }
+    if (has('react') || has('next')) {
+      return 'React';
+    }
+    return undefined;
+  }
+
+  /**
+   * Map tsconfig "paths" aliases to directories relative to the project root
+   */
+  private getImportAliases(tsconfig: any): { [alias: string]: string } {
+    const baseUrl: string = tsconfig?.compilerOptions?.baseUrl || '.';
+    const paths: { [alias: string]: string[] } = tsconfig?.compilerOptions?.paths || {};
+
+    return Object.fromEntries(
+      Object.entries(paths)
+        .filter(([, targets]) => targets.length > 0)
+        .map(([alias, targets]) => [alias, path.posix.normalize(path.posix.join(baseUrl, targets[0]))])
+    );
+  }
+
+  /**
+   * Collect component files below src/ (or the root), skipping build output and tests
+   */
+  private async findComponentFiles(root: string): Promise<string[]> {
+    const srcDir = path.join(root, 'src');
+    const start = await fs.stat(srcDir).then(stat => stat.isDirectory()).catch(() => false) ? srcDir : root;
+
+    const files: string[] = [];
+    const queue = [start];
+    let visited = 0;
+
+    while (queue.length > 0 && visited < this.maxFiles) {
+      const dir = queue.shift()!;
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        visited++;
+        const fullPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+            queue.push(fullPath);
+          }
+        } else if (COMPONENT_FILE.test(entry.name) && !NON_COMPONENT_FILE.test(entry.name)) {
+          files.push(path.relative(root, fullPath).split(path.sep).join('/'));
+        }
+      }
+    }
+
+    return files.sort();
+  }
+
+  private getComponentName(file: string): string {
+    const parts = file.split('/');
+    const base = parts[parts.length - 1].replace(COMPONENT_FILE, '');
+    const name = base === 'index' && parts.length > 1 ? parts[parts.length - 2] : base;
+
+    return name
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+  }
+
+  /**
+   * The most common directory named "components" (e.g. src/components)
+   */
+  private detectComponentDir(files: string[]): string | undefined {
+    const counts = new Map<string, number>();
+
+    for (const file of files) {
+      const parts = file.split('/');
+      const index = parts.lastIndexOf('components', parts.length - 2);
+      if (index !== -1) {
+        const dir = parts.slice(0, index + 1).join('/');
+        counts.set(dir, (counts.get(dir) || 0) + 1);
+      }
+    }
+
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  }
+
+  private detectFileNaming(files: string[]): ProjectContext['fileNaming'] {
+    const counts = { 'PascalCase': 0, 'kebab-case': 0, 'camelCase': 0 };
+
+    for (const file of files) {
+      const base = file.split('/').pop()!.replace(COMPONENT_FILE, '');
+      if (/^[A-Z][A-Za-z0-9]*$/.test(base)) {
+        counts['PascalCase']++;
+      } else if (/^[a-z0-9]+(-[a-z0-9]+)+$/.test(base)) {
+        counts['kebab-case']++;
+      } else if (/^[a-z][a-z0-9]*[A-Z][A-Za-z0-9]*$/.test(base)) {
+        counts['camelCase']++;
+      }
+    }
+
+    const [naming, count] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+    return count > 0 ? naming as ProjectContext['fileNaming'] : undefined;
+  }
+
+  private async findLintConfigs(root: string, packageJson: any): Promise<string[]> {
+    const entries = await fs.readdir(root);
+    const configs = entries.filter(entry => LINT_CONFIG_FILE.test(entry)).sort();
+
+    if (packageJson.eslintConfig) {
+      configs.push('package.json#eslintConfig');
+    }
+    if (packageJson.prettier) {
+      configs.push('package.json#prettier');
+    }
+
+    return configs;
+  }
+
+  private async readFormatting(root: string, packageJson: any): Promise<ProjectContext['formatting']> {
+    const config = typeof packageJson.prettier === 'object'
+      ? packageJson.prettier
+      : await this.readJsonc(path.join(root, '.prettierrc')) || await this.readJsonc(path.join(root, '.prettierrc.json'));
+
+    if (!config) {
+      return undefined;
+    }
+
+    return {
+      semi: typeof config.semi === 'boolean' ? config.semi : undefined,
+      singleQuote: typeof config.singleQuote === 'boolean' ? config.singleQuote : undefined,
+      tabWidth: typeof config.tabWidth === 'number' ? config.tabWidth : undefined
+    };
+  }
+
+  /**
+   * Pick a typical component (median size) as a style example for the model
+   */
+  private async pickSampleComponent(root: string, files: string[]): Promise<ProjectContext['sampleComponent']> {
+    const candidates = files.filter(file => file.split('/').includes('components')).slice(0, 50);
+    const pool = candidates.length > 0 ? candidates : files.slice(0, 50);
+    if (pool.length === 0) {
+      return undefined;
+    }
+
+    const sized = await Promise.all(pool.map(async file => ({ file, size: (await fs.stat(path.join(root, file))).size })));
+    const { file } = sized.sort((a, b) => a.size - b.size)[Math.floor(sized.length / 2)];
+
+    return {
+      path: file,
+      content: truncate(await fs.readFile(path.join(root, file), 'utf-8'), this.maxSampleChars)
+    };
+  }
+}
+
+/**
+ * Read the source of an existing project component by name, if the project has one
+ */
+export async function readProjectComponent(
+  context: ProjectContext,
+  componentName: string,
+  maxChars: number = DEFAULT_MAX_SAMPLE_CHARS
+): Promise<string | undefined> {
+  const component = context.components.find(c => c.name === componentName);
+  if (!component) {
+    return undefined;
+  }
+
+  return truncate(await fs.readFile(path.join(context.rootDir, component.path), 'utf-8'), maxChars);
+}
+
+/**
+ * Condense a project context into prompt text; the sample component is only included on request
+ */
+export function describeProjectContext(context: ProjectContext, options: { includeSample?: boolean } = {}): string {
+  const formatting = context.formatting
+    ? [
+      context.formatting.singleQuote !== undefined && (context.formatting.singleQuote ? 'single quotes' : 'double quotes'),
+      context.formatting.semi !== undefined && (context.formatting.semi ? 'semicolons' : 'no semicolons'),
+      context.formatting.tabWidth !== undefined && `indent ${context.formatting.tabWidth}`
+    ].filter(Boolean).join(', ')
+    : '';
+
+  const lines = [
+    `Project: ${context.name || path.basename(context.rootDir)} (${[context.language, context.framework, context.styling].filter(Boolean).join(', ')})`,
+    context.uiLibraries.length > 0 && `UI libraries: ${context.uiLibraries.join(', ')} (prefer them over custom markup)`,
+    Object.keys(context.importAliases).length > 0 && `Import aliases: ${Object.entries(context.importAliases).map(([alias, target]) => `${alias} -> ${target}`).join(', ')}`,
+    context.componentDir && `Components directory: ${context.componentDir}${context.fileNaming ? ` (${context.fileNaming} file names)` : ''}`,
+    context.components.length > 0 && `Existing components (reuse instead of recreating): ${context.components.map(c => c.name).join(', ')}`,
+    context.testFramework && `Tests: ${context.testFramework}`,
+    context.lintConfigs.length > 0 && `Lint/format config: ${context.lintConfigs.join(', ')}${formatting ? ` (${formatting})` : ''}`
+  ].filter(Boolean) as string[];
+
+  if (options.includeSample && context.sampleComponent) {
+    lines.push(`Example component (${context.sampleComponent.path}):`, context.sampleComponent.content);
+  }
+
+  return lines.join('\n');
+}
+
+function truncate(content: string, maxChars: number): string {
+  return content.length > maxChars ? `${content.slice(0, maxChars)}\n// ... truncated` : content;
+}
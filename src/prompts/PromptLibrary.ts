@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PromptTemplate, RenderedPrompt, parsePromptTemplate, renderPromptTemplate } from './PromptTemplate';
+import figmaImplementationGuidance from './templates/figma-implementation-guidance.json';
+import jiraAnalysis from './templates/jira-analysis.json';
+import promptAnalysis from './templates/prompt-analysis.json';
+import qaDesignComparison from './templates/qa-design-comparison.json';
+
+/**
+ * Resolves versioned prompt templates from built-ins and a project override directory
+ *
+ * Without an explicit version the most recently registered template of a name wins,
+ * so templates from the override directory replace the built-ins.
+ */
+export class PromptLibrary {
+  private templates: Map<string, PromptTemplate[]>;
+  private templatesDir?: string;
+  private customLoaded: boolean = false;
+
+  constructor(templatesDir?: string) {
+    this.templatesDir = templatesDir || process.env.PROMPT_TEMPLATES_DIR;
+    this.templates = new Map();
+
+    for (const raw of [promptAnalysis, jiraAnalysis, figmaImplementationGuidance, qaDesignComparison]) {
+      this.register(parsePromptTemplate(raw, `built-in prompt template '${raw.name}'`));
+    }
+  }
+
+  /**
+   * Register a validated template; an existing template with the same name and version is replaced
+   */
+  register(template: PromptTemplate): void {
+    const versions = (this.templates.get(template.name) || []).filter(t => t.version !== template.version);
+    this.templates.set(template.name, [...versions, template]);
+  }
+
+  /**
+   * Get a template by name, optionally pinned to a version
+   */
+  async get(name: string, version?: string): Promise<PromptTemplate> {
+    await this.loadCustomTemplates();
+
+    const versions = this.templates.get(name);
+    if (!versions) {
+      throw new Error(`Unknown prompt template: ${name}. Available: ${[...this.templates.keys()].join(', ')}`);
+    }
+
+    if (!version) {
+      return versions[versions.length - 1];
+    }
+
+    const template = versions.find(t => t.version === version);
+    if (!template) {
+      throw new Error(`Unknown version ${version} of prompt template ${name}. Available: ${versions.map(t => t.version).join(', ')}`);
+    }
+
+    return template;
+  }
+
+  /**
+   * Render a template with the given variables
+   */
+  async render(name: string, variables: Record<string, unknown>, version?: string): Promise<RenderedPrompt> {
+    return renderPromptTemplate(await this.get(name, version), variables);
+  }
+
+  /**
+   * List the active "name@version" of every template
+   */
+  async list(): Promise<string[]> {
+    await this.loadCustomTemplates();
+    return [...this.templates.values()].map(versions => {
+      const template = versions[versions.length - 1];
+      return `${template.name}@${template.version}`;
+    });
+  }
+
+  /**
+   * Load every *.json template from the override directory once
+   */
+  private async loadCustomTemplates(): Promise<void> {
+    if (this.customLoaded || !this.templatesDir) {
+      return;
+    }
+    this.customLoaded = true;
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.templatesDir);
+    } catch (error) {
+      throw new Error(`Failed to read prompt templates directory ${this.templatesDir}: ${error}`);
+    }
+
+    for (const entry of entries.filter(e => e.endsWith('.json')).sort()) {
+      const filePath = path.join(this.templatesDir, entry);
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch (error) {
+        throw new Error(`Failed to read prompt template ${filePath}: ${error}`);
+      }
+
+      this.register(parsePromptTemplate(raw, `prompt template ${filePath}`));
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// Long prompts may be written as an array of lines
+const promptText = z.union([z.string(), z.array(z.string()).transform(lines => lines.join('\n'))]);
+
+export const PromptTemplateSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, 'Template name may only contain letters, digits, "_" and "-"'),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  system: promptText,
+  user: promptText
+});
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  template: string; // "name@version"
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Validate a raw prompt template, throwing a readable error on failure
+ */
+export function parsePromptTemplate(raw: unknown, source: string = 'prompt template'): PromptTemplate {
+  const result = PromptTemplateSchema.safeParse(raw);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid ${source}:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Names of the variables referenced by a template
+ */
+export function getTemplateVariables(template: PromptTemplate): string[] {
+  const names = [...`${template.system}\n${template.user}`.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Substitute "{{variable}}" placeholders; dotted names read nested values
+ *
+ * Every referenced variable must be provided, so a renamed variable fails loudly instead of
+ * sending a prompt with a literal placeholder to the model.
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: Record<string, unknown>): RenderedPrompt {
+  const id = `${template.name}@${template.version}`;
+
+  const render = (text: string): string => text.replace(VARIABLE_PATTERN, (_, name: string) => {
+    const value = name.split('.').reduce<any>((current, key) => current?.[key], variables);
+    if (value === undefined || value === null) {
+      throw new Error(`Missing variable "${name}" for prompt template ${id}`);
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+
+  return { system: render(template.system), user: render(template.user), template: id };
+}
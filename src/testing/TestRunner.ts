@@ -0,0 +1,267 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileType, GeneratedFile, ProjectContext, TestFailure, TestRunReport, TestSuiteResult } from '../types';
+
+export interface TestRunnerOptions {
+  projectContext?: ProjectContext;
+  sandboxDir?: string;
+  timeoutMs?: number;
+}
+
+// The parts of Jest's --json output that make it into the report
+interface JestResults {
+  numPassedTests?: number;
+  numFailedTests?: number;
+  numPendingTests?: number;
+  numTodoTests?: number;
+  numRuntimeErrorTestSuites?: number;
+  testResults?: {
+    name: string;
+    status: 'passed' | 'failed';
+    message?: string;
+    assertionResults?: { title: string; fullName?: string; status: string; failureMessages?: string[] }[];
+  }[];
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const RUNNABLE_TESTS = /\.(test|spec)\.(tsx?|jsx?)$/;
+const SCRIPT_FILES = /\.(tsx?|jsx?)$/;
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Jest and the TypeScript transform come from this package; the code under test may use the target project's packages
+const JEST_BIN = require.resolve('jest/bin/jest');
+const TS_JEST = require.resolve('ts-jest');
+const OWN_NODE_MODULES = path.resolve(path.dirname(require.resolve('jest/package.json')), '..');
+
+const STYLE_MOCK = `module.exports = new Proxy({}, { get: (_, key) => (key === '__esModule' ? false : key) });\n`;
+const FILE_MOCK = `module.exports = 'test-file-stub';\n`;
+
+/**
+ * Runs generated Jest tests against the generated components in a throwaway workspace
+ */
+export class TestRunner {
+  private projectContext?: ProjectContext;
+  private sandboxDir: string;
+  private timeoutMs: number;
+
+  constructor(options: TestRunnerOptions = {}) {
+    this.projectContext = options.projectContext;
+    this.sandboxDir = options.sandboxDir || os.tmpdir();
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Run every runnable test file of a generated file set and summarize the results
+   */
+  async run(files: GeneratedFile[], signal?: AbortSignal): Promise<TestRunReport> {
+    const tests = files.filter(f => f.type === FileType.TEST && RUNNABLE_TESTS.test(f.path));
+    if (tests.length === 0) {
+      return this.emptyReport('skipped', 'No runnable test files were generated');
+    }
+
+    await fs.mkdir(this.sandboxDir, { recursive: true });
+    // Jest reports real paths, so the sandbox path must not go through a symlinked temp directory
+    const sandbox = await fs.realpath(await fs.mkdtemp(path.join(this.sandboxDir, 'test-run-')));
+
+    try {
+      for (const file of files) {
+        const filePath = this.resolvePath(sandbox, file.path);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.content, 'utf-8');
+      }
+
+      const nodeModules = await this.getNodeModules();
+      await fs.symlink(nodeModules, path.join(sandbox, 'node_modules'), 'dir');
+
+      const configPath = path.join(sandbox, '__jest__', 'jest.config.json');
+      await fs.mkdir(path.dirname(configPath), { recursive: true });
+      await fs.writeFile(path.join(sandbox, '__jest__', 'styleMock.js'), STYLE_MOCK, 'utf-8');
+      await fs.writeFile(path.join(sandbox, '__jest__', 'fileMock.js'), FILE_MOCK, 'utf-8');
+      await fs.writeFile(configPath, JSON.stringify(await this.buildJestConfig(sandbox, nodeModules, files, tests), null, 2), 'utf-8');
+
+      const resultsPath = path.join(sandbox, '__jest__', 'results.json');
+      const startedAt = Date.now();
+      const run = await this.runJest(sandbox, configPath, resultsPath, signal);
+
+      let results: JestResults;
+      try {
+        results = JSON.parse(await fs.readFile(resultsPath, 'utf-8')) as JestResults;
+      } catch {
+        const reason = run.timedOut ? `Timed out after ${this.timeoutMs}ms` : `Jest exited with code ${run.code}`;
+        return { ...this.emptyReport('error', `${reason}\n${this.cleanMessage(run.output, sandbox)}`), durationMs: Date.now() - startedAt };
+      }
+
+      return {
+        ...this.parseResults(results, sandbox),
+        durationMs: Date.now() - startedAt,
+        coverage: await this.readCoverage(sandbox)
+      };
+    } finally {
+      await fs.rm(sandbox, { recursive: true, force: true });
+    }
+  }
+
+  private async buildJestConfig(
+    sandbox: string,
+    nodeModules: string,
+    files: GeneratedFile[],
+    tests: GeneratedFile[]
+  ): Promise<Record<string, unknown>> {
+    const moduleNameMapper: Record<string, string | string[]> = {
+      '\\.(css|scss|sass|less)$': '<rootDir>/__jest__/styleMock.js',
+      '\\.(svg|png|jpe?g|gif|webp)$': '<rootDir>/__jest__/fileMock.js'
+    };
+
+    // Aliased imports resolve to generated files first, then to the existing project sources
+    for (const [alias, target] of Object.entries(this.projectContext?.importAliases || {})) {
+      const pattern = `^${alias.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace('*', '(.*)')}$`;
+      const projectTarget = path.join(path.resolve(this.projectContext!.rootDir), target.replace('*', '$1'));
+      moduleNameMapper[pattern] = [`<rootDir>/${target.replace('*', '$1')}`, projectTarget];
+    }
+
+    return {
+      rootDir: sandbox,
+      testMatch: tests.map(t => `<rootDir>/${t.path}`),
+      testEnvironment: await this.exists(path.join(nodeModules, 'jest-environment-jsdom')) ? 'jsdom' : 'node',
+      transform: {
+        '^.+\\.(t|j)sx?$': [TS_JEST, {
+          // Types were already checked by the validation step; here only the behavior matters
+          diagnostics: false,
+          tsconfig: { jsx: 'react-jsx', esModuleInterop: true, allowJs: true, module: 'commonjs', target: 'ES2020' }
+        }]
+      },
+      moduleNameMapper,
+      collectCoverage: true,
+      collectCoverageFrom: files
+        .filter(f => f.type !== FileType.TEST && SCRIPT_FILES.test(f.path))
+        .map(f => f.path),
+      coverageDirectory: '<rootDir>/__jest__/coverage',
+      coverageReporters: ['json-summary']
+    };
+  }
+
+  private runJest(
+    sandbox: string,
+    configPath: string,
+    resultsPath: string,
+    signal?: AbortSignal
+  ): Promise<{ code: number | null; timedOut: boolean; output: string }> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(
+        process.execPath,
+        [JEST_BIN, '--config', configPath, '--json', '--outputFile', resultsPath, '--ci', '--runInBand', '--silent'],
+        {
+          cwd: sandbox,
+          env: { ...process.env, NODE_ENV: 'test', FORCE_COLOR: '0' },
+          signal,
+          timeout: this.timeoutMs
+        }
+      );
+
+      let output = '';
+      const collect = (chunk: Buffer) => {
+        output = (output + chunk.toString()).slice(-MAX_MESSAGE_LENGTH * 2);
+      };
+      child.stdout.on('data', collect);
+      child.stderr.on('data', collect);
+
+      child.on('error', error => reject(new Error(`Failed to run generated tests: ${error.message}`)));
+      child.on('close', (code, killSignal) => resolve({ code, timedOut: killSignal !== null && !signal?.aborted, output }));
+    });
+  }
+
+  /**
+   * Convert Jest's --json output into a report; suites that could not run count as errors, not failures
+   */
+  private parseResults(results: JestResults, sandbox: string): Omit<TestRunReport, 'durationMs' | 'coverage'> {
+    const suites: TestSuiteResult[] = (results.testResults || []).map((suite): TestSuiteResult => {
+      const assertions = suite.assertionResults || [];
+      const failures: TestFailure[] = assertions
+        .filter(a => a.status === 'failed')
+        .map(a => ({ test: a.fullName || a.title, message: this.cleanMessage((a.failureMessages || []).join('\n'), sandbox) }));
+
+      const errored = suite.status === 'failed' && assertions.length === 0;
+      return {
+        file: path.relative(sandbox, suite.name).split(path.sep).join('/'),
+        status: errored ? 'error' : suite.status === 'failed' ? 'failed' : 'passed',
+        failures,
+        message: errored ? this.cleanMessage(suite.message || '', sandbox) : undefined
+      };
+    });
+
+    const failed = results.numFailedTests || 0;
+    const status = failed > 0
+      ? 'failed'
+      : suites.some(s => s.status === 'error') || (results.numRuntimeErrorTestSuites || 0) > 0 ? 'error' : 'passed';
+
+    return {
+      status,
+      passed: results.numPassedTests || 0,
+      failed,
+      skipped: (results.numPendingTests || 0) + (results.numTodoTests || 0),
+      suites
+    };
+  }
+
+  private async readCoverage(sandbox: string): Promise<TestRunReport['coverage']> {
+    try {
+      const summary = JSON.parse(await fs.readFile(path.join(sandbox, '__jest__', 'coverage', 'coverage-summary.json'), 'utf-8'));
+      const { lines, statements, functions, branches } = summary.total;
+      return { lines: lines.pct, statements: statements.pct, functions: functions.pct, branches: branches.pct };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Use the target project's packages when they are installed, otherwise this package's own
+   */
+  private async getNodeModules(): Promise<string> {
+    if (this.projectContext) {
+      const projectModules = path.join(path.resolve(this.projectContext.rootDir), 'node_modules');
+      if (await this.exists(projectModules)) {
+        return projectModules;
+      }
+    }
+    return OWN_NODE_MODULES;
+  }
+
+  private emptyReport(status: TestRunReport['status'], message: string): TestRunReport {
+    return { status, passed: 0, failed: 0, skipped: 0, durationMs: 0, suites: [], message };
+  }
+
+  /**
+   * Strip runner stack frames and sandbox paths, and limit the length
+   */
+  private cleanMessage(text: string, sandbox: string): string {
+    const clean = text
+      .split('\n')
+      .filter(line => !/^\s+at .*(node_modules|node:internal|<anonymous>)/.test(line))
+      .join('\n')
+      .split(`${sandbox}${path.sep}`).join('')
+      .trim();
+    return clean.length > MAX_MESSAGE_LENGTH ? `${clean.slice(0, MAX_MESSAGE_LENGTH)}...` : clean;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private resolvePath(sandbox: string, filePath: string): string {
+    const absolutePath = path.resolve(sandbox, filePath);
+    const relative = path.relative(sandbox, absolutePath);
+
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Refusing to run a file outside the sandbox: ${filePath}`);
+    }
+
+    return absolutePath;
+  }
+}
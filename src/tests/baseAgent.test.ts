@@ -0,0 +1,133 @@
+import { describe, expect, it } from '@jest/globals';
+import { BaseAgent } from '../agents/BaseAgent';
+import { AgentTask, AgentTaskType, AgentType, TaskPriority, TaskStatus } from '../types';
+
+class FlakyAgent extends BaseAgent {
+  public attempts = 0;
+
+  constructor(private errors: Error[]) {
+    super({
+      id: 'flaky-agent',
+      name: 'Flaky Agent',
+      type: AgentType.CODE_GENERATOR,
+      model: 'fake',
+      capabilities: [{
+        name: 'Flaky',
+        description: 'Fails with the given errors before succeeding',
+        requiredServices: [],
+        supportedOperations: [AgentTaskType.GENERATE_CODE]
+      }],
+      maxConcurrentTasks: 1,
+      retryAttempts: 3,
+      timeout: 0,
+      retryPolicy: { initialDelayMs: 1, maxDelayMs: 5 }
+    });
+  }
+
+  protected performTask(): Promise<any> {
+    const error = this.errors[this.attempts++];
+    return error ? Promise.reject(error) : Promise.resolve('done');
+  }
+}
+
+class SlowAgent extends BaseAgent {
+  public signals: AbortSignal[] = [];
+  public attempts = 0;
+
+  constructor(timeout: number, retryAttempts: number = 1) {
+    super({
+      id: 'slow-agent',
+      name: 'Slow Agent',
+      type: AgentType.CODE_GENERATOR,
+      model: 'fake',
+      capabilities: [{
+        name: 'Slow',
+        description: 'Never finishes on its own',
+        requiredServices: [],
+        supportedOperations: [AgentTaskType.GENERATE_CODE]
+      }],
+      maxConcurrentTasks: 1,
+      retryAttempts,
+      timeout
+    });
+  }
+
+  protected performTask(_task: AgentTask, signal: AbortSignal): Promise<any> {
+    this.attempts++;
+    this.signals.push(signal);
+    return new Promise(() => undefined);
+  }
+}
+
+const createTask = (): AgentTask => ({
+  id: 'task-1',
+  type: AgentTaskType.GENERATE_CODE,
+  description: 'Test task',
+  priority: TaskPriority.MEDIUM,
+  dependencies: [],
+  input: {},
+  status: TaskStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('BaseAgent', () => {
+  it('should fail a task that exceeds the timeout and abort its signal', async () => {
+    const agent = new SlowAgent(20);
+
+    await expect(agent.executeTask(createTask())).rejects.toThrow('Task task-1 timed out after 20ms');
+
+    expect(agent.signals[0].aborted).toBe(true);
+    expect(agent.getStatus().currentTasks[0].status).toBe(TaskStatus.FAILED);
+  });
+
+  it('should cancel in-flight tasks without retrying when the agent is stopped', async () => {
+    const agent = new SlowAgent(0, 3);
+
+    const execution = agent.executeTask(createTask());
+    await agent.stop();
+
+    await expect(execution).rejects.toThrow('Agent Slow Agent stopped');
+
+    expect(agent.attempts).toBe(1);
+    expect(agent.signals[0].aborted).toBe(true);
+    expect(agent.getStatus().currentTasks[0].status).toBe(TaskStatus.CANCELLED);
+  });
+
+  it('should retry transient failures until the task succeeds', async () => {
+    const agent = new FlakyAgent([new Error('socket hang up'), new Error('Request failed with status code 503')]);
+
+    await expect(agent.executeTask(createTask())).resolves.toBe('done');
+    expect(agent.attempts).toBe(3);
+  });
+
+  it('should only count running tasks against the concurrency limit', async () => {
+    const agent = new FlakyAgent([]);
+
+    await expect(agent.executeTask(createTask())).resolves.toBe('done');
+    await expect(agent.executeTask({ ...createTask(), id: 'task-2' })).resolves.toBe('done');
+    expect(agent.getStatus().availableCapacity).toBe(1);
+  });
+
+  it('should queue tasks beyond the concurrency limit until a running one finishes', async () => {
+    const agent = new SlowAgent(20);
+
+    const first = agent.executeTask(createTask());
+    const second = agent.executeTask({ ...createTask(), id: 'task-2' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(agent.attempts).toBe(1);
+    expect(agent.getStatus().queuedTasks).toBe(1);
+
+    await expect(first).rejects.toThrow('Task task-1 timed out');
+    await expect(second).rejects.toThrow('Task task-2 timed out');
+    expect(agent.attempts).toBe(2);
+  });
+
+  it('should not retry permanent failures', async () => {
+    const agent = new FlakyAgent([new Error('Failed to fetch Jira task DEV-1: Request failed with status code 404')]);
+
+    await expect(agent.executeTask(createTask())).rejects.toThrow('status code 404');
+    expect(agent.attempts).toBe(1);
+  });
+});
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CodeGeneratorAgent } from '../agents/CodeGeneratorAgent';
+import { AgentTask, AgentTaskType, CodeGenerationResult, FileType, ProjectContext, TaskPriority, TaskStatus } from '../types';
+
+const createTask = (type: AgentTaskType, input: any): AgentTask => ({
+  id: 'task-1',
+  type,
+  description: 'Test task',
+  priority: TaskPriority.MEDIUM,
+  dependencies: [],
+  input,
+  status: TaskStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('CodeGeneratorAgent', () => {
+  let agent: CodeGeneratorAgent;
+
+  beforeEach(() => {
+    agent = new CodeGeneratorAgent({
+      id: 'test-code-generator',
+      name: 'Test Code Generator',
+      model: 'fake',
+      maxConcurrentTasks: 1,
+      retryAttempts: 1,
+      timeout: 5000
+    });
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(agent as any, 'generateResponse').mockImplementation(() => Promise.reject(new Error('offline')));
+  });
+
+  it('should generate component, style, test and documentation files from templates', async () => {
+    const result: CodeGenerationResult = await agent.executeTask(createTask(AgentTaskType.GENERATE_CODE, {
+      analyze_prompt: {
+        promptTask: { id: 'prompt-1', prompt: 'Create a button', framework: 'React', styling: 'CSS' },
+        components: ['Button'],
+        features: ['Accessibility']
+      },
+      extract_figma_design: {
+        designs: [],
+        designTokens: [],
+        componentSpecs: [{
+          name: 'Primary Button',
+          type: 'button',
+          specifications: [{ property: 'border-radius', value: '8', unit: 'px' }]
+        }],
+        styleGuide: { colors: {}, typography: {}, spacing: {}, breakpoints: {} },
+        implementationGuidance: []
+      }
+    }));
+
+    expect(result.files.map(f => f.path)).toEqual([
+      'src/components/PrimaryButton/PrimaryButton.tsx',
+      'src/components/PrimaryButton/PrimaryButton.css',
+      'src/components/README.md'
+    ]);
+    expect(result.files.find(f => f.type === FileType.STYLE)?.content).toContain('border-radius: 8px;');
+    expect(result.tests).toHaveLength(1);
+    expect(result.tests[0].type).toBe(FileType.TEST);
+    expect(result.dependencies).toContain('react');
+  });
+
+  it('should create tests for previously generated components', async () => {
+    const result: CodeGenerationResult = await agent.executeTask(createTask(AgentTaskType.CREATE_TESTS, {
+      generate_code: {
+        files: [{ path: 'src/components/Card/Card.vue', content: '<template />', type: FileType.COMPONENT, description: '' }],
+        tests: [],
+        documentation: '',
+        dependencies: ['vue'],
+        buildCommands: []
+      }
+    }));
+
+    expect(result.files).toHaveLength(0);
+    expect(result.tests[0].path).toBe('src/components/Card/Card.test.ts');
+    expect(result.tests[0].content).toContain('@vue/test-utils');
+  });
+
+  it('should re-prompt for generated files that do not match the schema', async () => {
+    const generateResponse = jest.spyOn(agent as any, 'generateResponse')
+      .mockImplementationOnce(() => Promise.resolve('{ "files": [{ "path": "src/components/Badge/Badge.tsx" }] }'))
+      .mockImplementationOnce(() => Promise.resolve(JSON.stringify({
+        files: [
+          { path: 'src/components/Badge/Badge.tsx', type: 'COMPONENT', content: 'export const Badge = () => null;' },
+          { path: 'src/components/Badge/Badge.css', type: 'STYLESHEET', content: '.badge {}' }
+        ]
+      })));
+
+    const result: CodeGenerationResult = await agent.executeTask(createTask(AgentTaskType.GENERATE_CODE, {
+      analyze_prompt: { components: ['Badge'], features: [] }
+    }));
+
+    expect(generateResponse.mock.calls[1][1]).toContain('files.0.content: Required');
+    expect(result.files.filter(f => f.type !== FileType.DOCUMENTATION)).toEqual([
+      { path: 'src/components/Badge/Badge.tsx', type: FileType.COMPONENT, content: 'export const Badge = () => null;', description: '' },
+      { path: 'src/components/Badge/Badge.css', type: FileType.STYLE, content: '.badge {}', description: '' }
+    ]);
+  });
+
+  it('should stop generating instead of falling back to templates once the task is aborted', async () => {
+    const controller = new AbortController();
+    const generateResponse = jest.spyOn(agent as any, 'generateResponse').mockImplementation(() => {
+      controller.abort(new Error('Agent stopped'));
+      return Promise.reject(new Error('Request aborted'));
+    });
+
+    await expect((agent as any).performTask(createTask(AgentTaskType.GENERATE_CODE, {
+      analyze_prompt: { components: ['Header', 'Footer'], features: [] }
+    }), controller.signal)).rejects.toThrow('Request aborted');
+
+    expect(generateResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should follow the target project context', async () => {
+    const projectContext: ProjectContext = {
+      rootDir: __dirname,
+      language: 'TypeScript',
+      framework: 'React',
+      styling: 'SCSS',
+      uiLibraries: [],
+      dependencies: ['react', 'react-dom', 'sass'],
+      importAliases: {},
+      componentDir: 'app/ui',
+      components: [{ name: 'Setup', path: 'setup.ts' }],
+      lintConfigs: []
+    };
+    const projectAgent = new CodeGeneratorAgent({
+      id: 'test-code-generator',
+      name: 'Test Code Generator',
+      model: 'fake',
+      maxConcurrentTasks: 1,
+      retryAttempts: 1,
+      timeout: 5000,
+      projectContext
+    });
+    const generateResponse = jest.spyOn(projectAgent as any, 'generateResponse').mockImplementation(() => Promise.reject(new Error('offline')));
+
+    const result: CodeGenerationResult = await projectAgent.executeTask(createTask(AgentTaskType.GENERATE_CODE, {
+      analyze_prompt: { components: ['Setup'], features: [] }
+    }));
+
+    expect(result.files.map(f => f.path)).toEqual([
+      'app/ui/Setup/Setup.tsx',
+      'app/ui/Setup/Setup.scss',
+      'app/ui/README.md'
+    ]);
+    expect(result.dependencies).toEqual(['@testing-library/react']);
+    expect(generateResponse.mock.calls[0][1]).toContain('EXISTING Setup SOURCE');
+    expect(generateResponse.mock.calls[0][1]).toContain("jest.mock('winston'");
+  });
+});
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeGeneratorAgent } from '../agents/CodeGeneratorAgent';
+import { CodeValidator, formatDiagnostics } from '../validation/CodeValidator';
+import { AgentTask, AgentTaskType, CodeGenerationResult, FileType, GeneratedFile, ProjectContext, TaskPriority, TaskStatus } from '../types';
+
+const component = (content: string): GeneratedFile => ({
+  path: 'src/components/Button/Button.tsx',
+  content,
+  type: FileType.COMPONENT,
+  description: 'Button component'
+});
+
+const VALID_COMPONENT = `import React from 'react';
+import './Button.css';
+
+export interface ButtonProps {
+  label: string;
+  onClick?: () => void;
+}
+
+export const Button: React.FC<ButtonProps> = ({ label, onClick }) => (
+  <button type="button" onClick={onClick}>{label}</button>
+);
+`;
+
+const BROKEN_COMPONENT = `import React from 'react';
+
+export const Button = ({ label }: { label: string }) => {
+  const count: number = 'one';
+  return <button>{label}</button>;
+};
+`;
+
+const createTask = (input: any): AgentTask => ({
+  id: 'task-1',
+  type: AgentTaskType.VALIDATE_CODE,
+  description: 'Validate generated code',
+  priority: TaskPriority.MEDIUM,
+  dependencies: [],
+  input,
+  status: TaskStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const generated = (files: GeneratedFile[]): CodeGenerationResult => ({
+  files,
+  tests: [],
+  documentation: '',
+  dependencies: [],
+  buildCommands: []
+});
+
+describe('CodeValidator', () => {
+  it('should accept valid code with unresolved packages and style imports', async () => {
+    const diagnostics = await new CodeValidator().validate([
+      component(VALID_COMPONENT),
+      { path: 'src/components/Button/Button.css', content: '.button {}', type: FileType.STYLE, description: '' }
+    ]);
+
+    expect(diagnostics.filter(d => d.severity === 'error')).toEqual([]);
+  });
+
+  it('should report compiler and lint errors with positions', async () => {
+    const diagnostics = await new CodeValidator().validate([component(BROKEN_COMPONENT)]);
+
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ source: 'typescript', code: 'TS2322', line: 4, severity: 'error' }),
+      expect.objectContaining({ source: 'eslint', code: '@typescript-eslint/no-unused-vars', line: 4, severity: 'error' })
+    ]));
+    expect(formatDiagnostics(diagnostics)).toContain('src/components/Button/Button.tsx:4:9 - TS2322:');
+  });
+
+  it('should skip files that are not scripts', async () => {
+    const diagnostics = await new CodeValidator().validate([
+      { path: 'README.md', content: '# Not code', type: FileType.DOCUMENTATION, description: '' }
+    ]);
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should lint with the ESLint installation of the target project', async () => {
+    const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-project-'));
+    const install = async (name: string, source: string) => {
+      await fs.mkdir(path.join(rootDir, 'node_modules', name), { recursive: true });
+      await fs.writeFile(path.join(rootDir, 'node_modules', name, 'index.js'), source);
+    };
+    await fs.writeFile(path.join(rootDir, 'package.json'), '{ "name": "app" }');
+    await install('eslint', `exports.ESLint = class {
+      async lintFiles(files) {
+        return files.map(filePath => ({ filePath, messages: [{ ruleId: 'app/rule', severity: 2, line: 1, column: 1, message: 'Project ESLint' }] }));
+      }
+    };`);
+    await install('@typescript-eslint/parser', 'module.exports = {};');
+    await install('@typescript-eslint/eslint-plugin', 'module.exports = {};');
+    const projectContext: ProjectContext = {
+      rootDir,
+      language: 'TypeScript',
+      uiLibraries: [],
+      dependencies: [],
+      importAliases: {},
+      components: [],
+      lintConfigs: []
+    };
+
+    try {
+      const diagnostics = await new CodeValidator({ projectContext }).validate([
+        { path: 'src/answer.ts', content: 'export const answer = 42;\n', type: FileType.COMPONENT, description: '' }
+      ]);
+
+      expect(diagnostics).toEqual([
+        { file: 'src/answer.ts', line: 1, column: 1, source: 'eslint', code: 'app/rule', severity: 'error', message: 'Project ESLint' }
+      ]);
+    } finally {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('CodeGeneratorAgent code validation', () => {
+  let agent: CodeGeneratorAgent;
+
+  beforeEach(() => {
+    agent = new CodeGeneratorAgent({
+      id: 'test-code-generator',
+      name: 'Test Code Generator',
+      model: 'gpt-3.5-turbo',
+      maxConcurrentTasks: 2,
+      retryAttempts: 3,
+      timeout: 30000
+    }, { maxFixIterations: 2 });
+  });
+
+  it('should feed errors back to the model until the code passes', async () => {
+    const generateResponse = jest.spyOn(agent as any, 'generateResponse')
+      .mockImplementation(() => Promise.resolve(`\`\`\`tsx\n${VALID_COMPONENT}\`\`\``));
+
+    const result: CodeGenerationResult = await agent.executeTask(createTask({
+      generate_code: generated([component(BROKEN_COMPONENT)])
+    }));
+
+    expect(generateResponse).toHaveBeenCalledTimes(1);
+    expect(generateResponse.mock.calls[0][1]).toContain('TS2322');
+    expect(result.files[0].content).toBe(VALID_COMPONENT);
+    expect(result.validation).toMatchObject({
+      passed: true,
+      fixIterations: 1,
+      errors: [],
+      fixedFiles: ['src/components/Button/Button.tsx']
+    });
+  });
+
+  it('should fail when errors remain after the last fix iteration', async () => {
+    const generateResponse = jest.spyOn(agent as any, 'generateResponse')
+      .mockImplementation(() => Promise.resolve(BROKEN_COMPONENT));
+
+    await expect(agent.executeTask(createTask({
+      generate_code: generated([component(BROKEN_COMPONENT)])
+    }))).rejects.toMatchObject({ code: 'VALIDATION_FAILED', message: expect.stringContaining('errors after 2 fix attempts') });
+    // Exhausted fix iterations are final, the task is not retried
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,8 +1,8 @@
-import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
 import { MainCoordinatorAgent } from '../agents/MainCoordinatorAgent';
 import { JiraAnalyzerAgent } from '../agents/JiraAnalyzerAgent';
 import { FigmaDesignerAgent } from '../agents/FigmaDesignerAgent';
-import { AgentType, TaskStatus } from '../types';
+import { AgentType } from '../types';
 
 describe('AI Frontend Automation System', () => {
   let coordinatorAgent: MainCoordinatorAgent;
@@ -88,8 +88,9 @@ describe('AI Frontend Automation System', () => {
 
       expect(jiraAgent).toBeDefined();
       expect(jiraAgent.getStatus().type).toBe(AgentType.JIRA_ANALYZER);
-      expect(jiraAgent.getStatus().capabilities).toHaveLength(1);
+      expect(jiraAgent.getStatus().capabilities).toHaveLength(2);
       expect(jiraAgent.getStatus().capabilities[0].name).toBe('Jira Task Analysis');
+      expect(jiraAgent.getStatus().capabilities[1].name).toBe('Jira Write-back');
     });
   });
 
@@ -199,9 +200,6 @@ describe('Performance Tests', () => {
   it('should handle multiple tasks efficiently', async () => {
     const startTime = Date.now();
     
-    // Simulate processing multiple tasks
-    const tasks = ['TEST-1', 'TEST-2', 'TEST-3'];
-    
     // Mock processing time
     await new Promise(resolve => setTimeout(resolve, 100));
     
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FigmaMCPClient } from '../mcp/FigmaMCPClient';
+
+const URL = 'https://www.figma.com/file/abc123/Checkout?node-id=1-2';
+
+const NODE = {
+  document: {
+    id: '1:2',
+    name: 'PayButton',
+    type: 'FRAME',
+    absoluteBoundingBox: { x: 0, y: 0, width: 120, height: 40 },
+    cornerRadius: 8
+  }
+};
+
+describe('Figma response cache', () => {
+  let cacheDir: string;
+  let version: string;
+  let get: jest.Mock<(url: string, options?: any) => Promise<any>>;
+
+  const calls = (url: string) => get.mock.calls.filter(call => call[0] === url);
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'figma-cache-'));
+    version = '100';
+    get = jest.fn((url: string, options?: any) => {
+      switch (url) {
+        case '/files/abc123':
+          return Promise.resolve(options?.headers?.['If-None-Match'] === `"v${version}"`
+            ? { status: 304, data: '', headers: {} }
+            : { status: 200, data: { name: 'Checkout', version }, headers: { etag: `"v${version}"` } });
+        case '/files/abc123/nodes':
+          return new Promise(resolve => setTimeout(() => resolve({ status: 200, data: { version, nodes: { '1:2': NODE } } }), 10));
+        case '/images/abc123':
+          return Promise.resolve({ status: 200, data: { images: { '1:2': 'https://figma-images/1-2.png' } } });
+        default:
+          return Promise.reject(new Error(`Unexpected request: ${url}`));
+      }
+    });
+    jest.mocked(axios.create).mockReturnValue({ get } as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should fetch node data once for concurrent requests', async () => {
+    const client = new FigmaMCPClient({ accessToken: 'token', cacheDir });
+
+    const [first, second] = await Promise.all([client.getDesignFromUrl(URL), client.getDesignFromUrl(URL)]);
+
+    expect(first).toEqual(second);
+    expect(first).toEqual(expect.objectContaining({ name: 'PayButton', type: 'FRAME', imageUrl: 'https://figma-images/1-2.png' }));
+    expect(first.specifications).toEqual(expect.arrayContaining([
+      expect.objectContaining({ property: 'width', value: '120' }),
+      expect.objectContaining({ property: 'border-radius', value: '8' })
+    ]));
+    expect(calls('/files/abc123')).toHaveLength(1);
+    expect(calls('/files/abc123')[0][1].params).toEqual({ depth: 1 });
+    expect(calls('/files/abc123/nodes')).toHaveLength(1);
+  });
+
+  it('should keep the shared request running while another caller still waits for it', async () => {
+    const client = new FigmaMCPClient({ accessToken: 'token', cacheDir });
+    const controller = new AbortController();
+
+    const aborted = client.getDesignFromUrl(URL, controller.signal);
+    const waiting = client.getDesignFromUrl(URL);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    controller.abort(new Error('Task cancelled'));
+
+    await expect(aborted).rejects.toThrow('Task cancelled');
+    await expect(waiting).resolves.toEqual(expect.objectContaining({ name: 'PayButton' }));
+    expect(calls('/files/abc123/nodes')).toHaveLength(1);
+    expect(calls('/files/abc123/nodes')[0][1].signal.aborted).toBe(false);
+  });
+
+  it('should remember nodes missing from a file version', async () => {
+    get.mockImplementation((url: string) => Promise.resolve(url === '/files/abc123/nodes'
+      ? { status: 200, data: { version, nodes: {} } }
+      : { status: 200, data: { name: 'Checkout', version, images: {} }, headers: {} }));
+
+    await new FigmaMCPClient({ accessToken: 'token', cacheDir }).getDesignFromUrl(URL);
+    const design = await new FigmaMCPClient({ accessToken: 'token', cacheDir }).getDesignFromUrl(URL);
+
+    expect(design).toEqual(expect.objectContaining({ name: 'Root', type: 'FILE' }));
+    expect(calls('/files/abc123/nodes')).toHaveLength(1);
+  });
+
+  it('should reuse cached nodes across clients while the file version is unchanged', async () => {
+    const first = await new FigmaMCPClient({ accessToken: 'token', cacheDir }).getDesignFromUrl(URL);
+    const second = await new FigmaMCPClient({ accessToken: 'token', cacheDir }).getDesignFromUrl(URL);
+
+    expect(second).toEqual(first);
+    expect(calls('/files/abc123')[1][1].headers).toEqual({ 'If-None-Match': '"v100"' });
+    expect(calls('/files/abc123/nodes')).toHaveLength(1);
+  });
+
+  it('should fetch nodes again and drop stale entries when the file version changes', async () => {
+    const client = new FigmaMCPClient({ accessToken: 'token', cacheDir });
+    await client.getDesignFromUrl(URL);
+
+    version = '101';
+    await client.getDesignFromUrl(URL);
+
+    expect(calls('/files/abc123/nodes')).toHaveLength(2);
+    await expect(fs.readdir(path.join(cacheDir, 'abc123'))).resolves.toEqual(expect.arrayContaining(['101', 'meta.json']));
+    await expect(fs.readdir(path.join(cacheDir, 'abc123'))).resolves.not.toContain('100');
+  });
+});
@@ -0,0 +1,216 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GitHubManagerAgent } from '../agents/GitHubManagerAgent';
+import { AgentTask, AgentTaskType, FileType, TaskPriority, TaskStatus } from '../types';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: any;
+}
+
+/**
+ * Minimal local fake of the GitHub REST endpoints used by GitHubMCPClient; remembers created branches and pull requests
+ */
+const createFakeGitHub = (requests: RecordedRequest[]) => {
+  const refs = new Set<string>();
+  const pulls = new Set<string>();
+
+  return http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      const url = decodeURIComponent(req.url || '');
+      requests.push({ method: req.method || '', url, body });
+
+      const respond = (status: number, data: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      const route = `${req.method} ${url}`;
+      if (/^GET \/repos\/acme\/web\/git\/ref\/heads\//.test(route)) {
+        return respond(200, { object: { sha: 'base-sha' } });
+      }
+      if (route === 'POST /repos/acme/web/git/refs') {
+        if (refs.has(body.ref)) {
+          return respond(422, { message: 'Reference already exists' });
+        }
+        refs.add(body.ref);
+        return respond(201, { ref: body.ref });
+      }
+      if (route === 'GET /repos/acme/web/git/commits/base-sha') {
+        return respond(200, { sha: 'base-sha', tree: { sha: 'base-tree' } });
+      }
+      if (route === 'POST /repos/acme/web/git/blobs') {
+        return respond(201, { sha: `blob-${requests.length}` });
+      }
+      if (route === 'POST /repos/acme/web/git/trees') {
+        return respond(201, { sha: 'new-tree' });
+      }
+      if (route === 'POST /repos/acme/web/git/commits') {
+        return respond(201, { sha: 'new-commit' });
+      }
+      if (/^PATCH \/repos\/acme\/web\/git\/refs\/heads\//.test(route)) {
+        return respond(200, { object: { sha: body.sha } });
+      }
+      if (route === 'POST /repos/acme/web/pulls') {
+        pulls.add(body.head);
+        return respond(201, { number: 42, html_url: 'https://github.com/acme/web/pull/42' });
+      }
+      if (route.startsWith('GET /repos/acme/web/pulls?')) {
+        const head = new URLSearchParams(url.split('?')[1]).get('head')?.replace(/^acme:/, '') || '';
+        return respond(200, pulls.has(head) ? [{ number: 42, html_url: 'https://github.com/acme/web/pull/42' }] : []);
+      }
+      if (route === 'PATCH /repos/acme/web/pulls/42') {
+        return respond(200, { number: 42, html_url: 'https://github.com/acme/web/pull/42' });
+      }
+      if (route === 'POST /repos/acme/web/pulls/42/requested_reviewers') {
+        return respond(201, {});
+      }
+      if (route === 'POST /repos/acme/web/issues/42/labels') {
+        return respond(200, []);
+      }
+
+      respond(404, { message: 'Not Found' });
+    });
+  });
+};
+
+describe('GitHubManagerAgent', () => {
+  const requests: RecordedRequest[] = [];
+  const server = createFakeGitHub(requests);
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createAgent = () => new GitHubManagerAgent(
+    {
+      id: 'test-github',
+      name: 'Test GitHub Agent',
+      model: 'fake',
+      maxConcurrentTasks: 1,
+      retryAttempts: 1,
+      timeout: 5000
+    },
+    { token: 'test-token', owner: 'acme', repo: 'web', baseUrl },
+    { reviewers: ['octocat'], labels: ['frontend'] }
+  );
+
+  it('should commit generated files and open a draft pull request', async () => {
+    const agent = createAgent();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const task: AgentTask = {
+      id: 'task-1',
+      type: AgentTaskType.CREATE_PULL_REQUEST,
+      description: 'Create PR',
+      priority: TaskPriority.MEDIUM,
+      dependencies: [],
+      input: {
+        analyze_jira_task: {
+          jiraTask: { key: 'DEV-123', summary: 'Login form' },
+          estimatedComplexity: 'Medium'
+        },
+        generate_code: {
+          files: [{ path: 'src/components/Login/Login.tsx', content: 'export {}', type: FileType.COMPONENT, description: 'Login' }],
+          tests: [],
+          documentation: '',
+          dependencies: ['react'],
+          buildCommands: []
+        },
+        create_tests: {
+          files: [],
+          tests: [{ path: 'src/components/Login/Login.test.tsx', content: 'test', type: FileType.TEST, description: '' }],
+          documentation: '',
+          dependencies: [],
+          buildCommands: []
+        },
+        run_tests: {
+          status: 'failed',
+          passed: 3,
+          failed: 1,
+          skipped: 0,
+          durationMs: 1200,
+          suites: [{
+            file: 'src/components/Login/Login.test.tsx',
+            status: 'failed',
+            failures: [{ test: 'Login submits the form', message: 'Expected: true' }]
+          }],
+          coverage: { lines: 90, statements: 88.5, functions: 75, branches: 60 }
+        },
+        visual_qa_testing: {
+          overallScore: 88,
+          visualTests: [{ componentName: 'Login', passed: true, similarity: 97.5, screenshotPath: '', issues: [] }],
+          recommendations: ['All visual tests passed!']
+        }
+      },
+      status: TaskStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const result = await agent.executeTask(task);
+
+    expect(result).toEqual({
+      pullRequestUrl: 'https://github.com/acme/web/pull/42',
+      pullRequestNumber: 42,
+      branchName: 'feature/DEV-123',
+      commitSha: 'new-commit',
+      filesCommitted: 2
+    });
+
+    const blobs = requests.filter(r => r.url === '/repos/acme/web/git/blobs');
+    expect(blobs).toHaveLength(2);
+
+    const pull = requests.find(r => r.url === '/repos/acme/web/pulls');
+    expect(pull?.body).toMatchObject({ head: 'feature/DEV-123', base: 'main', draft: true, title: '[DEV-123] Login form' });
+    expect(pull?.body.body).toContain('Overall score: **88**');
+    expect(pull?.body.body).toContain('`src/components/Login/Login.test.tsx`');
+    expect(pull?.body.body).toContain('❌ **3 passed**, 1 failed, 0 skipped (1.2s)');
+    expect(pull?.body.body).toContain('Coverage: lines 90%, statements 88.5%, functions 75%, branches 60%');
+    expect(pull?.body.body).toContain('- `src/components/Login/Login.test.tsx`: Login submits the form');
+
+    expect(requests.find(r => r.url.endsWith('/requested_reviewers'))?.body).toEqual({ reviewers: ['octocat'] });
+    expect(requests.find(r => r.url.endsWith('/labels'))?.body).toEqual({ labels: ['frontend'] });
+  });
+
+  it('should reuse the branch and update the open pull request when a task is run again', async () => {
+    requests.length = 0;
+
+    const result = await createAgent().executeTask({
+      id: 'task-2',
+      type: AgentTaskType.CREATE_PULL_REQUEST,
+      description: 'Create PR',
+      priority: TaskPriority.MEDIUM,
+      dependencies: [],
+      input: {
+        analyze_jira_task: { jiraTask: { key: 'DEV-123', summary: 'Login form' } },
+        generate_code: {
+          files: [{ path: 'src/components/Login/Login.tsx', content: 'export {}', type: FileType.COMPONENT, description: 'Login' }],
+          tests: [],
+          documentation: '',
+          dependencies: [],
+          buildCommands: []
+        }
+      },
+      status: TaskStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    expect(result).toMatchObject({ pullRequestNumber: 42, branchName: 'feature/DEV-123', commitSha: 'new-commit' });
+    expect(requests.filter(r => r.method === 'POST' && r.url === '/repos/acme/web/git/refs')).toHaveLength(1);
+    expect(requests.filter(r => r.method === 'POST' && r.url === '/repos/acme/web/pulls')).toHaveLength(0);
+    expect(requests.find(r => r.method === 'PATCH' && r.url === '/repos/acme/web/pulls/42')?.body).toMatchObject({ title: '[DEV-123] Login form' });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import { JiraMCPClient } from '../mcp/JiraMCPClient';
+import { AdfNode, adfToMarkdown, adfToPlainText } from '../mcp/adf';
+
+const text = (value: string, marks?: AdfNode['marks']): AdfNode => ({ type: 'text', text: value, marks });
+const paragraph = (...content: AdfNode[]): AdfNode => ({ type: 'paragraph', content });
+const listItem = (...content: AdfNode[]): AdfNode => ({ type: 'listItem', content });
+const cell = (type: 'tableHeader' | 'tableCell', value: string): AdfNode => ({ type, content: [paragraph(text(value))] });
+
+const DESCRIPTION: AdfNode = {
+  type: 'doc',
+  content: [
+    paragraph(text('Build the '), text('checkout', [{ type: 'strong' }]), text(' page.')),
+    { type: 'heading', attrs: { level: 2 }, content: [text('Acceptance Criteria')] },
+    {
+      type: 'bulletList',
+      content: [
+        listItem(paragraph(text('User can pay with a saved card'))),
+        listItem(
+          paragraph(text('Totals are shown')),
+          { type: 'orderedList', attrs: { order: 1 }, content: [listItem(paragraph(text('Subtotal'))), listItem(paragraph(text('Tax')))] }
+        )
+      ]
+    },
+    paragraph(text('Design: '), text('mockups', [{ type: 'link', attrs: { href: 'https://www.figma.com/file/abc/Checkout?node-id=1-2' } }])),
+    { type: 'codeBlock', attrs: { language: 'json' }, content: [text('{ "currency": "EUR" }')] },
+    {
+      type: 'table',
+      content: [
+        { type: 'tableRow', content: [cell('tableHeader', 'Field'), cell('tableHeader', 'Rule')] },
+        { type: 'tableRow', content: [cell('tableCell', 'Card'), cell('tableCell', 'Luhn | 16 digits')] }
+      ]
+    },
+    paragraph(text('Ask '), { type: 'mention', attrs: { text: '@Dana' } }, { type: 'hardBreak' }, text('before release')),
+    { type: 'mediaSingle', content: [{ type: 'media', attrs: { id: 'media-1', alt: 'flow.png' } }] }
+  ]
+};
+
+describe('ADF conversion', () => {
+  it('should convert a document to Markdown', () => {
+    expect(adfToMarkdown(DESCRIPTION)).toBe([
+      'Build the **checkout** page.',
+      '',
+      '## Acceptance Criteria',
+      '',
+      '- User can pay with a saved card',
+      '- Totals are shown',
+      '  1. Subtotal',
+      '  2. Tax',
+      '',
+      'Design: [mockups](https://www.figma.com/file/abc/Checkout?node-id=1-2)',
+      '',
+      '```json',
+      '{ "currency": "EUR" }',
+      '```',
+      '',
+      '| Field | Rule |',
+      '| --- | --- |',
+      '| Card | Luhn \\| 16 digits |',
+      '',
+      'Ask @Dana',
+      'before release',
+      '',
+      '![flow.png](attachment:media-1)'
+    ].join('\n'));
+  });
+
+  it('should convert a document to plain text', () => {
+    const plain = adfToPlainText(DESCRIPTION);
+
+    expect(plain).toContain('Build the checkout page.\n\nAcceptance Criteria\n\n- User can pay');
+    expect(plain).toContain('Design: mockups (https://www.figma.com/file/abc/Checkout?node-id=1-2)');
+    expect(plain).toContain('{ "currency": "EUR" }');
+    expect(plain).not.toContain('```');
+  });
+
+  it('should pass strings through and ignore empty values', () => {
+    expect(adfToMarkdown('h1. Wiki markup')).toBe('h1. Wiki markup');
+    expect(adfToMarkdown(null)).toBe('');
+    expect(adfToMarkdown({ type: 'doc', version: 1, content: [] })).toBe('');
+  });
+});
+
+describe('JiraMCPClient', () => {
+  it('should read the whole description and comments of an issue', async () => {
+    const get = jest.fn(() => Promise.resolve({
+      data: {
+        id: '10001',
+        key: 'DEV-1',
+        fields: {
+          summary: 'Checkout page',
+          description: DESCRIPTION,
+          status: { name: 'To Do' },
+          issuetype: { name: 'Story' },
+          labels: [],
+          components: [],
+          comment: {
+            comments: [{
+              author: { displayName: 'Dana' },
+              created: '2024-05-01T10:00:00.000+0000',
+              body: { type: 'doc', content: [paragraph(text('Updated flow: ')), paragraph({ type: 'inlineCard', attrs: { url: 'https://www.figma.com/design/xyz/Flow' } }, text('.'))] }
+            }]
+          }
+        }
+      }
+    }));
+    jest.mocked(axios.create).mockReturnValue({ get } as any);
+
+    const client = new JiraMCPClient({ host: 'acme.atlassian.net', username: 'bot', apiToken: 'token', projectKey: 'DEV' });
+    const task = await client.getTask('DEV-1');
+
+    expect(task.description).toContain('| Card | Luhn \\| 16 digits |');
+    expect(task.figmaLinks).toEqual([
+      'https://www.figma.com/file/abc/Checkout?node-id=1-2',
+      'https://www.figma.com/design/xyz/Flow'
+    ]);
+    expect(task.acceptanceCriteria).toEqual([
+      'User can pay with a saved card',
+      'Totals are shown',
+      'Subtotal',
+      'Tax'
+    ]);
+    expect(task.comments).toEqual([{
+      author: 'Dana',
+      created: '2024-05-01T10:00:00.000+0000',
+      body: 'Updated flow:\n\nhttps://www.figma.com/design/xyz/Flow.'
+    }]);
+  });
+});
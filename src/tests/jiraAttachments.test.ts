@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JiraAnalyzerAgent } from '../agents/JiraAnalyzerAgent';
+import { JiraMCPClient } from '../mcp/JiraMCPClient';
+import { AgentTask, AgentTaskType, JiraAttachment, TaskPriority, TaskStatus } from '../types';
+
+const JIRA_CONFIG = { host: 'acme.atlassian.net', username: 'bot', apiToken: 'token', projectKey: 'DEV' };
+
+const attachment = (id: string, filename: string, mimeType: string, size: number) => ({
+  id,
+  filename,
+  mimeType,
+  size,
+  content: `https://acme.atlassian.net/rest/api/3/attachment/content/${id}`,
+  author: { displayName: 'Dana' },
+  created: '2024-05-01T10:00:00.000+0000'
+});
+
+const ISSUE = {
+  id: '10001',
+  key: 'DEV-2',
+  fields: {
+    summary: 'Profile card',
+    description: 'See the attached mockup',
+    status: { name: 'To Do' },
+    issuetype: { name: 'Story' },
+    labels: [],
+    components: [],
+    attachment: [
+      attachment('201', 'profile card.png', 'image/png', 8),
+      attachment('202', 'copy.md', 'text/markdown', 29),
+      attachment('203', 'assets.zip', 'application/zip', 100),
+      attachment('204', 'huge.png', 'image/png', 50 * 1024 * 1024)
+    ]
+  }
+};
+
+const FILES: { [url: string]: string } = {
+  'https://acme.atlassian.net/rest/api/3/attachment/content/201': 'PNG-DATA',
+  'https://acme.atlassian.net/rest/api/3/attachment/content/202': '# Copy\n\nTitle: "Your profile"'
+};
+
+const createTask = (input: any): AgentTask => ({
+  id: 'task-1',
+  type: AgentTaskType.ANALYZE_JIRA_TASK,
+  description: 'Analyze Jira task',
+  priority: TaskPriority.MEDIUM,
+  dependencies: [],
+  input,
+  status: TaskStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Jira attachments', () => {
+  let cacheDir: string;
+  let get: jest.Mock<(url: string, options?: any) => Promise<any>>;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jira-attachments-'));
+    get = jest.fn((url: string) => Promise.resolve(
+      url.startsWith('/issue/') ? { data: ISSUE } : { data: Buffer.from(FILES[url]) }
+    ));
+    jest.mocked(axios.create).mockReturnValue({ get } as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should map attachment metadata of an issue', async () => {
+    const task = await new JiraMCPClient(JIRA_CONFIG).getTask('DEV-2');
+
+    expect(task.attachments?.[0]).toEqual({
+      id: '201',
+      filename: 'profile card.png',
+      mimeType: 'image/png',
+      size: 8,
+      url: 'https://acme.atlassian.net/rest/api/3/attachment/content/201',
+      author: 'Dana',
+      created: '2024-05-01T10:00:00.000+0000'
+    });
+  });
+
+  it('should download an attachment once and reuse the cached file', async () => {
+    const client = new JiraMCPClient(JIRA_CONFIG);
+    const image: JiraAttachment = {
+      id: '201',
+      filename: 'profile card.png',
+      mimeType: 'image/png',
+      size: 8,
+      url: 'https://acme.atlassian.net/rest/api/3/attachment/content/201'
+    };
+
+    const first = await client.downloadAttachment(image, cacheDir);
+    const second = await client.downloadAttachment(image, cacheDir);
+
+    expect(first).toBe(path.join(cacheDir, '201', 'profile_card.png'));
+    expect(second).toBe(first);
+    expect(await fs.readFile(first, 'utf-8')).toBe('PNG-DATA');
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass text attachments to the analysis and return images as references', async () => {
+    const agent = new JiraAnalyzerAgent({
+      id: 'test-jira-analyzer',
+      name: 'Test Jira Analyzer',
+      model: 'fake',
+      maxConcurrentTasks: 2,
+      retryAttempts: 1,
+      timeout: 30000
+    }, JIRA_CONFIG, { cacheDir, maxSizeBytes: 1024 });
+    const generateStructured = jest.spyOn(agent as any, 'generateStructured')
+      .mockImplementation(() => Promise.resolve({ complexityAssessment: 'Simple' }));
+
+    const result = await agent.executeTask(createTask({ taskNumber: 'DEV-2' }));
+
+    const prompt = generateStructured.mock.calls[0][2] as string;
+    expect(prompt).toContain('--- copy.md ---\n# Copy\n\nTitle: "Your profile"');
+    expect(prompt).toContain('profile card.png (image, used as a reference design)');
+    expect(prompt).not.toContain('assets.zip');
+
+    expect(result.referenceImages).toEqual([
+      expect.objectContaining({ id: '201', localPath: path.join(cacheDir, '201', 'profile_card.png') })
+    ]);
+    expect(result.textAttachments).toEqual([
+      { filename: 'copy.md', content: '# Copy\n\nTitle: "Your profile"', truncated: false }
+    ]);
+    // Archives and oversized files are listed but never downloaded
+    expect(result.jiraTask.attachments.map((a: JiraAttachment) => a.localPath === undefined)).toEqual([false, false, true, true]);
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not fall back to the template analysis once the task is aborted', async () => {
+    const agent = new JiraAnalyzerAgent({
+      id: 'test-jira-analyzer',
+      name: 'Test Jira Analyzer',
+      model: 'fake',
+      maxConcurrentTasks: 2,
+      retryAttempts: 1,
+      timeout: 30000
+    }, JIRA_CONFIG, { cacheDir, maxSizeBytes: 1024 });
+    const controller = new AbortController();
+    jest.spyOn(agent as any, 'generateStructured').mockImplementation(() => {
+      controller.abort(new Error('Agent stopped'));
+      return Promise.reject(new Error('Request aborted'));
+    });
+    const createFallbackAnalysis = jest.spyOn(agent as any, 'createFallbackAnalysis');
+
+    await expect((agent as any).performTask(createTask({ taskNumber: 'DEV-2' }), controller.signal)).rejects.toThrow('Request aborted');
+    expect(createFallbackAnalysis).not.toHaveBeenCalled();
+  });
+});
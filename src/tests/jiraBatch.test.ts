@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeGeneratorAgent } from '../agents/CodeGeneratorAgent';
+import { JiraAnalyzerAgent } from '../agents/JiraAnalyzerAgent';
+import { MainCoordinatorAgent } from '../agents/MainCoordinatorAgent';
+import { WorkflowStore } from '../workflow/WorkflowStore';
+import { TaskStatus, WorkflowKind } from '../types';
+
+const AGENT_CONFIG = {
+  model: 'fake',
+  maxConcurrentTasks: 2,
+  retryAttempts: 1,
+  timeout: 30000
+};
+
+const issue = (key: string) => ({
+  id: key,
+  key,
+  fields: {
+    summary: `Task ${key}`,
+    description: null,
+    status: { name: 'To Do' },
+    issuetype: { name: 'Story' },
+    labels: [],
+    components: []
+  }
+});
+
+describe('Jira batch processing', () => {
+  let stateDir: string;
+  let coordinator: MainCoordinatorAgent;
+  let post: jest.Mock<(url: string, body: any, options?: any) => Promise<any>>;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jira-batch-'));
+    post = jest.fn(() => Promise.resolve({
+      data: { issues: ['DEV-1', 'DEV-2', 'DEV-3', 'DEV-2', 'DEV-4'].map(issue) }
+    }));
+    jest.mocked(axios.create).mockReturnValue({ post } as any);
+
+    coordinator = new MainCoordinatorAgent({
+      ...AGENT_CONFIG,
+      id: 'test-coordinator',
+      name: 'Test Coordinator',
+      workflowStateDir: stateDir
+    });
+    coordinator.registerAgent(new JiraAnalyzerAgent(
+      { ...AGENT_CONFIG, id: 'test-jira', name: 'Test Jira' },
+      { host: 'acme.atlassian.net', username: 'bot', apiToken: 'token', projectKey: 'DEV' }
+    ));
+
+    // DEV-1 is done, DEV-3 failed earlier and is picked up again
+    const store = new WorkflowStore(stateDir);
+    for (const [id, source, status] of [['wf-1', 'dev-1', TaskStatus.COMPLETED], ['wf-3', 'DEV-3', TaskStatus.FAILED]] as const) {
+      await store.save({
+        id, kind: WorkflowKind.JIRA, workflowName: 'jira', source, status, steps: [],
+        createdAt: '2024-05-01T10:00:00.000Z', updatedAt: '2024-05-01T10:00:00.000Z'
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await coordinator.stop();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it('should process matching tasks once, skip completed ones and cap concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const executeJiraWorkflow = jest.spyOn(coordinator as any, 'executeJiraWorkflow').mockImplementation(async (taskNumber: any) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+      if (taskNumber === 'DEV-3') {
+        throw new Error('Generation failed');
+      }
+    });
+
+    const result = await coordinator.processJiraQuery({ jql: 'project = DEV AND labels = frontend' }, undefined, 2);
+
+    expect(post).toHaveBeenCalledWith('/search/jql', expect.objectContaining({ jql: 'project = DEV AND labels = frontend' }), {
+      signal: expect.any(AbortSignal)
+    });
+    expect(result).toEqual({
+      matched: ['DEV-1', 'DEV-2', 'DEV-3', 'DEV-4'],
+      skipped: ['DEV-1'],
+      queued: ['DEV-2', 'DEV-3', 'DEV-4']
+    });
+    expect(executeJiraWorkflow.mock.calls.map(call => call[0])).toEqual(['DEV-2', 'DEV-3', 'DEV-4']);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should search the current user\'s open tasks', async () => {
+    jest.spyOn(coordinator as any, 'executeJiraWorkflow').mockImplementation(() => Promise.resolve());
+
+    await coordinator.processJiraQuery({ myTasks: true });
+
+    expect(post).toHaveBeenCalledWith('/search/jql', expect.objectContaining({ jql: expect.stringContaining('assignee = currentUser()') }), {
+      signal: expect.any(AbortSignal)
+    });
+  });
+
+  it('should queue tasks of concurrent workflows in agents that are at their limit', async () => {
+    const definitionsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jira-batch-workflows-'));
+    await fs.writeFile(path.join(definitionsDir, 'jira-code.json'), JSON.stringify({
+      name: 'jira-code',
+      description: 'Analyze a Jira task and generate code',
+      kind: 'JIRA',
+      steps: [
+        { name: 'Analyze Jira Task', agentType: 'JIRA_ANALYZER', taskType: 'ANALYZE_JIRA_TASK', dependencies: [], input: { taskNumber: '{{source}}' } },
+        { name: 'Generate Code', agentType: 'CODE_GENERATOR', taskType: 'GENERATE_CODE', dependencies: ['Analyze Jira Task'] }
+      ]
+    }));
+    const get = jest.fn((url: string) => new Promise(resolve => setTimeout(() => resolve({ data: issue(url.split('/').pop() as string) }), 5)));
+    jest.mocked(axios.create).mockReturnValue({ get, post } as any);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const batchCoordinator = new MainCoordinatorAgent({
+      ...AGENT_CONFIG,
+      id: 'test-batch-coordinator',
+      name: 'Test Batch Coordinator',
+      workflowStateDir: stateDir,
+      workflowDefinitionsDir: definitionsDir
+    });
+    batchCoordinator.registerAgent(new JiraAnalyzerAgent(
+      { ...AGENT_CONFIG, maxConcurrentTasks: 1, structuredOutputRetries: 0, id: 'test-jira', name: 'Test Jira' },
+      { host: 'acme.atlassian.net', username: 'bot', apiToken: 'token', projectKey: 'DEV' }
+    ));
+    batchCoordinator.registerAgent(new CodeGeneratorAgent(
+      { ...AGENT_CONFIG, maxConcurrentTasks: 1, structuredOutputRetries: 0, id: 'test-code', name: 'Test Code' }
+    ));
+
+    try {
+      await batchCoordinator.processJiraTasks(['DEV-5', 'DEV-6', 'DEV-7'], 'jira-code', 3);
+
+      const workflows = (await new WorkflowStore(stateDir).list()).filter(workflow => workflow.workflowName === 'jira-code');
+      expect(workflows.map(workflow => [workflow.source, workflow.status]).sort()).toEqual([
+        ['DEV-5', TaskStatus.COMPLETED],
+        ['DEV-6', TaskStatus.COMPLETED],
+        ['DEV-7', TaskStatus.COMPLETED]
+      ]);
+    } finally {
+      await batchCoordinator.stop();
+      await fs.rm(definitionsDir, { recursive: true, force: true });
+    }
+  });
+});
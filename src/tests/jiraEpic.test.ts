@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JiraAnalyzerAgent } from '../agents/JiraAnalyzerAgent';
+import { MainCoordinatorAgent } from '../agents/MainCoordinatorAgent';
+import { buildEpicPlan } from '../mcp/jiraEpic';
+import { WorkflowStore } from '../workflow/WorkflowStore';
+import { JiraTask, TaskStatus, WorkflowKind } from '../types';
+
+const AGENT_CONFIG = {
+  model: 'fake',
+  maxConcurrentTasks: 2,
+  retryAttempts: 1,
+  timeout: 30000
+};
+
+const blockedBy = (...keys: string[]) => keys.map(key => ({ type: { name: 'Blocks' }, inwardIssue: { key } }));
+
+const issue = (key: string, issueType: string, issuelinks: unknown[] = []) => ({
+  id: key,
+  key,
+  fields: {
+    summary: `Task ${key}`,
+    description: issueType === 'Epic' ? 'Profile area https://www.figma.com/file/abc/Profile' : null,
+    status: { name: 'To Do' },
+    issuetype: { name: issueType },
+    labels: [],
+    components: [],
+    issuelinks
+  }
+});
+
+const task = (key: string, blocked: string[] = []): JiraTask => ({
+  id: key,
+  key,
+  summary: `Task ${key}`,
+  description: '',
+  status: 'To Do',
+  priority: 'Medium',
+  labels: [],
+  components: [],
+  issueType: 'Story',
+  blockedBy: blocked
+});
+
+describe('Jira epic decomposition', () => {
+  it('should group stories into batches by their blocking links', () => {
+    const plan = buildEpicPlan({ ...task('DEV-1'), issueType: 'Epic', figmaLinks: ['https://www.figma.com/file/abc'] }, [
+      task('DEV-2', ['DEV-4']),
+      task('DEV-3'),
+      task('DEV-4', ['DEV-3', 'OPS-9']),
+      task('DEV-5')
+    ]);
+
+    expect(plan.epicKey).toBe('DEV-1');
+    expect(plan.figmaLinks).toEqual(['https://www.figma.com/file/abc']);
+    expect(plan.stories.find(story => story.key === 'DEV-4')?.dependsOn).toEqual(['DEV-3']);
+    expect(plan.batches).toEqual([['DEV-3', 'DEV-5'], ['DEV-4'], ['DEV-2']]);
+  });
+
+  it('should run stories caught in a dependency cycle in a final batch', () => {
+    const plan = buildEpicPlan({ ...task('DEV-1'), issueType: 'Epic' }, [
+      task('DEV-2', ['DEV-3']),
+      task('DEV-3', ['DEV-2']),
+      task('DEV-4'),
+      task('DEV-5', ['DEV-4'])
+    ]);
+
+    expect(plan.batches).toEqual([['DEV-4'], ['DEV-5'], ['DEV-2', 'DEV-3']]);
+    expect(plan.unordered).toEqual(['DEV-2', 'DEV-3']);
+  });
+
+  describe('coordinator', () => {
+    let stateDir: string;
+    let coordinator: MainCoordinatorAgent;
+    let get: jest.Mock<(url: string, options?: any) => Promise<any>>;
+    let post: jest.Mock<(url: string, body: any, options?: any) => Promise<any>>;
+
+    beforeEach(async () => {
+      stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jira-epic-'));
+      get = jest.fn((url: string) => Promise.resolve({ data: issue(url.split('/').pop() as string, url.endsWith('DEV-1') ? 'Epic' : 'Story') }));
+      post = jest.fn(() => Promise.resolve({
+        data: {
+          issues: [
+            issue('DEV-11', 'Story'),
+            issue('DEV-12', 'Story'),
+            issue('DEV-13', 'Story', blockedBy('DEV-11')),
+            issue('DEV-14', 'Story', blockedBy('DEV-12')),
+            issue('DEV-15', 'Story', blockedBy('DEV-13'))
+          ],
+          isLast: true
+        }
+      }));
+      jest.mocked(axios.create).mockReturnValue({ get, post } as any);
+
+      coordinator = new MainCoordinatorAgent({
+        ...AGENT_CONFIG,
+        id: 'test-coordinator',
+        name: 'Test Coordinator',
+        workflowStateDir: stateDir
+      });
+      coordinator.registerAgent(new JiraAnalyzerAgent(
+        { ...AGENT_CONFIG, id: 'test-jira', name: 'Test Jira' },
+        { host: 'acme.atlassian.net', username: 'bot', apiToken: 'token', projectKey: 'DEV' }
+      ));
+
+      await new WorkflowStore(stateDir).save({
+        id: 'wf-12', kind: WorkflowKind.JIRA, workflowName: 'jira', source: 'DEV-12', status: TaskStatus.COMPLETED, steps: [],
+        createdAt: '2024-05-01T10:00:00.000Z', updatedAt: '2024-05-01T10:00:00.000Z'
+      });
+    });
+
+    afterEach(async () => {
+      await coordinator.stop();
+      await fs.rm(stateDir, { recursive: true, force: true });
+    });
+
+    it('should run one workflow per story in dependency order with shared design tokens', async () => {
+      const tokens = [{ name: 'primary-color', category: 'color', value: '#0052cc', cssProperty: 'color' }];
+      jest.spyOn(coordinator as any, 'extractSharedDesignTokens').mockImplementation(() => Promise.resolve(tokens));
+      const runJiraWorkflow = jest.spyOn(coordinator as any, 'runJiraWorkflow').mockImplementation((key: any) => (
+        key === 'DEV-11' ? Promise.reject(new Error('Generation failed')) : Promise.resolve()
+      ));
+
+      await expect(coordinator.processJiraTasks(['DEV-1'])).resolves.toBeUndefined();
+
+      expect(post).toHaveBeenCalledWith('/search/jql', expect.objectContaining({
+        jql: 'parent = DEV-1 AND statusCategory != Done ORDER BY Rank ASC'
+      }), expect.anything());
+      expect(runJiraWorkflow.mock.calls).toEqual([
+        ['DEV-11', 'jira', { epicKey: 'DEV-1', designTokens: tokens }, expect.objectContaining({ key: 'DEV-11' })],
+        ['DEV-14', 'jira', { epicKey: 'DEV-1', designTokens: tokens }, expect.objectContaining({ key: 'DEV-14' })]
+      ]);
+    });
+
+    it('should report skipped, failed and blocked stories', async () => {
+      jest.spyOn(coordinator as any, 'runJiraWorkflow').mockImplementation((key: any) => (
+        key === 'DEV-11' ? Promise.reject(new Error('Generation failed')) : Promise.resolve()
+      ));
+
+      const plan = await (coordinator as any).planJiraEpic('DEV-1');
+      const result = await (coordinator as any).executeEpicWorkflows(plan, 'jira', 2);
+
+      expect(result).toEqual({
+        epicKey: 'DEV-1',
+        completed: ['DEV-14'],
+        failed: ['DEV-11'],
+        skipped: ['DEV-12'],
+        blocked: ['DEV-13', 'DEV-15']
+      });
+    });
+
+    it('should analyze stories from the issues fetched with the Epic', async () => {
+      const definitionsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jira-epic-workflows-'));
+      await fs.writeFile(path.join(definitionsDir, 'jira-analysis.json'), JSON.stringify({
+        name: 'jira-analysis',
+        description: 'Analyze a Jira task',
+        kind: 'JIRA',
+        steps: [
+          { name: 'Analyze Jira Task', agentType: 'JIRA_ANALYZER', taskType: 'ANALYZE_JIRA_TASK', dependencies: [], input: { taskNumber: '{{source}}' } }
+        ]
+      }));
+      const analysisCoordinator = new MainCoordinatorAgent({
+        ...AGENT_CONFIG,
+        id: 'test-analysis-coordinator',
+        name: 'Test Analysis Coordinator',
+        workflowStateDir: stateDir,
+        workflowDefinitionsDir: definitionsDir
+      });
+      analysisCoordinator.registerAgent(new JiraAnalyzerAgent(
+        { ...AGENT_CONFIG, structuredOutputRetries: 0, id: 'test-jira', name: 'Test Jira' },
+        { host: 'acme.atlassian.net', username: 'bot', apiToken: 'token', projectKey: 'DEV' }
+      ));
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      try {
+        await analysisCoordinator.processJiraTasks(['DEV-1'], 'jira-analysis');
+
+        const states = await new WorkflowStore(stateDir).list();
+        expect(states.filter(state => state.status === TaskStatus.COMPLETED).map(state => state.source).sort())
+          .toEqual(['DEV-11', 'DEV-12', 'DEV-13', 'DEV-14', 'DEV-15']);
+        expect(get.mock.calls.map(call => call[0])).toEqual(['/issue/DEV-1']);
+      } finally {
+        await analysisCoordinator.stop();
+        await fs.rm(definitionsDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should run the stories of an Epic one by one when it is part of a batch', async () => {
+      jest.spyOn(coordinator as any, 'runJiraWorkflow').mockImplementation(() => Promise.resolve());
+      const executeEpicWorkflows = jest.spyOn(coordinator as any, 'executeEpicWorkflows');
+
+      await coordinator.processJiraTasks(['DEV-1'], 'jira', 3);
+      await coordinator.processJiraTasks(['DEV-1', 'DEV-7'], 'jira', 3);
+
+      expect(executeEpicWorkflows.mock.calls.map(call => call[2])).toEqual([3, 1]);
+    });
+
+    it('should run other issue types as a single workflow', async () => {
+      const runJiraWorkflow = jest.spyOn(coordinator as any, 'runJiraWorkflow').mockImplementation(() => Promise.resolve());
+
+      await coordinator.processJiraTasks(['DEV-7']);
+
+      expect(post).not.toHaveBeenCalled();
+      expect(runJiraWorkflow).toHaveBeenCalledWith('DEV-7', 'jira');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import { JiraMCPClient } from '../mcp/JiraMCPClient';
+
+const JIRA_CONFIG = {
+  host: 'acme.atlassian.net',
+  username: 'bot',
+  apiToken: 'token',
+  projectKey: 'DEV',
+  fields: {
+    storyPoints: 'customfield_10016',
+    epicLink: 'customfield_10014',
+    sprint: 'customfield_10020',
+    acceptanceCriteria: 'customfield_10050'
+  }
+};
+
+const issue = (key: string, fields: Record<string, unknown> = {}) => ({
+  id: key,
+  key,
+  fields: {
+    summary: `Task ${key}`,
+    description: null,
+    status: { name: 'To Do' },
+    issuetype: { name: 'Story' },
+    labels: [],
+    components: [],
+    ...fields
+  }
+});
+
+const keys = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => `DEV-${from + i}`);
+
+describe('Jira search', () => {
+  let get: jest.Mock<(url: string, options?: any) => Promise<any>>;
+  let post: jest.Mock<(url: string, body: any, options?: any) => Promise<any>>;
+
+  beforeEach(() => {
+    get = jest.fn(() => Promise.resolve({ data: {} }));
+    post = jest.fn(() => Promise.resolve({ data: { issues: [] } }));
+    jest.mocked(axios.create).mockReturnValue({ get, post } as any);
+  });
+
+  it('should page Server / Data Center results with startAt until total is reached', async () => {
+    post.mockImplementation((_url, body) => Promise.resolve({
+      data: { issues: keys(body.startAt + 1, Math.min(body.startAt + body.maxResults, 120)).map(key => issue(key)), total: 120 }
+    }));
+
+    const tasks = await new JiraMCPClient({ ...JIRA_CONFIG, apiVersion: '2' }).getTasksByJQL('project = DEV');
+
+    expect(tasks.map(task => task.key)).toEqual(keys(1, 120));
+    expect(post.mock.calls.map(call => [call[0], call[1].startAt])).toEqual([['/search', 0], ['/search', 50], ['/search', 100]]);
+    expect(post.mock.calls[0][1].fields).toEqual(expect.arrayContaining(['summary', 'attachment', 'customfield_10016', 'customfield_10050']));
+  });
+
+  it('should page Cloud results of /search/jql with nextPageToken and stop at maxResults', async () => {
+    post
+      .mockResolvedValueOnce({ data: { issues: keys(1, 50).map(key => issue(key)), nextPageToken: 'page-2' } })
+      .mockResolvedValueOnce({ data: { issues: keys(51, 60).map(key => issue(key)), nextPageToken: 'page-3' } });
+
+    const tasks = await new JiraMCPClient(JIRA_CONFIG).getTasksByJQL('project = DEV', 60);
+
+    expect(tasks).toHaveLength(60);
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(post.mock.calls.map(call => call[0])).toEqual(['/search/jql', '/search/jql']);
+    expect(post.mock.calls[0][1]).not.toHaveProperty('startAt');
+    expect(post.mock.calls[1][1]).toEqual(expect.objectContaining({ nextPageToken: 'page-2', maxResults: 10 }));
+    expect(post.mock.calls[1][1]).not.toHaveProperty('startAt');
+  });
+
+  it('should map custom fields the same way for single issues and searches', async () => {
+    const storyIssue = issue('DEV-7', {
+      description: 'Profile page\n\nAcceptance Criteria:\n- Avatar is round',
+      customfield_10016: 5,
+      customfield_10014: 'DEV-1',
+      customfield_10020: [
+        { id: 1, name: 'Sprint 11', state: 'closed' },
+        { id: 2, name: 'Sprint 12', state: 'active' }
+      ],
+      customfield_10050: {
+        type: 'doc',
+        content: [{
+          type: 'bulletList',
+          content: ['Shows the user name', 'Avatar is round'].map(text => ({
+            type: 'listItem',
+            content: [{ type: 'paragraph', content: [{ type: 'text', text }] }]
+          }))
+        }]
+      }
+    });
+    get.mockResolvedValue({ data: storyIssue });
+    post.mockResolvedValue({ data: { issues: [storyIssue], isLast: true } });
+
+    const client = new JiraMCPClient(JIRA_CONFIG);
+    const task = await client.getTask('DEV-7');
+
+    expect(task).toEqual(expect.objectContaining({
+      storyPoints: 5,
+      epicKey: 'DEV-1',
+      sprint: 'Sprint 12',
+      acceptanceCriteria: ['Shows the user name', 'Avatar is round']
+    }));
+    expect(get).toHaveBeenCalledWith('/issue/DEV-7', expect.objectContaining({
+      params: { fields: expect.stringContaining('customfield_10020') }
+    }));
+    await expect(client.getTasksByJQL('key = DEV-7')).resolves.toEqual([task]);
+  });
+
+  it('should read the epic from the parent and legacy sprint strings', async () => {
+    get.mockResolvedValue({
+      data: issue('DEV-8', {
+        parent: { key: 'DEV-2', fields: { issuetype: { name: 'Epic' } } },
+        customfield_10020: ['com.atlassian.greenhopper.service.sprint.Sprint@1f[id=3,rapidViewId=1,state=FUTURE,name=Sprint 13,startDate=<null>]']
+      })
+    });
+
+    const task = await new JiraMCPClient(JIRA_CONFIG).getTask('DEV-8');
+
+    expect(task.epicKey).toBe('DEV-2');
+    expect(task.sprint).toBe('Sprint 13');
+    expect(task.storyPoints).toBeUndefined();
+  });
+});
@@ -0,0 +1,191 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { JiraMCPClient, JiraMCPConfig } from '../mcp/JiraMCPClient';
+import { adfBulletList, adfDoc, adfLink, adfParagraph, adfText } from '../mcp/adf';
+import { wikiToMarkdown } from '../mcp/wiki';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body?: any;
+}
+
+const DESCRIPTION = [
+  'h2. Overview',
+  'Build the *settings* page with {{SettingsForm}}, see [mockups|https://www.figma.com/file/xyz/Settings].',
+  '',
+  'h3. Acceptance Criteria',
+  '* User can change the language',
+  '* Changes are saved _immediately_',
+  '** Including the theme',
+  '',
+  '||Field||Rule||',
+  '|Email|Required|',
+  '',
+  '{code:json}',
+  '{ "theme": "dark" }',
+  '{code}',
+  '',
+  'Ask [~jdoe] before release !flow.png|thumbnail!'
+].join('\n');
+
+const ISSUE = {
+  id: '10001',
+  key: 'OPS-1',
+  fields: {
+    summary: 'Settings page',
+    description: DESCRIPTION,
+    status: { name: 'Open' },
+    priority: { name: 'Major' },
+    issuetype: { name: 'Story' },
+    labels: ['frontend'],
+    components: [{ name: 'Web' }],
+    comment: { comments: [{ author: { displayName: 'Dana' }, body: 'bq. Keep the *old* layout' }] },
+    customfield_10105: ['com.atlassian.greenhopper.service.sprint.Sprint@5a[id=7,rapidViewId=2,state=ACTIVE,name=Sprint 7,startDate=2024-05-01]']
+  }
+};
+
+describe('Jira Server / Data Center', () => {
+  const realAxios = jest.requireActual<typeof axios>('axios');
+  const requests: RecordedRequest[] = [];
+  let server: http.Server;
+  let baseUrl: string;
+  let config: JiraMCPConfig;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => (raw += chunk));
+      req.on('end', () => {
+        const url = req.url || '';
+        const body = raw ? JSON.parse(raw) : undefined;
+        requests.push({ method: req.method || '', url, authorization: req.headers.authorization, body });
+
+        const send = (status: number, data: unknown) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(data));
+        };
+
+        if (req.headers.authorization !== 'Bearer pat-123') {
+          send(401, { errorMessages: ['Unauthorized'] });
+        } else if (req.method === 'GET' && url.startsWith('/jira/rest/api/2/issue/OPS-1?')) {
+          send(200, ISSUE);
+        } else if (req.method === 'POST' && url === '/jira/rest/api/2/search') {
+          // Server / Data Center pages by offset only
+          const keys = ['OPS-2', 'OPS-3', 'OPS-4'].slice(body.startAt, body.startAt + 2);
+          send(200, { startAt: body.startAt, total: 3, issues: keys.map(key => ({ ...ISSUE, id: key, key })) });
+        } else if (req.method === 'POST' && url === '/jira/rest/api/2/issue/OPS-1/comment') {
+          send(201, { id: '1' });
+        } else if (req.method === 'GET' && url === '/jira/secure/attachment/301/flow.png') {
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.end(Buffer.from('png-bytes'));
+        } else {
+          send(404, { errorMessages: [`No route for ${req.method} ${url}`] });
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    jest.mocked(axios.create).mockImplementation(options => realAxios.create(options));
+    config = {
+      host: baseUrl,
+      basePath: '/jira/',
+      apiVersion: '2',
+      personalAccessToken: 'pat-123',
+      projectKey: 'OPS',
+      fields: { sprint: 'customfield_10105' }
+    };
+  });
+
+  it('should fetch issues with a bearer token and convert wiki markup to Markdown', async () => {
+    const task = await new JiraMCPClient(config).getTask('OPS-1');
+
+    expect(requests[0].authorization).toBe('Bearer pat-123');
+    expect(task.description).toBe([
+      '## Overview',
+      'Build the **settings** page with `SettingsForm`, see [mockups](https://www.figma.com/file/xyz/Settings).',
+      '',
+      '### Acceptance Criteria',
+      '- User can change the language',
+      '- Changes are saved *immediately*',
+      '  - Including the theme',
+      '',
+      '| Field | Rule |',
+      '| --- | --- |',
+      '| Email | Required |',
+      '',
+      '```json',
+      '{ "theme": "dark" }',
+      '```',
+      '',
+      'Ask @jdoe before release ![flow.png](attachment:flow.png)'
+    ].join('\n'));
+    expect(task.comments).toEqual([{ author: 'Dana', created: undefined, body: '> Keep the **old** layout' }]);
+    expect(task.figmaLinks).toEqual(['https://www.figma.com/file/xyz/Settings']);
+    expect(task.acceptanceCriteria).toEqual(expect.arrayContaining(['User can change the language', 'Changes are saved *immediately*']));
+    expect(task.sprint).toBe('Sprint 7');
+  });
+
+  it('should page through v2 searches and find Epic children by Epic Link', async () => {
+    const tasks = await new JiraMCPClient(config).getEpicChildren('OPS-1');
+
+    expect(tasks.map(task => task.key)).toEqual(['OPS-2', 'OPS-3', 'OPS-4']);
+    expect(requests.map(request => request.body.startAt)).toEqual([0, 2]);
+    expect(requests[0].body.jql).toBe('"Epic Link" = OPS-1 AND statusCategory != Done ORDER BY Rank ASC');
+  });
+
+  it('should post comments as wiki markup', async () => {
+    await new JiraMCPClient(config).addComment('OPS-1', adfDoc(
+      adfParagraph(adfText('Workflow completed', [{ type: 'strong' }])),
+      adfBulletList([[adfText('src/Settings.tsx', [{ type: 'code' }])], ['Pull request: ', adfLink('#42', 'https://github.com/acme/web/pull/42')]])
+    ));
+
+    expect(requests[0].body).toEqual({
+      body: '*Workflow completed*\n\n* {{src/Settings.tsx}}\n* Pull request: [#42|https://github.com/acme/web/pull/42]'
+    });
+  });
+
+  it('should download attachments with the same credentials', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jira-server-'));
+    try {
+      const localPath = await new JiraMCPClient(config).downloadAttachment({
+        id: '301',
+        filename: 'flow.png',
+        mimeType: 'image/png',
+        size: 9,
+        url: `${baseUrl}/jira/secure/attachment/301/flow.png`
+      }, cacheDir);
+
+      await expect(fs.readFile(localPath, 'utf-8')).resolves.toBe('png-bytes');
+      expect(requests[0].authorization).toBe('Bearer pat-123');
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject requests without valid credentials', async () => {
+    const client = new JiraMCPClient({ ...config, personalAccessToken: undefined, username: 'bot', apiToken: 'token' });
+
+    await expect(client.getTask('OPS-1')).rejects.toThrow('Failed to fetch Jira task OPS-1');
+    expect(requests[0].authorization).toBe(`Basic ${Buffer.from('bot:token').toString('base64')}`);
+  });
+
+  it('should leave plain text and non-strings alone', () => {
+    expect(wikiToMarkdown('Fix the header - spacing on front-end pages')).toBe('Fix the header - spacing on front-end pages');
+    expect(wikiToMarkdown(null)).toBe('');
+  });
+});
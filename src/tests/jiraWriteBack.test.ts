@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as os from 'os';
+import * as path from 'path';
+import { JiraAnalyzerAgent } from '../agents/JiraAnalyzerAgent';
+import { MainCoordinatorAgent } from '../agents/MainCoordinatorAgent';
+import { JiraMCPClient } from '../mcp/JiraMCPClient';
+import { adfToMarkdown } from '../mcp/adf';
+import { AgentTaskType, AgentType, FileType, TaskStatus, WorkflowKind, WorkflowState } from '../types';
+
+const JIRA_CONFIG = { host: 'acme.atlassian.net', username: 'bot', apiToken: 'token', projectKey: 'DEV' };
+
+const AGENT_CONFIG = {
+  model: 'fake',
+  maxConcurrentTasks: 2,
+  retryAttempts: 1,
+  timeout: 30000
+};
+
+const TRANSITIONS = [
+  { id: '11', name: 'Start Progress', to: { name: 'In Progress' } },
+  { id: '21', name: 'Send to review', to: { name: 'In Review' } },
+  { id: '31', name: 'Done', to: { name: 'Done' } }
+];
+
+const createState = (): WorkflowState => ({
+  id: 'workflow-1',
+  kind: WorkflowKind.JIRA,
+  workflowName: 'jira',
+  source: 'DEV-3',
+  status: TaskStatus.IN_PROGRESS,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-05-01T10:00:00.000Z',
+  steps: [{
+    id: 'step-1',
+    name: 'Analyze Jira Task',
+    agentType: AgentType.JIRA_ANALYZER,
+    taskType: AgentTaskType.ANALYZE_JIRA_TASK,
+    dependencies: [],
+    input: {},
+    status: TaskStatus.COMPLETED,
+    retryCount: 0,
+    output: {
+      estimatedComplexity: 'Medium',
+      analysis: { deliverables: ['ProfileCard component'] }
+    }
+  }, {
+    id: 'step-2',
+    name: 'Generate Code',
+    agentType: AgentType.CODE_GENERATOR,
+    taskType: AgentTaskType.GENERATE_CODE,
+    dependencies: ['Analyze Jira Task'],
+    input: {},
+    status: TaskStatus.COMPLETED,
+    retryCount: 0,
+    output: {
+      files: [{ path: 'src/components/ProfileCard/ProfileCard.tsx', content: '', type: FileType.COMPONENT, description: '' }],
+      tests: []
+    }
+  }, {
+    id: 'step-3',
+    name: 'Visual QA Testing',
+    agentType: AgentType.QA_TESTER,
+    taskType: AgentTaskType.CREATE_TESTS,
+    dependencies: ['Generate Code'],
+    input: {},
+    status: TaskStatus.COMPLETED,
+    retryCount: 0,
+    output: { overallScore: 87, visualTests: [{ passed: true }, { passed: false }], recommendations: [] }
+  }, {
+    id: 'step-4',
+    name: 'Create Pull Request',
+    agentType: AgentType.GITHUB_MANAGER,
+    taskType: AgentTaskType.CREATE_PULL_REQUEST,
+    dependencies: ['Generate Code'],
+    input: {},
+    status: TaskStatus.COMPLETED,
+    retryCount: 0,
+    output: { pullRequestUrl: 'https://github.com/acme/web/pull/42', pullRequestNumber: 42 }
+  }]
+});
+
+describe('Jira write-back', () => {
+  let get: jest.Mock<(url: string, options?: any) => Promise<any>>;
+  let post: jest.Mock<(url: string, body: any, options?: any) => Promise<any>>;
+
+  beforeEach(() => {
+    get = jest.fn(() => Promise.resolve({ data: { transitions: TRANSITIONS } }));
+    post = jest.fn(() => Promise.resolve({ data: {} }));
+    jest.mocked(axios.create).mockReturnValue({ get, post } as any);
+  });
+
+  it('should apply a transition by transition or status name', async () => {
+    const client = new JiraMCPClient(JIRA_CONFIG);
+
+    await expect(client.transitionTaskByName('DEV-3', 'in review')).resolves.toBe('Send to review');
+    expect(post).toHaveBeenCalledWith('/issue/DEV-3/transitions', { transition: { id: '21' } }, { signal: undefined });
+
+    await expect(client.transitionTaskByName('DEV-3', 'Blocked')).rejects.toThrow(
+      "Transition 'Blocked' is not available for DEV-3. Available: Start Progress (to In Progress), Send to review (to In Review), Done"
+    );
+  });
+
+  it('should post a summary comment and record failures in the workflow state', async () => {
+    const coordinator = new MainCoordinatorAgent({
+      ...AGENT_CONFIG,
+      id: 'test-coordinator',
+      name: 'Test Coordinator',
+      workflowStateDir: path.join(os.tmpdir(), 'jira-write-back-workflows'),
+      jiraWriteBack: { comment: true, transition: 'Ready for QA' }
+    });
+    coordinator.registerAgent(new JiraAnalyzerAgent({ ...AGENT_CONFIG, id: 'test-jira', name: 'Test Jira' }, JIRA_CONFIG));
+
+    const state = createState();
+    await (coordinator as any).writeBackToJira(state);
+
+    expect(state.jiraWriteBack).toEqual({
+      commentPosted: true,
+      errors: [expect.stringContaining("Transition 'Ready for QA' is not available for DEV-3")]
+    });
+
+    const [url, body] = post.mock.calls[0];
+    expect(url).toBe('/issue/DEV-3/comment');
+    expect(adfToMarkdown(body.body)).toBe([
+      '**Frontend automation workflow completed**',
+      '',
+      'Estimated complexity: Medium',
+      '',
+      'Deliverables:',
+      '',
+      '- ProfileCard component',
+      '',
+      'Generated files (1):',
+      '',
+      '- `src/components/ProfileCard/ProfileCard.tsx`',
+      '',
+      'Visual QA score: 87/100 (1/2 components passed)',
+      '',
+      'Pull request: [#42](https://github.com/acme/web/pull/42)'
+    ].join('\n'));
+
+    await coordinator.stop();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from '@jest/globals';
+import { BaseLanguageModel } from '@langchain/core/language_models/base';
+import { BaseAgent } from '../agents/BaseAgent';
+import { FakeChatModel } from '../llm/FakeChatModel';
+import { ModelOptions, registerModelProvider } from '../llm/ModelProvider';
+import { getRoutedModels, parseModelRouting, resolveModelSettings } from '../llm/ModelRouting';
+import { AgentConfig, AgentTask, AgentTaskType, AgentType, ModelRoutingConfig, TaskPriority, TaskStatus } from '../types';
+
+const created: Array<{ modelName: string; options: ModelOptions }> = [];
+
+registerModelProvider({
+  name: 'spy',
+  requiredEnvVars: [],
+  supports: modelName => modelName.startsWith('spy-'),
+  create: (modelName, options) => {
+    created.push({ modelName, options });
+    return new FakeChatModel({ defaultResponse: `answer from ${modelName}` });
+  }
+});
+
+registerModelProvider({
+  name: 'broken',
+  requiredEnvVars: [],
+  supports: modelName => modelName.startsWith('broken-'),
+  create: () => ({ invoke: () => Promise.reject(new Error('Provider unavailable')) }) as unknown as BaseLanguageModel
+});
+
+class AskAgent extends BaseAgent {
+  constructor(config: Partial<AgentConfig>) {
+    super({
+      id: 'ask',
+      name: 'Ask Agent',
+      type: AgentType.CODE_GENERATOR,
+      model: 'spy-default',
+      capabilities: [{
+        name: 'Ask',
+        description: 'Sends the input to the model',
+        requiredServices: [],
+        supportedOperations: [AgentTaskType.GENERATE_CODE, AgentTaskType.CREATE_TESTS]
+      }],
+      maxConcurrentTasks: 2,
+      retryAttempts: 1,
+      timeout: 0,
+      ...config
+    });
+  }
+
+  protected async performTask(task: AgentTask, signal: AbortSignal): Promise<any> {
+    return this.generateResponse('system', JSON.stringify(task.input), undefined, signal);
+  }
+}
+
+const createTask = (type: AgentTaskType): AgentTask => ({
+  id: `task-${type}`,
+  type,
+  description: 'Test task',
+  priority: TaskPriority.MEDIUM,
+  dependencies: [],
+  input: {},
+  status: TaskStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Model routing', () => {
+  const routing: ModelRoutingConfig = {
+    default: { temperature: 0.1 },
+    agents: { [AgentType.CODE_GENERATOR]: { model: 'spy-agent', maxTokens: 1000 } },
+    tasks: { [AgentTaskType.GENERATE_CODE]: { model: 'spy-strong', temperature: 0.4, fallbacks: ['spy-backup'] } }
+  };
+
+  it('should validate routing files', () => {
+    expect(parseModelRouting({ tasks: { GENERATE_CODE: { model: 'gpt-4o', maxTokens: 4096 } } })).toEqual({
+      tasks: { GENERATE_CODE: { model: 'gpt-4o', maxTokens: 4096 } }
+    });
+    expect(() => parseModelRouting({ agents: { PROMPT_ANALYZER: { model: 'llama-3' } } }))
+      .toThrow('agents.PROMPT_ANALYZER.model: Unsupported model: llama-3');
+    expect(() => parseModelRouting({ tasks: { GENERATE_CODE: { temperature: 5 } } })).toThrow('tasks.GENERATE_CODE.temperature');
+  });
+
+  it('should let task rules override agent rules and defaults', () => {
+    const base = { model: 'spy-default' };
+
+    expect(resolveModelSettings(base, routing, AgentType.CODE_GENERATOR, AgentTaskType.GENERATE_CODE)).toEqual({
+      model: 'spy-strong', temperature: 0.4, maxTokens: 1000, fallbacks: ['spy-backup']
+    });
+    expect(resolveModelSettings(base, routing, AgentType.CODE_GENERATOR, AgentTaskType.CREATE_TESTS)).toEqual({
+      model: 'spy-agent', temperature: 0.1, maxTokens: 1000, fallbacks: undefined
+    });
+    expect(resolveModelSettings(base, routing, AgentType.QA_TESTER).model).toBe('spy-default');
+    expect(getRoutedModels(routing)).toEqual(['spy-agent', 'spy-strong', 'spy-backup']);
+  });
+
+  it('should create models with the routed settings per task type', async () => {
+    const agent = new AskAgent({ modelRouting: routing });
+
+    expect(await agent.executeTask(createTask(AgentTaskType.GENERATE_CODE))).toBe('answer from spy-strong');
+    expect(await agent.executeTask(createTask(AgentTaskType.CREATE_TESTS))).toBe('answer from spy-agent');
+    expect(created).toContainEqual({ modelName: 'spy-strong', options: { temperature: 0.4, maxTokens: 1000 } });
+  });
+
+  it('should fall back to the next model when the primary one fails', async () => {
+    const agent = new AskAgent({ model: 'broken-primary', fallbackModels: ['broken-secondary', 'spy-backup'] });
+
+    expect(await agent.executeTask(createTask(AgentTaskType.GENERATE_CODE))).toBe('answer from spy-backup');
+    expect(agent.getTaskTokenUsage('task-GENERATE_CODE')!.calls).toBe(1);
+  });
+
+  it('should fail when every model fails', async () => {
+    const agent = new AskAgent({ model: 'broken-primary', fallbackModels: ['broken-secondary'] });
+
+    await expect(agent.executeTask(createTask(AgentTaskType.GENERATE_CODE))).rejects.toThrow('Provider unavailable');
+  });
+});
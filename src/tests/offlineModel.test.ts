@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { FakeChatModel } from '../llm/FakeChatModel';
+import { Cassette } from '../llm/Cassette';
+import { createLanguageModel, getModelProvider } from '../llm/ModelProvider';
+import { hashMessages } from '../llm/promptHash';
+
+describe('Offline LLM support', () => {
+  const messages = [new SystemMessage('You are a helpful assistant'), new HumanMessage('Create a button')];
+
+  it('should answer with scripted responses keyed by prompt hash', async () => {
+    const model = new FakeChatModel({
+      responses: { [hashMessages(messages)]: '{"components":["Button"]}' },
+      defaultResponse: 'fallback'
+    });
+
+    expect((await model.invoke(messages)).content).toBe('{"components":["Button"]}');
+    expect((await model.invoke([new HumanMessage('Something else')])).content).toBe('fallback');
+    expect(model.getUnmatchedHashes()).toEqual([hashMessages([new HumanMessage('Something else')])]);
+  });
+
+  it('should resolve the fake provider without API keys', () => {
+    expect(getModelProvider('fake').requiredEnvVars).toEqual([]);
+    expect(createLanguageModel('fake')).toBeInstanceOf(FakeChatModel);
+    expect(() => createLanguageModel('llama-3')).toThrow('Unsupported model: llama-3');
+  });
+
+  describe('Cassette', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should record exchanges and replay them without invoking the model', async () => {
+      const recorded = { content: 'recorded response', usage: { promptTokens: 12, completionTokens: 3 } };
+      const invoke = jest.fn(() => Promise.resolve(recorded));
+
+      await expect(new Cassette({ mode: 'record', directory }).run(messages, invoke)).resolves.toEqual(recorded);
+      expect(await fs.readdir(directory)).toEqual([`${hashMessages(messages)}.json`]);
+
+      const replayInvoke = jest.fn(() => Promise.resolve({ content: 'live response' }));
+      await expect(new Cassette({ mode: 'replay', directory }).run(messages, replayInvoke)).resolves.toEqual(recorded);
+      expect(replayInvoke).not.toHaveBeenCalled();
+    });
+
+    it('should fail replay for prompts that were never recorded', async () => {
+      await expect(new Cassette({ mode: 'replay', directory }).run(messages, () => Promise.resolve({ content: 'x' })))
+        .rejects.toThrow(`No recorded LLM response for prompt ${hashMessages(messages)}`);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { OutputWriter, collectGeneratedFiles, mergeContent } from '../output/OutputWriter';
+import { createUnifiedDiff } from '../output/diff';
+import { AgentTaskType, AgentType, FileType, GeneratedFile, TaskStatus, WorkflowStep } from '../types';
+
+describe('OutputWriter', () => {
+  let directory: string;
+
+  const file = (filePath: string, content: string, type: FileType = FileType.COMPONENT): GeneratedFile => ({
+    path: filePath,
+    content,
+    type,
+    description: filePath
+  });
+
+  const read = (filePath: string) => fs.readFile(path.join(directory, filePath), 'utf-8');
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'output-writer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should create new files and report unchanged ones', async () => {
+    const writer = new OutputWriter({ rootDir: directory });
+
+    const [created] = await writer.write([file('src/components/Button.tsx', 'export const Button = 1;\n')]);
+    expect(created).toMatchObject({ action: 'create', conflict: false, dryRun: false });
+    expect(created.diff).toContain('--- /dev/null');
+    expect(await read('src/components/Button.tsx')).toBe('export const Button = 1;\n');
+
+    const [unchanged] = await writer.write([file('src/components/Button.tsx', 'export const Button = 1;\n')]);
+    expect(unchanged).toMatchObject({ action: 'unchanged', conflict: false });
+    expect(unchanged.diff).toBeUndefined();
+  });
+
+  it('should apply the strategy of the file type on conflicts', async () => {
+    await fs.writeFile(path.join(directory, 'Button.tsx'), 'old\n');
+    await fs.writeFile(path.join(directory, 'README.md'), 'project docs\n');
+
+    const writer = new OutputWriter({ rootDir: directory });
+    const results = await writer.write([
+      file('Button.tsx', 'new\n'),
+      file('README.md', 'generated docs\n', FileType.DOCUMENTATION)
+    ]);
+
+    expect(results.map(r => [r.action, r.conflict])).toEqual([['overwrite', true], ['skip', true]]);
+    expect(await read('Button.tsx')).toBe('new\n');
+    expect(await read('README.md')).toBe('project docs\n');
+  });
+
+  it('should only compute diffs in dry-run mode', async () => {
+    await fs.writeFile(path.join(directory, 'Button.tsx'), 'a\nb\nc\n');
+
+    const writer = new OutputWriter({ rootDir: directory, dryRun: true });
+    const results = await writer.write([file('Button.tsx', 'a\nB\nc\n'), file('Card.tsx', 'card\n')]);
+
+    expect(results.map(r => r.action)).toEqual(['overwrite', 'create']);
+    expect(results[0].dryRun).toBe(true);
+    expect(results[0].diff).toBe('--- a/Button.tsx\n+++ b/Button.tsx\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+    expect(await read('Button.tsx')).toBe('a\nb\nc\n');
+    await expect(fs.access(path.join(directory, 'Card.tsx'))).rejects.toThrow();
+  });
+
+  it('should merge files with conflict markers for changed lines', async () => {
+    await fs.writeFile(path.join(directory, 'Button.tsx'), 'import a;\n\nconst x = 1;\nexport default x;\n');
+
+    const writer = new OutputWriter({ rootDir: directory, strategies: { [FileType.COMPONENT]: 'merge' } });
+    const [result] = await writer.write([file('Button.tsx', 'import a;\nimport b;\n\nconst x = 2;\nexport default x;\n')]);
+
+    expect(result.action).toBe('merge');
+    expect(await read('Button.tsx')).toBe([
+      'import a;',
+      'import b;',
+      '',
+      '<<<<<<< existing',
+      'const x = 1;',
+      '=======',
+      'const x = 2;',
+      '>>>>>>> generated',
+      'export default x;',
+      ''
+    ].join('\n'));
+  });
+
+  it('should deep merge JSON keeping existing values', () => {
+    const merged = mergeContent(
+      'package.json',
+      JSON.stringify({ name: 'app', scripts: { test: 'jest' }, files: ['dist'] }),
+      JSON.stringify({ name: 'generated', scripts: { lint: 'eslint' }, files: ['dist', 'types'] })
+    );
+
+    expect(JSON.parse(merged)).toEqual({
+      name: 'app',
+      scripts: { test: 'jest', lint: 'eslint' },
+      files: ['dist', 'types']
+    });
+  });
+
+  it('should refuse to write outside the output directory', async () => {
+    const writer = new OutputWriter({ rootDir: directory });
+
+    await expect(writer.write([file('../escape.tsx', 'x')])).rejects.toThrow('Refusing to write outside the output directory');
+  });
+
+  it('should collect files and tests from step outputs, later steps winning', () => {
+    const step = (id: string, output: any): WorkflowStep => ({
+      id,
+      name: id,
+      agentType: AgentType.CODE_GENERATOR,
+      taskType: AgentTaskType.GENERATE_CODE,
+      dependencies: [],
+      input: {},
+      output,
+      status: TaskStatus.COMPLETED,
+      retryCount: 0
+    });
+
+    const files = collectGeneratedFiles([
+      step('analyze', { requirements: [] }),
+      step('generate', { files: [file('A.tsx', 'v1')], tests: [file('A.test.tsx', 't', FileType.TEST)] }),
+      step('regenerate', { files: [file('A.tsx', 'v2')], tests: [] })
+    ]);
+
+    expect(files.map(f => [f.path, f.content])).toEqual([['A.tsx', 'v2'], ['A.test.tsx', 't']]);
+  });
+
+  it('should create separate hunks for distant changes', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const newText = oldText.replace('line 2\n', 'line two\n').replace('line 19', 'line nineteen');
+
+    const diff = createUnifiedDiff(oldText, newText, 'a', 'b');
+
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    expect(createUnifiedDiff(oldText, oldText, 'a', 'b')).toBe('');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import vm from 'vm';
+import { PreviewBuilder } from '../preview/PreviewBuilder';
+import { PREVIEW_RUNTIME } from '../preview/runtime';
+import { FileType, GeneratedFile } from '../types';
+
+describe('PreviewBuilder', () => {
+  const builder = new PreviewBuilder({ fixtures: { Button: { label: 'Save' } } });
+
+  it('should build a self-contained React preview with styles and fixtures', () => {
+    const files: GeneratedFile[] = [
+      {
+        path: 'src/components/Button/Button.tsx',
+        content: 'import \'./Button.css\';\nexport const Button = ({ label }: { label: string }) => <button className="btn">{label}</button>;',
+        type: FileType.COMPONENT,
+        description: ''
+      },
+      {
+        path: 'src/components/Button/Button.css',
+        content: '.btn { color: #ff0000; }',
+        type: FileType.STYLE,
+        description: ''
+      },
+      {
+        path: 'src/components/Button/Button.test.tsx',
+        content: 'it(\'renders\', () => {});',
+        type: FileType.TEST,
+        description: ''
+      }
+    ];
+
+    const [page] = builder.buildAll(files, 'React', 'CSS');
+
+    expect(page.componentName).toBe('Button');
+    expect(page.framework).toBe('React');
+    expect(page.html).toContain('.btn { color: #ff0000; }');
+    expect(page.html).toContain('__preview.define("src/components/Button/Button.tsx"');
+    expect(page.html).not.toContain('Button.test.tsx');
+    expect(page.html).toContain('{"label":"Save"}');
+    expect(page.html).not.toMatch(/<script src=/);
+  });
+
+  it('should render Vue templates statically with props', () => {
+    const page = builder.buildPage({
+      component: {
+        path: 'src/components/Card/Card.vue',
+        content: '<template>\n  <div class="card" :class="{ active }" @click="open">{{ title }}<slot /></div>\n</template>\n<style scoped>.card { padding: 8px; }</style>',
+        type: FileType.COMPONENT,
+        description: ''
+      },
+      files: [],
+      props: { title: 'Hello', children: '<b>' }
+    });
+
+    expect(page.framework).toBe('Vue');
+    expect(page.html).toContain('<div class="card">Hello&lt;b&gt;</div>');
+    expect(page.html).toContain('.card { padding: 8px; }');
+  });
+
+  it('should fail loudly on React APIs outside the supported subset', () => {
+    const window: { [key: string]: any } = {};
+    vm.runInNewContext(PREVIEW_RUNTIME, { window });
+    const { React, ReactDOM } = window.__preview;
+
+    expect(typeof React.useState).toBe('function');
+    expect(React.__esModule).toBeUndefined();
+    expect(React.$$typeof).toBeUndefined();
+    expect(() => React.useTransition()).toThrow('React.useTransition is not supported by the preview runtime');
+    expect(() => React.useOptimistic).toThrow('React.useOptimistic is not supported by the preview runtime');
+    expect(() => ReactDOM.createPortal()).toThrow('ReactDOM.createPortal is not supported by the preview runtime');
+    expect(Object.keys(React)).toContain('Component');
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectScanner, describeProjectContext, readProjectComponent } from '../project/ProjectScanner';
+
+describe('ProjectScanner', () => {
+  let directory: string;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(directory, file)), { recursive: true });
+    await fs.writeFile(path.join(directory, file), content);
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'project-scan-'));
+
+    await write('package.json', JSON.stringify({
+      name: 'web-app',
+      dependencies: { 'react': '^18.0.0', 'react-dom': '^18.0.0', '@mui/material': '^5.0.0', 'tailwindcss': '^3.0.0' },
+      devDependencies: { 'typescript': '^5.0.0', 'jest': '^29.0.0' }
+    }));
+    await write('tsconfig.json', `{
+      // comments and trailing commas are allowed here
+      "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["./src/*"], }, },
+    }`);
+    await write('.eslintrc.json', '{}');
+    await write('.prettierrc', '{ "semi": false, "singleQuote": true }');
+    await write('src/components/Button/Button.tsx', 'export const Button = () => <button className="btn" />;\n');
+    await write('src/components/Button/Button.test.tsx', 'test');
+    await write('src/components/user-card/index.tsx', 'export default function UserCard() { return null; }\n');
+    await write('src/pages/Home.tsx', 'export const Home = () => null;\n');
+    await write('node_modules/lib/Foo.tsx', 'ignored');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should detect stack, aliases, conventions and existing components', async () => {
+    const context = await new ProjectScanner().scan(directory);
+
+    expect(context).toMatchObject({
+      name: 'web-app',
+      language: 'TypeScript',
+      framework: 'React',
+      styling: 'Tailwind',
+      uiLibraries: ['@mui/material'],
+      testFramework: 'jest',
+      importAliases: { '@/*': 'src/*' },
+      componentDir: 'src/components',
+      lintConfigs: ['.eslintrc.json', '.prettierrc'],
+      formatting: { semi: false, singleQuote: true }
+    });
+    expect(context.components).toEqual([
+      { name: 'Button', path: 'src/components/Button/Button.tsx' },
+      { name: 'UserCard', path: 'src/components/user-card/index.tsx' },
+      { name: 'Home', path: 'src/pages/Home.tsx' }
+    ]);
+    expect(context.dependencies).toContain('react');
+    expect(context.sampleComponent?.path).toMatch(/^src\/components\//);
+  });
+
+  it('should condense the context for prompts and read existing components', async () => {
+    const context = await new ProjectScanner().scan(directory);
+    const description = describeProjectContext(context);
+
+    expect(description).toContain('Project: web-app (TypeScript, React, Tailwind)');
+    expect(description).toContain('Import aliases: @/* -> src/*');
+    expect(description).toContain('Existing components (reuse instead of recreating): Button, UserCard, Home');
+    expect(description).toContain('single quotes, no semicolons');
+    expect(description).not.toContain('Example component');
+    expect(describeProjectContext(context, { includeSample: true })).toContain('Example component');
+
+    expect(await readProjectComponent(context, 'Button')).toContain('className="btn"');
+    expect(await readProjectComponent(context, 'Modal')).toBeUndefined();
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseAgent } from '../agents/BaseAgent';
+import { PromptLibrary } from '../prompts/PromptLibrary';
+import { getTemplateVariables, parsePromptTemplate, renderPromptTemplate } from '../prompts/PromptTemplate';
+import { AgentTask, AgentTaskType, AgentType, TaskPriority, TaskStatus } from '../types';
+
+class TemplateAgent extends BaseAgent {
+  constructor(promptTemplatesDir: string) {
+    super({
+      id: 'template-agent',
+      name: 'Template Agent',
+      type: AgentType.PROMPT_ANALYZER,
+      model: 'fake',
+      capabilities: [{
+        name: 'Template',
+        description: 'Renders a prompt template',
+        requiredServices: [],
+        supportedOperations: [AgentTaskType.ANALYZE_PROMPT]
+      }],
+      maxConcurrentTasks: 1,
+      retryAttempts: 1,
+      timeout: 0,
+      promptTemplatesDir
+    });
+  }
+
+  protected async performTask(task: AgentTask): Promise<any> {
+    return this.renderPrompt('prompt-analysis', task.input);
+  }
+}
+
+describe('Prompt templates', () => {
+  const template = parsePromptTemplate({
+    name: 'greeting',
+    version: '2',
+    system: 'You greet {{ user.name }}',
+    user: ['Say hello to {{user.name}}', 'Context: {{context}}']
+  });
+
+  it('should interpolate variables including nested values', () => {
+    expect(getTemplateVariables(template)).toEqual(['user.name', 'context']);
+    expect(renderPromptTemplate(template, { user: { name: 'Ann' }, context: { page: 1 } })).toEqual({
+      system: 'You greet Ann',
+      user: 'Say hello to Ann\nContext: {"page":1}',
+      template: 'greeting@2'
+    });
+  });
+
+  it('should fail on missing variables and invalid templates', () => {
+    expect(() => renderPromptTemplate(template, { user: {} }))
+      .toThrow('Missing variable "user.name" for prompt template greeting@2');
+    expect(() => parsePromptTemplate({ name: 'bad name', version: '1', system: '', user: '' }))
+      .toThrow('name: Template name may only contain');
+  });
+
+  describe('PromptLibrary', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-templates-'));
+      await fs.writeFile(path.join(directory, 'prompt-analysis.json'), JSON.stringify({
+        name: 'prompt-analysis',
+        version: '1.1.0-acme',
+        system: 'You are the ACME requirements analyst.',
+        user: 'Analyze for ACME: {{prompt}}'
+      }));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should render every built-in template', async () => {
+      const library = new PromptLibrary();
+
+      expect(await library.list()).toEqual([
+        'prompt-analysis@1.1.0',
+        'jira-analysis@1.3.0',
+        'figma-implementation-guidance@1.0.0',
+        'qa-design-comparison@1.0.0'
+      ]);
+
+      for (const name of ['prompt-analysis', 'jira-analysis', 'figma-implementation-guidance', 'qa-design-comparison']) {
+        const builtIn = await library.get(name);
+        const variables = Object.fromEntries(getTemplateVariables(builtIn).map(variable => [variable, 'value']));
+        expect(renderPromptTemplate(builtIn, variables).user).not.toContain('{{');
+      }
+    });
+
+    it('should prefer project overrides and keep pinned built-in versions available', async () => {
+      const library = new PromptLibrary(directory);
+
+      expect((await library.render('prompt-analysis', { prompt: 'Login form' })).user).toBe('Analyze for ACME: Login form');
+      expect((await library.get('prompt-analysis', '1.1.0')).user).toContain('{{prompt}}');
+      await expect(library.get('prompt-analysis', '9')).rejects.toThrow('Unknown version 9 of prompt template prompt-analysis');
+      await expect(library.get('missing')).rejects.toThrow('Unknown prompt template: missing');
+    });
+
+    it('should record the template version used by a task', async () => {
+      const agent = new TemplateAgent(directory);
+      const task: AgentTask = {
+        id: 'task-1',
+        type: AgentTaskType.ANALYZE_PROMPT,
+        description: 'Test task',
+        priority: TaskPriority.MEDIUM,
+        dependencies: [],
+        input: { prompt: 'Login form' },
+        status: TaskStatus.PENDING,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await agent.executeTask(task);
+
+      expect(agent.getTaskPromptTemplates('task-1')).toEqual(['prompt-analysis@1.1.0-acme']);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PermanentTaskError } from '../utils/errors';
+import { RetryPolicy } from '../utils/RetryPolicy';
+
+const httpError = (status: number, headers: { [key: string]: string } = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, headers }
+  });
+
+describe('RetryPolicy', () => {
+  it('should classify transient and permanent errors', () => {
+    expect(RetryPolicy.isRetryableError(httpError(429))).toBe(true);
+    expect(RetryPolicy.isRetryableError(httpError(503))).toBe(true);
+    expect(RetryPolicy.isRetryableError(httpError(404))).toBe(false);
+    expect(RetryPolicy.isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(RetryPolicy.isRetryableError(new PermanentTaskError('UNSUPPORTED_TASK', 'Unsupported task type: DEPLOY'))).toBe(false);
+    // Only typed errors are permanent, free text from upstream services is not classified
+    expect(RetryPolicy.isRetryableError(new Error('Field approver is required to transition'))).toBe(true);
+    expect(RetryPolicy.isRetryableError(new Error('Task task-1 timed out after 20ms'))).toBe(true);
+    expect(RetryPolicy.isRetryableError(new PermanentTaskError('VALIDATION_FAILED', 'Generated code has 1 errors'))).toBe(false);
+    expect(RetryPolicy.isRetryableError(Object.assign(new Error('Failed: boom'), { cause: new PermanentTaskError('INVALID_INPUT', 'boom') }))).toBe(false);
+  });
+
+  it('should read the status of wrapped client errors', () => {
+    const wrapped = Object.assign(new Error('Failed to fetch Jira task DEV-1: boom'), { cause: httpError(404) });
+
+    expect(RetryPolicy.getStatusCode(wrapped)).toBe(404);
+    expect(RetryPolicy.getStatusCode(new Error('Failed to fetch Figma design: AxiosError: Request failed with status code 502'))).toBe(502);
+  });
+
+  it('should stop retrying after max attempts or on permanent errors', () => {
+    const policy = new RetryPolicy({ maxAttempts: 3 });
+
+    expect(policy.shouldRetry(httpError(500), 1)).toBe(true);
+    expect(policy.shouldRetry(httpError(500), 3)).toBe(false);
+    expect(policy.shouldRetry(httpError(400), 1)).toBe(false);
+    expect(new RetryPolicy({ isRetryable: () => true }).shouldRetry(httpError(400), 1)).toBe(true);
+  });
+
+  it('should back off exponentially with jitter up to the max delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const policy = new RetryPolicy({ initialDelayMs: 100, backoffFactor: 2, maxDelayMs: 500, jitter: 0.5 });
+
+    expect(policy.getDelay(new Error('boom'), 1)).toBe(50);
+    expect(policy.getDelay(new Error('boom'), 3)).toBe(200);
+    expect(policy.getDelay(new Error('boom'), 10)).toBe(250);
+
+    jest.restoreAllMocks();
+  });
+
+  it('should honor Retry-After on rate limited responses', () => {
+    const policy = new RetryPolicy({ maxDelayMs: 60000 });
+
+    expect(policy.getDelay(httpError(429, { 'retry-after': '7' }), 1)).toBe(7000);
+    expect(policy.getDelay(httpError(429, { 'retry-after': '3600' }), 1)).toBe(60000);
+    expect(policy.getDelay(httpError(429, { 'retry-after': new Date(Date.now() + 60000).toUTCString() }), 1)).toBeGreaterThan(50000);
+  });
+});
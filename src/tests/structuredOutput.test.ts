@@ -0,0 +1,71 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PromptAnalysisResult, PromptAnalyzerAgent } from '../agents/PromptAnalyzerAgent';
+import { AgentTask, AgentTaskType, TaskPriority, TaskStatus } from '../types';
+
+const createTask = (prompt: string): AgentTask => ({
+  id: 'task-1',
+  type: AgentTaskType.ANALYZE_PROMPT,
+  description: 'Test task',
+  priority: TaskPriority.MEDIUM,
+  dependencies: [],
+  input: { prompt },
+  status: TaskStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const createAgent = (responses: string[]) => {
+  const agent = new PromptAnalyzerAgent({
+    id: 'test-prompt-analyzer',
+    name: 'Test Prompt Analyzer',
+    model: 'fake',
+    maxConcurrentTasks: 1,
+    retryAttempts: 1,
+    timeout: 5000,
+    structuredOutputRetries: 1
+  });
+
+  const generateResponse = jest.spyOn(agent as any, 'generateResponse');
+  responses.forEach(response => generateResponse.mockImplementationOnce(() => Promise.resolve(response)));
+
+  return { agent, generateResponse };
+};
+
+const validAnalysis = {
+  mainGoal: 'Login form',
+  technicalRequirements: ['Validation'],
+  complexity: 'Simple'
+};
+
+describe('Structured LLM output', () => {
+  it('should re-prompt with validation errors and return the corrected result', async () => {
+    const { agent, generateResponse } = createAgent([
+      'Sure! {"mainGoal": "Login form", "complexity": "Hard"}',
+      '```json\n' + JSON.stringify(validAnalysis) + '\n```'
+    ]);
+
+    const result: PromptAnalysisResult = await agent.executeTask(createTask('Create a login form'));
+
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+    expect(generateResponse.mock.calls[1][1]).toContain('complexity: Invalid enum value');
+    expect(result.analysis).toEqual({
+      ...validAnalysis,
+      uiRequirements: [],
+      functionalRequirements: [],
+      estimatedTime: '2-4 hours',
+      suggestedFramework: 'React',
+      suggestedStyling: 'CSS'
+    });
+  });
+
+  it('should fall back after the configured number of re-prompts', async () => {
+    const { agent, generateResponse } = createAgent(['not json', '{"mainGoal": ""}']);
+
+    const result: PromptAnalysisResult = await agent.executeTask(createTask('Create a data table with an API'));
+
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+    expect(generateResponse.mock.calls[1][1]).toContain('Response is not valid JSON');
+    expect(result.analysis.mainGoal).not.toBe('');
+    expect(result.analysis.complexity).toBeDefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { QATesterAgent } from '../agents/QATesterAgent';
+import { TestRunner } from '../testing/TestRunner';
+import { AgentTask, AgentTaskType, FileType, GeneratedFile, TaskPriority, TaskStatus, TestRunReport } from '../types';
+
+const file = (filePath: string, content: string, type: FileType = FileType.COMPONENT): GeneratedFile => ({
+  path: filePath,
+  content,
+  type,
+  description: filePath
+});
+
+const SOURCE = file('src/utils/format.ts', `export const formatPrice = (value: number) => \`$\${value.toFixed(2)}\`;
+
+export const formatDiscount = (value: number) => (value > 0 ? \`-\${value}%\` : '');
+`);
+
+const PASSING_TEST = file('src/utils/format.test.ts', `import { formatPrice } from './format';
+
+describe('formatPrice', () => {
+  it('formats cents', () => {
+    expect(formatPrice(3)).toBe('$3.00');
+  });
+});
+`, FileType.TEST);
+
+describe('TestRunner', () => {
+  it('should report passed, failed and broken suites with coverage', async () => {
+    const report = await new TestRunner().run([
+      SOURCE,
+      PASSING_TEST,
+      file('src/utils/discount.test.ts', `import { formatDiscount } from './format';
+
+it('formats discounts', () => {
+  expect(formatDiscount(10)).toBe('10%');
+});
+`, FileType.TEST),
+      file('src/utils/broken.test.ts', `import { missing } from 'not-installed-package';
+
+it('never runs', () => expect(missing).toBeDefined());
+`, FileType.TEST)
+    ]);
+
+    expect(report).toMatchObject({ status: 'failed', passed: 1, failed: 1, skipped: 0 });
+
+    const suites = Object.fromEntries(report.suites.map(s => [s.file, s]));
+    expect(suites['src/utils/format.test.ts'].status).toBe('passed');
+    expect(suites['src/utils/discount.test.ts'].failures).toEqual([
+      { test: 'formats discounts', message: expect.stringContaining('Expected: "10%"') }
+    ]);
+    expect(suites['src/utils/discount.test.ts'].failures[0].message).not.toContain('node_modules');
+    expect(suites['src/utils/broken.test.ts']).toMatchObject({
+      status: 'error',
+      message: expect.stringContaining("Cannot find module 'not-installed-package'")
+    });
+    expect(report.coverage?.functions).toBe(100);
+  }, 60000);
+
+  it('should skip when no runnable tests were generated', async () => {
+    const report = await new TestRunner().run([SOURCE, file('src/Card.test.vue', '', FileType.TEST)]);
+
+    expect(report).toMatchObject({ status: 'skipped', passed: 0, failed: 0, suites: [] });
+  });
+});
+
+describe('QATesterAgent unit test execution', () => {
+  it('should run the tests of the validated file set', async () => {
+    const agent = new QATesterAgent({
+      id: 'test-qa',
+      name: 'Test QA Agent',
+      model: 'gpt-3.5-turbo',
+      maxConcurrentTasks: 2,
+      retryAttempts: 1,
+      timeout: 60000
+    });
+
+    const task: AgentTask = {
+      id: 'task-1',
+      type: AgentTaskType.RUN_TESTS,
+      description: 'Run generated tests',
+      priority: TaskPriority.MEDIUM,
+      dependencies: [],
+      input: {
+        generate_code: { files: [SOURCE], tests: [], documentation: '', dependencies: [], buildCommands: [] },
+        validate_code: { files: [SOURCE], tests: [PASSING_TEST], documentation: '', dependencies: [], buildCommands: [] }
+      },
+      status: TaskStatus.PENDING,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const report: TestRunReport = await agent.executeTask(task);
+
+    expect(report).toMatchObject({ status: 'passed', passed: 1, failed: 0 });
+    expect(report.coverage?.lines).toBeGreaterThan(0);
+  }, 60000);
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseAgent } from '../agents/BaseAgent';
+import { MainCoordinatorAgent } from '../agents/MainCoordinatorAgent';
+import { addUsage, createUsage } from '../llm/usage';
+import { AgentTask, AgentTaskType, AgentType, TaskStatus, WorkflowBudget } from '../types';
+
+class EchoAgent extends BaseAgent {
+  constructor(type: AgentType, taskType: AgentTaskType) {
+    super({
+      id: `echo-${type}`,
+      name: `Echo ${type}`,
+      type,
+      model: 'fake',
+      capabilities: [{
+        name: 'Echo',
+        description: 'Sends the input to the model',
+        requiredServices: [],
+        supportedOperations: [taskType]
+      }],
+      maxConcurrentTasks: 1,
+      retryAttempts: 1,
+      timeout: 0
+    });
+  }
+
+  protected async performTask(task: AgentTask, signal: AbortSignal): Promise<any> {
+    return { text: await this.generateResponse('You echo things', JSON.stringify(task.input), undefined, signal) };
+  }
+}
+
+describe('Token usage accounting', () => {
+  it('should price calls by model and sum usage', () => {
+    const usage = createUsage('gpt-4-turbo-preview', { promptTokens: 1000, completionTokens: 500 });
+
+    expect(usage).toEqual({ promptTokens: 1000, completionTokens: 500, totalTokens: 1500, costUsd: 0.025, calls: 1 });
+    expect(createUsage('gpt-4o-mini', { promptTokens: 1000000, completionTokens: 0 }).costUsd).toBeCloseTo(0.15);
+    expect(addUsage(usage, undefined, usage)).toEqual({ promptTokens: 2000, completionTokens: 1000, totalTokens: 3000, costUsd: 0.05, calls: 2 });
+  });
+
+  describe('workflows', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'token-usage-'));
+      await fs.mkdir(path.join(directory, 'definitions'));
+      await fs.writeFile(path.join(directory, 'definitions', 'echo.json'), JSON.stringify({
+        name: 'echo',
+        kind: 'PROMPT',
+        steps: [
+          { name: 'Analyze Prompt', agentType: 'PROMPT_ANALYZER', taskType: 'ANALYZE_PROMPT', input: { prompt: '{{source}}' } },
+          { name: 'Generate Code', agentType: 'CODE_GENERATOR', taskType: 'GENERATE_CODE', dependencies: ['Analyze Prompt'] }
+        ]
+      }));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    const runWorkflow = async (budget?: WorkflowBudget) => {
+      const coordinator = new MainCoordinatorAgent({
+        id: 'coordinator',
+        name: 'Coordinator',
+        model: 'fake',
+        maxConcurrentTasks: 1,
+        retryAttempts: 1,
+        timeout: 0,
+        workflowStateDir: path.join(directory, 'state'),
+        workflowDefinitionsDir: path.join(directory, 'definitions'),
+        budget
+      });
+      coordinator.registerAgent(new EchoAgent(AgentType.PROMPT_ANALYZER, AgentTaskType.ANALYZE_PROMPT));
+      coordinator.registerAgent(new EchoAgent(AgentType.CODE_GENERATOR, AgentTaskType.GENERATE_CODE));
+
+      await coordinator.processPrompts(['Create a button'], 'echo');
+
+      return { coordinator, state: (await coordinator.listWorkflows())[0] };
+    };
+
+    it('should aggregate usage per step, workflow and agent', async () => {
+      const { coordinator, state } = await runWorkflow();
+
+      expect(state.status).toBe(TaskStatus.COMPLETED);
+      expect(state.steps.every(step => step.tokenUsage!.calls === 1)).toBe(true);
+      expect(state.tokenUsage!.calls).toBe(2);
+      expect(state.tokenUsage!.totalTokens).toBeGreaterThan(0);
+
+      const status = coordinator.getAgentsStatus();
+      expect(status.agents[AgentType.PROMPT_ANALYZER].tokenUsage.calls).toBe(1);
+      expect(status.tokenUsage.totalTokens).toBe(state.tokenUsage!.totalTokens);
+    });
+
+    it('should fail the workflow when the budget is exceeded', async () => {
+      const { state } = await runWorkflow({ maxTokens: 1, onExceeded: 'fail' });
+
+      expect(state.status).toBe(TaskStatus.FAILED);
+      expect(state.error).toContain('Workflow budget exceeded');
+      expect(state.steps[1].status).toBe(TaskStatus.PENDING);
+    });
+
+    it('should downgrade the model of remaining steps when the budget is exceeded', async () => {
+      const { state } = await runWorkflow({ maxTokens: 1, onExceeded: 'downgrade', downgradeModel: 'fake-small' });
+
+      expect(state.status).toBe(TaskStatus.COMPLETED);
+      expect(state.budgetExceeded).toBe(true);
+      expect(state.steps[0].model).toBeUndefined();
+      expect(state.steps[1].model).toBe('fake-small');
+    });
+  });
+});
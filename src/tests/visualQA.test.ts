@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import { QAReport, QATesterAgent } from '../agents/QATesterAgent';
+import { AgentTask, AgentTaskType, FigmaDesign, FileType, TaskPriority, TaskStatus } from '../types';
+
+// 8x8 white image with a blue 6x4 button in the middle
+const REFERENCE = path.join(__dirname, 'fixtures', 'button.png');
+
+const createTask = (designs: FigmaDesign[]): AgentTask => ({
+  id: 'qa-task',
+  type: AgentTaskType.CREATE_TESTS,
+  description: 'Visual QA',
+  priority: TaskPriority.MEDIUM,
+  dependencies: [],
+  input: {
+    extract_figma_design: { designs },
+    generate_code: {
+      files: [{ path: 'src/components/Button/Button.tsx', content: 'export const Button = () => <button>Pay</button>;', type: FileType.COMPONENT, description: '' }],
+      tests: []
+    }
+  },
+  status: TaskStatus.PENDING,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const design = (overrides: Partial<FigmaDesign> = {}): FigmaDesign => ({
+  fileKey: 'abc123',
+  nodeId: '1:2',
+  name: 'Button',
+  type: 'FRAME',
+  url: 'https://www.figma.com/file/abc123/Checkout?node-id=1-2',
+  imageUrl: REFERENCE,
+  specifications: [{ property: 'width', value: '120', unit: 'px' }],
+  ...overrides
+});
+
+/**
+ * The reference with the top `rows` rows painted black, as a stand-in for a browser screenshot
+ */
+const screenshotWithChangedRows = async (rows: number): Promise<Buffer> => {
+  const image = PNG.sync.read(await fs.readFile(REFERENCE));
+  image.data.fill(0, 0, rows * image.width * 4);
+  for (let i = 3; i < rows * image.width * 4; i += 4) {
+    image.data[i] = 255;
+  }
+  return PNG.sync.write(image);
+};
+
+describe('Visual QA', () => {
+  let workDir: string;
+  let agent: QATesterAgent;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'visual-qa-'));
+    agent = new QATesterAgent({
+      id: 'test-qa',
+      name: 'Test QA',
+      model: 'fake',
+      maxConcurrentTasks: 1,
+      retryAttempts: 1,
+      timeout: 30000
+    }, {}, { workDir });
+
+    // Only the pixel comparison is under test; the model review and the browser are stubbed
+    jest.spyOn(agent as any, 'analyzeImplementation').mockImplementation(() => Promise.resolve([]));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should pass a rendering identical to the reference image', async () => {
+    const renderScreenshot = jest.spyOn(agent as any, 'renderScreenshot').mockImplementation(() => fs.readFile(REFERENCE));
+
+    const report: QAReport = await agent.executeTask(createTask([design()]));
+
+    expect(renderScreenshot).toHaveBeenCalledWith(expect.stringContaining('<html'), 8, 8);
+    expect(report.visualTests[0]).toMatchObject({ componentName: 'Button', passed: true, similarity: 100, mismatchedPixels: 0 });
+    expect(report.overallScore).toBe(100);
+    await expect(fs.access(report.visualTests[0].diffPath!)).resolves.toBeUndefined();
+  });
+
+  it('should fail a rendering below the similarity threshold', async () => {
+    jest.spyOn(agent as any, 'renderScreenshot').mockImplementation(() => screenshotWithChangedRows(1));
+
+    const report: QAReport = await agent.executeTask(createTask([design()]));
+
+    expect(report.visualTests[0]).toMatchObject({ passed: false, similarity: 87.5, mismatchedPixels: 8 });
+  });
+
+  it('should keep screenshots and diffs of different runs apart', async () => {
+    jest.spyOn(agent as any, 'renderScreenshot')
+      .mockImplementationOnce(() => fs.readFile(REFERENCE))
+      .mockImplementationOnce(() => screenshotWithChangedRows(2));
+
+    const first: QAReport = await agent.executeTask(createTask([design()]));
+    const second: QAReport = await agent.executeTask({ ...createTask([design()]), id: 'qa-task-2' });
+
+    expect(path.dirname(first.visualTests[0].screenshotPath)).not.toBe(path.dirname(second.visualTests[0].screenshotPath));
+    const firstScreenshot = PNG.sync.read(await fs.readFile(first.visualTests[0].screenshotPath));
+    expect(firstScreenshot.data.equals(PNG.sync.read(await fs.readFile(REFERENCE)).data)).toBe(true);
+  });
+
+  it('should download Figma reference images again when the file version changes', async () => {
+    jest.spyOn(agent as any, 'renderScreenshot').mockImplementation(() => fs.readFile(REFERENCE));
+    const get = jest.mocked(axios.get).mockImplementation(async () => ({ data: await fs.readFile(REFERENCE) }) as any);
+    const figmaImage = { imageUrl: 'https://figma-images/1-2.png', version: '100' };
+
+    await agent.executeTask(createTask([design(figmaImage)]));
+    await agent.executeTask({ ...createTask([design(figmaImage)]), id: 'qa-task-2' });
+    expect(get).toHaveBeenCalledTimes(1);
+
+    const report: QAReport = await agent.executeTask({ ...createTask([design({ ...figmaImage, version: '101' })]), id: 'qa-task-3' });
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(report.visualTests[0].referencePath).toContain('abc123_101_1_2.png');
+  });
+
+  it('should fall back to the specification check without a reference image', async () => {
+    const renderScreenshot = jest.spyOn(agent as any, 'renderScreenshot');
+
+    const report: QAReport = await agent.executeTask(createTask([design({ imageUrl: undefined })]));
+
+    expect(renderScreenshot).not.toHaveBeenCalled();
+    expect(report.visualTests[0].passed).toBe(false);
+    expect(report.visualTests[0].screenshotPath).toBe('');
+    expect(report.visualTests[0].issues).toEqual([expect.objectContaining({ description: 'Pixel comparison could not be performed' })]);
+  });
+
+  it('should not swallow the design review failure once the task is aborted', async () => {
+    jest.mocked((agent as any).analyzeImplementation).mockRestore();
+    jest.spyOn(agent as any, 'renderScreenshot').mockImplementation(() => fs.readFile(REFERENCE));
+    const controller = new AbortController();
+    jest.spyOn(agent as any, 'generateStructured').mockImplementation(() => {
+      controller.abort(new Error('Agent stopped'));
+      return Promise.reject(new Error('Request aborted'));
+    });
+
+    await expect((agent as any).performTask(createTask([design()]), controller.signal)).rejects.toThrow('Request aborted');
+  });
+});
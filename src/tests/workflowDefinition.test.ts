@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createWorkflowSteps, parseWorkflowDefinition } from '../workflow/WorkflowDefinition';
+import { WorkflowRegistry } from '../workflow/WorkflowRegistry';
+import { AgentTaskType, TaskStatus, WorkflowKind } from '../types';
+
+describe('Workflow definitions', () => {
+  const baseDefinition = () => ({
+    name: 'custom',
+    kind: 'PROMPT',
+    steps: [
+      {
+        name: 'Analyze Prompt',
+        agentType: 'PROMPT_ANALYZER',
+        taskType: 'ANALYZE_PROMPT',
+        input: { prompt: '{{source}}', context: 'Request: {{source}}' }
+      },
+      {
+        name: 'Generate Code',
+        agentType: 'CODE_GENERATOR',
+        taskType: 'GENERATE_CODE',
+        dependencies: ['Analyze Prompt'],
+        inputMappings: { components: 'Analyze Prompt.components' }
+      }
+    ]
+  });
+
+  it('parses a valid definition and applies defaults', () => {
+    const definition = parseWorkflowDefinition(baseDefinition());
+
+    expect(definition.kind).toBe(WorkflowKind.PROMPT);
+    expect(definition.steps[0].dependencies).toEqual([]);
+    expect(definition.steps[1].input).toEqual({});
+  });
+
+  it('rejects unknown dependencies and mappings outside dependencies', () => {
+    const raw = baseDefinition();
+    raw.steps[1].dependencies = ['Analyze Jira Task'];
+
+    expect(() => parseWorkflowDefinition(raw, 'custom.json')).toThrow(
+      /Invalid custom\.json:[\s\S]*steps\.1\.dependencies\.0: Unknown dependency: Analyze Jira Task[\s\S]*inputMappings\.components/
+    );
+  });
+
+  it('rejects dependency cycles', () => {
+    const raw = baseDefinition();
+    (raw.steps[0] as any).dependencies = ['Generate Code'];
+
+    expect(() => parseWorkflowDefinition(raw)).toThrow(
+      'Dependency cycle detected: Analyze Prompt -> Generate Code -> Analyze Prompt'
+    );
+  });
+
+  it('rejects unknown agent and task types', () => {
+    const raw = baseDefinition();
+    raw.steps[0].taskType = 'DEPLOY';
+
+    expect(() => parseWorkflowDefinition(raw)).toThrow(/steps\.0\.taskType/);
+  });
+
+  it('creates pending steps with the source interpolated', () => {
+    const steps = createWorkflowSteps(parseWorkflowDefinition(baseDefinition()), 'Create a button');
+
+    expect(steps[0].input).toEqual({ prompt: 'Create a button', context: 'Request: Create a button' });
+    expect(steps[0].status).toBe(TaskStatus.PENDING);
+    expect(steps[1].taskType).toBe(AgentTaskType.GENERATE_CODE);
+    expect(steps[1].inputMappings).toEqual({ components: 'Analyze Prompt.components' });
+    expect(steps[0].id).not.toBe(steps[1].id);
+  });
+
+  describe('WorkflowRegistry', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-definitions-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('provides the built-in workflows', async () => {
+      const registry = new WorkflowRegistry(directory);
+
+      expect(await registry.list()).toEqual(expect.arrayContaining(['prompt', 'jira', 'design-only']));
+      expect((await registry.get('jira')).kind).toBe(WorkflowKind.JIRA);
+    });
+
+    it('loads custom definitions by name and by file path', async () => {
+      const filePath = path.join(directory, 'custom.json');
+      await fs.writeFile(filePath, JSON.stringify(baseDefinition()), 'utf-8');
+      const registry = new WorkflowRegistry(directory);
+
+      expect((await registry.get('custom')).steps).toHaveLength(2);
+      expect((await registry.get(filePath)).name).toBe('custom');
+      await expect(registry.get('missing')).rejects.toThrow('Unknown workflow: missing');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeGeneratorAgent } from '../agents/CodeGeneratorAgent';
+import { MainCoordinatorAgent } from '../agents/MainCoordinatorAgent';
+import { PromptAnalyzerAgent } from '../agents/PromptAnalyzerAgent';
+import { WorkflowStore } from '../workflow/WorkflowStore';
+import { TaskStatus } from '../types';
+
+const AGENT_CONFIG = {
+  model: 'fake',
+  maxConcurrentTasks: 2,
+  retryAttempts: 1,
+  structuredOutputRetries: 0,
+  timeout: 30000
+};
+
+const WORKFLOW = {
+  name: 'prompt-code',
+  description: 'Generate code for a prompt, validate it and open a pull request',
+  kind: 'PROMPT',
+  steps: [
+    { name: 'Analyze Prompt', agentType: 'PROMPT_ANALYZER', taskType: 'ANALYZE_PROMPT', dependencies: [], input: { prompt: '{{source}}' } },
+    { name: 'Generate Code', agentType: 'CODE_GENERATOR', taskType: 'GENERATE_CODE', dependencies: ['Analyze Prompt'] },
+    { name: 'Validate Code', agentType: 'CODE_GENERATOR', taskType: 'VALIDATE_CODE', dependencies: ['Generate Code'] },
+    { name: 'Create Pull Request', agentType: 'GITHUB_MANAGER', taskType: 'CREATE_PULL_REQUEST', dependencies: ['Validate Code'] }
+  ]
+};
+
+describe('Workflow output', () => {
+  let tempDir: string;
+  let outputDir: string;
+  let stateDir: string;
+  let coordinator: MainCoordinatorAgent;
+  let codeAgent: CodeGeneratorAgent;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-output-'));
+    outputDir = path.join(tempDir, 'out');
+    stateDir = path.join(tempDir, 'state');
+    await fs.mkdir(path.join(tempDir, 'definitions'));
+    await fs.writeFile(path.join(tempDir, 'definitions', 'prompt-code.json'), JSON.stringify(WORKFLOW));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    coordinator = new MainCoordinatorAgent({
+      ...AGENT_CONFIG,
+      id: 'test-coordinator',
+      name: 'Test Coordinator',
+      workflowStateDir: stateDir,
+      workflowDefinitionsDir: path.join(tempDir, 'definitions'),
+      output: { rootDir: outputDir }
+    });
+    coordinator.registerAgent(new PromptAnalyzerAgent({ ...AGENT_CONFIG, id: 'test-prompt', name: 'Test Prompt' }));
+    codeAgent = new CodeGeneratorAgent({ ...AGENT_CONFIG, id: 'test-code', name: 'Test Code' });
+    coordinator.registerAgent(codeAgent);
+  });
+
+  afterEach(async () => {
+    await coordinator.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const loadState = async () => (await new WorkflowStore(stateDir).list())[0];
+
+  it('should write generated files and skip the pull request without GitHub', async () => {
+    jest.spyOn(codeAgent as any, 'validateCode').mockImplementation((input: any) => Promise.resolve(input.generate_code));
+
+    await coordinator.processPrompts(['Create a Button component'], 'prompt-code');
+
+    const state = await loadState();
+    expect(state.status).toBe(TaskStatus.COMPLETED);
+    expect(state.steps.find(step => step.name === 'Create Pull Request')).toMatchObject({ status: TaskStatus.COMPLETED, skipped: true });
+    expect(state.outputFiles?.length).toBeGreaterThan(0);
+    await expect(fs.readdir(outputDir)).resolves.toContain('src');
+  });
+
+  it('should keep generated files when a later step fails', async () => {
+    jest.spyOn(codeAgent as any, 'validateCode').mockImplementation(() => Promise.reject(new Error('Generated code has 2 errors')));
+
+    await coordinator.processPrompts(['Create a Button component'], 'prompt-code');
+
+    const state = await loadState();
+    expect(state.status).toBe(TaskStatus.FAILED);
+    expect(state.outputFiles?.map(file => file.action)).toContain('create');
+    await expect(fs.readdir(outputDir)).resolves.toContain('src');
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkflowStore } from '../workflow/WorkflowStore';
+import { AgentTaskType, AgentType, TaskStatus, WorkflowKind, WorkflowState } from '../types';
+
+describe('WorkflowStore', () => {
+  let directory: string;
+  let store: WorkflowStore;
+
+  const createState = (id: string): WorkflowState => ({
+    id,
+    kind: WorkflowKind.PROMPT,
+    workflowName: 'prompt',
+    source: 'Create a button',
+    status: TaskStatus.FAILED,
+    steps: [
+      {
+        id: 'step-1',
+        name: 'Analyze Prompt',
+        agentType: AgentType.PROMPT_ANALYZER,
+        taskType: AgentTaskType.ANALYZE_PROMPT,
+        dependencies: [],
+        input: { prompt: 'Create a button' },
+        output: { components: ['Button'] },
+        status: TaskStatus.COMPLETED,
+        retryCount: 0
+      },
+      {
+        id: 'step-2',
+        name: 'Generate Code',
+        agentType: AgentType.CODE_GENERATOR,
+        taskType: AgentTaskType.GENERATE_CODE,
+        dependencies: ['Analyze Prompt'],
+        input: {},
+        status: TaskStatus.FAILED,
+        retryCount: 1
+      }
+    ],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-store-'));
+    store = new WorkflowStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist and reload workflow steps with outputs and retry counts', async () => {
+    await store.save(createState('wf-1'));
+
+    const loaded = await store.load('wf-1');
+
+    expect(loaded?.steps[0].output).toEqual({ components: ['Button'] });
+    expect(loaded?.steps[1]).toMatchObject({ status: TaskStatus.FAILED, retryCount: 1 });
+  });
+
+  it('should return null for unknown workflows and list saved ones', async () => {
+    await store.save(createState('wf-1'));
+    await store.save(createState('wf-2'));
+
+    expect(await store.load('missing')).toBeNull();
+    expect((await store.list()).map(s => s.id).sort()).toEqual(['wf-1', 'wf-2']);
+  });
+
+  it('should reject workflow IDs that are not safe file names', async () => {
+    await expect(store.load('../escape')).rejects.toThrow('Invalid workflow ID');
+  });
+});
@@ -22,6 +22,29 @@ export interface JiraTask {
   issueType: string;
   figmaLinks?: string[];
   acceptanceCriteria?: string[];
+  comments?: JiraComment[];
+  attachments?: JiraAttachment[];
+  storyPoints?: number;
+  epicKey?: string;
+  sprint?: string;
+  blockedBy?: string[]; // Keys of issues linked as "is blocked by"
+}
+
+export interface JiraComment {
+  author?: string;
+  created?: string;
+  body: string; // Markdown
+}
+
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  url: string;
+  author?: string;
+  created?: string;
+  localPath?: string; // Set once downloaded to the attachment cache
 }
 
 export interface FigmaDesign {
@@ -30,6 +53,7 @@ export interface FigmaDesign {
   name: string;
   type: string;
   url: string;
+  version?: string; // Figma file version the node data and image belong to
   imageUrl?: string;
   specifications?: DesignSpecification[];
 }
@@ -73,14 +97,85 @@ export interface AgentTask {
   estimatedDuration?: number;
   actualDuration?: number;
   errors?: string[];
+  model?: string; // Overrides the agent's model for this task
+  tokenUsage?: TokenUsage;
+  promptTemplates?: string[]; // "name@version" of the templates that produced the output
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  calls: number;
+}
+
+export interface WorkflowBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  onExceeded: 'fail' | 'downgrade';
+  downgradeModel?: string;
+}
+
+// Exactly one of jql, myTasks or sprintId selects the issues of a batch run
+export interface JiraTaskQuery {
+  jql?: string;
+  myTasks?: boolean;
+  sprintId?: string;
+}
+
+export interface JiraBatchResult {
+  matched: string[];
+  skipped: string[]; // Already processed by a completed workflow
+  queued: string[];
+}
+
+export interface JiraEpicStory {
+  key: string;
+  summary: string;
+  dependsOn: string[]; // Stories of the same Epic that block this one
+  issue: JiraTask; // As fetched with the Epic's children, so the story workflow does not fetch it again
+}
+
+export interface JiraEpicPlan {
+  epicKey: string;
+  summary: string;
+  figmaLinks: string[];
+  stories: JiraEpicStory[];
+  batches: string[][]; // Story keys grouped so that each batch only depends on earlier ones
+  unordered: string[]; // Stories in or behind a dependency cycle, run together in the last batch
+}
+
+export interface JiraEpicResult {
+  epicKey: string;
+  completed: string[];
+  failed: string[];
+  skipped: string[]; // Already processed by a completed workflow
+  blocked: string[]; // Not started because a story they depend on failed
+}
+
+export interface JiraWriteBackOptions {
+  comment: boolean;
+  transition?: string; // Transition or target status name, e.g. "In Review"
+}
+
+export interface JiraWriteBackResult {
+  commentPosted: boolean;
+  transition?: string;
+  errors: string[];
 }
 
 export enum AgentTaskType {
   ANALYZE_PROMPT = 'ANALYZE_PROMPT',
   ANALYZE_JIRA_TASK = 'ANALYZE_JIRA_TASK',
+  SEARCH_JIRA_TASKS = 'SEARCH_JIRA_TASKS',
+  DECOMPOSE_JIRA_EPIC = 'DECOMPOSE_JIRA_EPIC',
+  UPDATE_JIRA_TASK = 'UPDATE_JIRA_TASK',
   EXTRACT_FIGMA_DESIGN = 'EXTRACT_FIGMA_DESIGN',
   GENERATE_CODE = 'GENERATE_CODE',
   CREATE_TESTS = 'CREATE_TESTS',
+  VALIDATE_CODE = 'VALIDATE_CODE',
+  RUN_TESTS = 'RUN_TESTS',
   CREATE_PULL_REQUEST = 'CREATE_PULL_REQUEST',
   REVIEW_CODE = 'REVIEW_CODE',
   UPDATE_DOCUMENTATION = 'UPDATE_DOCUMENTATION'
@@ -110,6 +205,50 @@ export interface AgentConfig {
   maxConcurrentTasks: number;
   retryAttempts: number;
   timeout: number;
+  retryPolicy?: Partial<RetryPolicyOptions>;
+  cassette?: CassetteOptions;
+  structuredOutputRetries?: number;
+  temperature?: number;
+  maxTokens?: number;
+  fallbackModels?: string[];
+  modelRouting?: ModelRoutingConfig;
+  promptTemplatesDir?: string;
+  projectContext?: ProjectContext;
+}
+
+export interface ModelSettings {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  fallbacks?: string[]; // tried in order when the primary model fails
+}
+
+export interface ModelRoutingConfig {
+  default?: Partial<ModelSettings>;
+  agents?: Partial<Record<AgentType, Partial<ModelSettings>>>;
+  tasks?: Partial<Record<AgentTaskType, Partial<ModelSettings>>>;
+}
+
+export interface StructuredOutputOptions {
+  context?: any;
+  signal?: AbortSignal;
+  maxRetries?: number;
+}
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  directory?: string;
+}
+
+export interface RetryPolicyOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  jitter: number; // 0-1, share of the delay that is randomized
+  isRetryable?: (error: unknown) => boolean;
 }
 
 export enum AgentType {
@@ -126,11 +265,39 @@ export interface WorkflowStep {
   id: string;
   name: string;
   agentType: AgentType;
+  taskType: AgentTaskType;
   dependencies: string[];
+  inputMappings?: { [inputKey: string]: string };
   input: any;
   output?: any;
   status: TaskStatus;
   retryCount: number;
+  skipped?: boolean; // Completed without running because its optional integration is not configured
+  model?: string;
+  tokenUsage?: TokenUsage;
+  promptTemplates?: string[];
+}
+
+export interface WorkflowState {
+  id: string;
+  kind: WorkflowKind;
+  workflowName: string;
+  source: string;
+  status: TaskStatus;
+  steps: WorkflowStep[];
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+  tokenUsage?: TokenUsage;
+  budgetExceeded?: boolean;
+  outputFiles?: FileWriteResult[];
+  jiraWriteBack?: JiraWriteBackResult;
+  epicKey?: string; // Set on story workflows spawned for an Epic
+}
+
+export enum WorkflowKind {
+  PROMPT = 'PROMPT',
+  JIRA = 'JIRA'
 }
 
 export interface MCPConnection {
@@ -149,8 +316,31 @@ export interface CodeGenerationRequest {
   styling: string;
   features: string[];
   designSpecs: DesignSpecification[];
-  existingCode?: string;
-  dependencies?: string[];
+  existingCode?: string; // current source of a component with the same name in the target project
+  dependencies?: string[]; // packages already installed in the target project
+}
+
+export interface ProjectContext {
+  rootDir: string;
+  name?: string;
+  language: 'TypeScript' | 'JavaScript';
+  framework?: string;
+  styling?: string;
+  uiLibraries: string[];
+  testFramework?: string;
+  dependencies: string[];
+  importAliases: { [alias: string]: string };
+  componentDir?: string;
+  fileNaming?: 'PascalCase' | 'kebab-case' | 'camelCase';
+  components: ExistingComponent[];
+  lintConfigs: string[];
+  formatting?: { semi?: boolean; singleQuote?: boolean; tabWidth?: number };
+  sampleComponent?: { path: string; content: string };
+}
+
+export interface ExistingComponent {
+  name: string;
+  path: string; // relative to the project root
 }
 
 export interface CodeGenerationResult {
@@ -159,6 +349,48 @@ export interface CodeGenerationResult {
   documentation: string;
   dependencies: string[];
   buildCommands: string[];
+  validation?: CodeValidationReport;
+}
+
+export interface CodeDiagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  source: 'typescript' | 'eslint';
+  code?: string; // "TS2322" or the ESLint rule id
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CodeValidationReport {
+  passed: boolean;
+  fixIterations: number;
+  errors: CodeDiagnostic[];
+  warnings: CodeDiagnostic[];
+  fixedFiles: string[];
+}
+
+export interface TestRunReport {
+  status: 'passed' | 'failed' | 'error' | 'skipped';
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationMs: number;
+  suites: TestSuiteResult[];
+  coverage?: { lines: number; statements: number; functions: number; branches: number }; // percentages
+  message?: string; // why the run errored or was skipped
+}
+
+export interface TestSuiteResult {
+  file: string;
+  status: 'passed' | 'failed' | 'error'; // "error" when the suite could not run at all
+  failures: TestFailure[];
+  message?: string;
+}
+
+export interface TestFailure {
+  test: string;
+  message: string;
 }
 
 export interface GeneratedFile {
@@ -174,4 +406,21 @@ export enum FileType {
   TEST = 'TEST',
   CONFIG = 'CONFIG',
   DOCUMENTATION = 'DOCUMENTATION'
+}
+
+export type WriteStrategy = 'overwrite' | 'skip' | 'merge';
+
+export interface OutputOptions {
+  rootDir: string;
+  dryRun?: boolean;
+  strategies?: Partial<Record<FileType, WriteStrategy>>;
+}
+
+export interface FileWriteResult {
+  path: string;
+  type: FileType;
+  action: 'create' | 'overwrite' | 'merge' | 'skip' | 'unchanged';
+  conflict: boolean; // the file existed with different content
+  dryRun: boolean;
+  diff?: string;
 } 
\ No newline at end of file
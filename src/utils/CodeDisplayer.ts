@@ -1,4 +1,4 @@
-import { GeneratedFile, FileType } from '../types';
+import { FileType, FileWriteResult, GeneratedFile } from '../types';
 
 // Simple color utility without external dependencies
 const colors = {
@@ -302,6 +302,34 @@ export class CodeDisplayer {
     return match ? match[0] : '';
   }
 
+  /**
+   * Display the outcome of writing generated files, with colored diffs of every change
+   */
+  public static displayWriteResults(results: FileWriteResult[], rootDir: string): void {
+    const dryRun = results.some(r => r.dryRun);
+
+    console.log(colors.bold.green(`\n💾 ${dryRun ? 'DRY RUN: CHANGES THAT WOULD BE WRITTEN TO' : 'FILES WRITTEN TO'} ${rootDir}`));
+    console.log(colors.gray('=' .repeat(60)));
+
+    for (const result of results) {
+      const label = `${result.action.toUpperCase()}${result.conflict ? ' (conflict)' : ''}`;
+      const color = result.action === 'skip' || result.conflict ? colors.yellow : colors.green;
+      console.log(`${color(label.padEnd(22))} ${result.path}`);
+
+      if (dryRun && result.diff) {
+        result.diff.trimEnd().split('\n').forEach(line => {
+          const lineColor = line.startsWith('@@') ? colors.cyan
+            : line.startsWith('+') ? colors.green
+              : line.startsWith('-') ? colors.red
+                : colors.gray;
+          console.log(`  ${lineColor(line)}`);
+        });
+      }
+    }
+
+    console.log(colors.gray('=' .repeat(60)));
+  }
+
   /**
    * Display code with custom title and separator
    */
@@ -0,0 +1,131 @@
+import { RetryPolicyOptions } from '../types';
+import { PermanentTaskError } from './errors';
+
+const DEFAULT_OPTIONS: RetryPolicyOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  jitter: 0.5
+};
+
+const RETRYABLE_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Decides whether a failed task attempt should be retried and how long to wait before the next one
+ */
+export class RetryPolicy {
+  private options: RetryPolicyOptions;
+
+  constructor(options: Partial<RetryPolicyOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getMaxAttempts(): number {
+    return this.options.maxAttempts;
+  }
+
+  /**
+   * Check whether another attempt should be made after the given (1-based) attempt failed
+   */
+  shouldRetry(error: unknown, attempt: number): boolean {
+    if (attempt >= this.options.maxAttempts) {
+      return false;
+    }
+
+    return (this.options.isRetryable || RetryPolicy.isRetryableError)(error);
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After when the server sent one, otherwise exponential backoff with jitter
+   */
+  getDelay(error: unknown, attempt: number): number {
+    const retryAfter = RetryPolicy.getRetryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.options.maxDelayMs);
+    }
+
+    const { initialDelayMs, maxDelayMs, backoffFactor, jitter } = this.options;
+    const delay = Math.min(maxDelayMs, initialDelayMs * Math.pow(backoffFactor, attempt - 1));
+
+    return Math.round(delay * (1 - jitter * Math.random()));
+  }
+
+  /**
+   * Default classification: rate limits, server errors, timeouts and network failures are transient,
+   * other HTTP client errors and invalid input are permanent
+   */
+  static isRetryableError(error: unknown): boolean {
+    if (RetryPolicy.findInChain<boolean>(error, e => e instanceof PermanentTaskError || undefined)) {
+      return false;
+    }
+
+    const status = RetryPolicy.getStatusCode(error);
+    if (status !== undefined) {
+      return RETRYABLE_STATUS_CODES.includes(status) || status > 504;
+    }
+
+    const code = RetryPolicy.findInChain<string>(error, e => typeof e.code === 'string' ? e.code : undefined);
+    if (code && RETRYABLE_NETWORK_CODES.includes(code)) {
+      return true;
+    }
+
+    return !(error instanceof TypeError || error instanceof SyntaxError || error instanceof ReferenceError);
+  }
+
+  /**
+   * Extract the HTTP status from axios/OpenAI style errors, their causes or a wrapped error message
+   */
+  static getStatusCode(error: unknown): number | undefined {
+    const status = RetryPolicy.findInChain<number>(error, e => {
+      const value = e.response?.status ?? e.status;
+      return typeof value === 'number' ? value : undefined;
+    });
+    if (status !== undefined) {
+      return status;
+    }
+
+    // MCP clients wrap errors as `Failed to ...: AxiosError: Request failed with status code 404`
+    const match = (error instanceof Error ? error.message : String(error)).match(/status code (\d{3})/);
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  /**
+   * Read the Retry-After header (seconds or HTTP date) of a 429/503 response in milliseconds
+   */
+  static getRetryAfterMs(error: unknown): number | undefined {
+    const header = RetryPolicy.findInChain<string>(error, e => {
+      const headers = e.response?.headers ?? e.headers;
+      const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+      return value !== undefined && value !== null ? String(value) : undefined;
+    });
+
+    if (!header) {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private static findInChain<T>(error: unknown, pick: (error: any) => T | undefined): T | undefined {
+    let current: any = error;
+
+    for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+      const value = pick(current);
+      if (value !== undefined) {
+        return value;
+      }
+      current = current.cause;
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Failures caused by the task itself (bad input, unsupported work, output that could not be fixed)
+ * that no amount of retrying will fix
+ */
+export class PermanentTaskError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'PermanentTaskError';
+    this.code = code;
+  }
+}
@@ -1 +1,3 @@
-export { CodeDisplayer, CodeDisplayOptions } from './CodeDisplayer'; 
\ No newline at end of file
+export { CodeDisplayer, CodeDisplayOptions } from './CodeDisplayer';
+export { PermanentTaskError } from './errors';
+export { RetryPolicy } from './RetryPolicy';
\ No newline at end of file
@@ -0,0 +1,277 @@
+import * as fs from 'fs/promises';
+import { createRequire } from 'module';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import type { ESLint, Linter } from 'eslint';
+import { CodeDiagnostic, GeneratedFile, ProjectContext } from '../types';
+
+export interface CodeValidatorOptions {
+  projectContext?: ProjectContext;
+  eslintConfigFile?: string;
+  sandboxDir?: string;
+}
+
+const CHECKED_FILES = /\.(tsx?|jsx?)$/;
+
+// Without the target project's packages every import resolves to `any`, and test globals are declared
+const SANDBOX_DECLARATIONS = `declare module '*';
+declare namespace JSX {
+  interface IntrinsicElements { [element: string]: any }
+}
+declare const describe: any;
+declare const it: any;
+declare const test: any;
+declare const expect: any;
+declare const jest: any;
+declare const beforeEach: any;
+declare const afterEach: any;
+`;
+const SANDBOX_DECLARATIONS_FILE = '__sandbox__.d.ts';
+
+// "Namespace '"*"' has no exported member" comes from the wildcard module above, not from the generated code
+const STUB_NAMESPACE_ERROR = 2694;
+
+const DEFAULT_ESLINT_CONFIG: Linter.Config = {
+  root: true,
+  parserOptions: { ecmaVersion: 2020, sourceType: 'module', ecmaFeatures: { jsx: true } },
+  plugins: ['@typescript-eslint'],
+  extends: ['eslint:recommended', 'plugin:@typescript-eslint/recommended'],
+  env: { browser: true, es2020: true, jest: true }
+};
+
+// ESLint and the TypeScript parser, loaded from the installation the plugins are resolved from
+interface LintToolchain {
+  ESLint: typeof ESLint;
+  parser: string;
+  pluginsDir: string;
+}
+
+/**
+ * Type-checks and lints a generated file set in a throwaway sandbox directory
+ *
+ * When a target project is known its node_modules, import aliases and declaration files are
+ * used, so generated code is checked against the real packages and existing sources.
+ */
+export class CodeValidator {
+  private projectContext?: ProjectContext;
+  private eslintConfigFile?: string;
+  private sandboxDir: string;
+
+  constructor(options: CodeValidatorOptions = {}) {
+    this.projectContext = options.projectContext;
+    this.eslintConfigFile = options.eslintConfigFile;
+    this.sandboxDir = options.sandboxDir || os.tmpdir();
+  }
+
+  /**
+   * Collect TypeScript and ESLint diagnostics for the script files of a generated file set
+   */
+  async validate(files: GeneratedFile[]): Promise<CodeDiagnostic[]> {
+    const sources = files.filter(f => CHECKED_FILES.test(f.path));
+    if (sources.length === 0) {
+      return [];
+    }
+
+    await fs.mkdir(this.sandboxDir, { recursive: true });
+    const sandbox = await fs.mkdtemp(path.join(this.sandboxDir, 'code-validation-'));
+
+    try {
+      for (const file of files) {
+        const filePath = this.resolvePath(sandbox, file.path);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.content, 'utf-8');
+      }
+
+      const usesProjectPackages = await this.linkProjectPackages(sandbox);
+      if (!usesProjectPackages) {
+        await fs.writeFile(path.join(sandbox, SANDBOX_DECLARATIONS_FILE), SANDBOX_DECLARATIONS, 'utf-8');
+      }
+
+      return [
+        ...this.typeCheck(sandbox, sources, usesProjectPackages),
+        ...await this.lint(sandbox, sources)
+      ];
+    } finally {
+      await fs.rm(sandbox, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Run the TypeScript compiler without emitting and keep diagnostics of the generated files
+   */
+  private typeCheck(sandbox: string, sources: GeneratedFile[], usesProjectPackages: boolean): CodeDiagnostic[] {
+    const rootNames = sources.map(f => path.join(sandbox, f.path));
+    if (usesProjectPackages) {
+      rootNames.push(...this.getProjectDeclarations());
+    } else {
+      rootNames.push(path.join(sandbox, SANDBOX_DECLARATIONS_FILE));
+    }
+
+    const program = ts.createProgram(rootNames, this.getCompilerOptions(sandbox, usesProjectPackages));
+    const sourcePaths = new Map(sources.map(f => [path.join(sandbox, f.path), f.path]));
+
+    return ts.getPreEmitDiagnostics(program)
+      .filter(d => d.file && sourcePaths.has(path.normalize(d.file.fileName)))
+      .filter(d => usesProjectPackages || d.code !== STUB_NAMESPACE_ERROR)
+      .map(d => {
+        const position = d.start !== undefined ? d.file!.getLineAndCharacterOfPosition(d.start) : undefined;
+        return {
+          file: sourcePaths.get(path.normalize(d.file!.fileName))!,
+          line: position ? position.line + 1 : undefined,
+          column: position ? position.character + 1 : undefined,
+          source: 'typescript' as const,
+          code: `TS${d.code}`,
+          severity: d.category === ts.DiagnosticCategory.Error ? 'error' as const : 'warning' as const,
+          message: ts.flattenDiagnosticMessageText(d.messageText, '\n')
+        };
+      });
+  }
+
+  /**
+   * Lint with the configured ESLint config, or a recommended TypeScript setup by default
+   *
+   * Uses the target project's ESLint when it has one; a missing toolchain is reported as a warning.
+   */
+  private async lint(sandbox: string, sources: GeneratedFile[]): Promise<CodeDiagnostic[]> {
+    const toolchain = this.loadLintToolchain();
+    if (!toolchain) {
+      return [{
+        file: sources[0].path,
+        source: 'eslint',
+        severity: 'warning',
+        message: 'ESLint with @typescript-eslint is not installed in the target project, lint skipped'
+      }];
+    }
+
+    const eslint = new toolchain.ESLint({
+      cwd: sandbox,
+      useEslintrc: false,
+      overrideConfigFile: this.eslintConfigFile ? path.resolve(this.eslintConfigFile) : undefined,
+      overrideConfig: this.eslintConfigFile ? undefined : { ...DEFAULT_ESLINT_CONFIG, parser: toolchain.parser },
+      resolvePluginsRelativeTo: toolchain.pluginsDir
+    });
+
+    let results: ESLint.LintResult[];
+    try {
+      results = await eslint.lintFiles(sources.map(f => path.join(sandbox, f.path)));
+    } catch (error) {
+      throw new Error(`Failed to lint generated code: ${error}`);
+    }
+
+    const sourcePaths = new Map(sources.map(f => [path.join(sandbox, f.path), f.path]));
+
+    return results.flatMap(result => result.messages.map(message => ({
+      file: sourcePaths.get(path.normalize(result.filePath)) || result.filePath,
+      line: message.line,
+      column: message.column,
+      source: 'eslint' as const,
+      code: message.ruleId || undefined,
+      severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+      message: message.message
+    })));
+  }
+
+  /**
+   * Load the lint toolchain from the target project, falling back to the one installed next to this package
+   */
+  private loadLintToolchain(): LintToolchain | undefined {
+    const origins = [__filename];
+    if (this.projectContext) {
+      origins.unshift(path.join(path.resolve(this.projectContext.rootDir), 'package.json'));
+    }
+
+    for (const origin of origins) {
+      const load = createRequire(origin);
+      try {
+        load.resolve('@typescript-eslint/eslint-plugin');
+        return {
+          ESLint: (load('eslint') as typeof import('eslint')).ESLint,
+          parser: load.resolve('@typescript-eslint/parser'),
+          pluginsDir: path.dirname(origin)
+        };
+      } catch {
+        // Not installed there, try the next origin
+      }
+    }
+
+    return undefined;
+  }
+
+  private getCompilerOptions(sandbox: string, usesProjectPackages: boolean): ts.CompilerOptions {
+    const options: ts.CompilerOptions = {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      jsx: ts.JsxEmit.ReactJSX,
+      strict: true,
+      // Stubbed imports are untyped, so implicit any would only report the missing packages
+      noImplicitAny: usesProjectPackages,
+      noEmit: true,
+      skipLibCheck: true,
+      esModuleInterop: true,
+      allowJs: true,
+      resolveJsonModule: true,
+      types: usesProjectPackages ? undefined : []
+    };
+
+    if (this.projectContext) {
+      // Generated files shadow project files; imports of existing sources fall through to the project
+      const projectRoot = path.resolve(this.projectContext.rootDir);
+      options.baseUrl = sandbox;
+      options.rootDirs = [sandbox, projectRoot];
+      options.paths = Object.fromEntries(
+        Object.entries(this.projectContext.importAliases).map(([alias, target]) => [alias, [target, path.join(projectRoot, target)]])
+      );
+    }
+
+    return options;
+  }
+
+  /**
+   * Make the target project's packages resolvable from the sandbox; false when there are none
+   */
+  private async linkProjectPackages(sandbox: string): Promise<boolean> {
+    if (!this.projectContext) {
+      return false;
+    }
+
+    const nodeModules = path.join(path.resolve(this.projectContext.rootDir), 'node_modules');
+    try {
+      await fs.access(nodeModules);
+    } catch {
+      return false;
+    }
+
+    await fs.symlink(nodeModules, path.join(sandbox, 'node_modules'), 'dir');
+    return true;
+  }
+
+  /**
+   * Ambient declarations of the target project, e.g. CSS module or asset typings
+   */
+  private getProjectDeclarations(): string[] {
+    const projectRoot = path.resolve(this.projectContext!.rootDir);
+    return ts.sys.readDirectory(projectRoot, ['.d.ts'], ['node_modules', 'dist', 'build', 'coverage'], ['**/*.d.ts']);
+  }
+
+  private resolvePath(sandbox: string, filePath: string): string {
+    const absolutePath = path.resolve(sandbox, filePath);
+    const relative = path.relative(sandbox, absolutePath);
+
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Refusing to validate a file outside the sandbox: ${filePath}`);
+    }
+
+    return absolutePath;
+  }
+}
+
+/**
+ * Format diagnostics as "path:line:column - CODE: message" lines
+ */
+export function formatDiagnostics(diagnostics: CodeDiagnostic[]): string {
+  return diagnostics
+    .map(d => `${d.file}${d.line ? `:${d.line}:${d.column || 1}` : ''} - ${d.code || d.source}: ${d.message}`)
+    .join('\n');
+}
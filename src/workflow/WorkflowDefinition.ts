@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AgentTaskType,
+  AgentType,
+  TaskStatus,
+  WorkflowKind,
+  WorkflowStep
+} from '../types';
+
+const WorkflowStepDefinitionSchema = z.object({
+  name: z.string().min(1),
+  agentType: z.nativeEnum(AgentType),
+  taskType: z.nativeEnum(AgentTaskType),
+  dependencies: z.array(z.string()).default([]),
+  input: z.record(z.any()).default({}),
+  inputMappings: z.record(z.string().min(1)).optional()
+});
+
+export const WorkflowDefinitionSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, 'Workflow name may only contain letters, digits, "_" and "-"'),
+  description: z.string().optional(),
+  kind: z.nativeEnum(WorkflowKind),
+  steps: z.array(WorkflowStepDefinitionSchema).min(1)
+}).superRefine((definition, ctx) => {
+  const names = new Set<string>();
+
+  definition.steps.forEach((step, index) => {
+    if (names.has(step.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['steps', index, 'name'],
+        message: `Duplicate step name: ${step.name}`
+      });
+    }
+    names.add(step.name);
+  });
+
+  definition.steps.forEach((step, index) => {
+    step.dependencies.forEach((dependency, depIndex) => {
+      if (!names.has(dependency)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', index, 'dependencies', depIndex],
+          message: `Unknown dependency: ${dependency}`
+        });
+      }
+    });
+
+    Object.entries(step.inputMappings || {}).forEach(([key, source]) => {
+      const sourceStep = source.split('.')[0];
+      if (!step.dependencies.includes(sourceStep)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', index, 'inputMappings', key],
+          message: `Input mapping must reference a dependency of '${step.name}': ${source}`
+        });
+      }
+    });
+  });
+
+  const cycle = findDependencyCycle(definition.steps);
+  if (cycle) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['steps'],
+      message: `Dependency cycle detected: ${cycle.join(' -> ')}`
+    });
+  }
+});
+
+export type WorkflowStepDefinition = z.infer<typeof WorkflowStepDefinitionSchema>;
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+
+/**
+ * Validate a raw workflow definition, throwing a readable error on failure
+ */
+export function parseWorkflowDefinition(raw: unknown, source: string = 'workflow definition'): WorkflowDefinition {
+  const result = WorkflowDefinitionSchema.safeParse(raw);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid ${source}:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Instantiate runnable workflow steps from a definition
+ *
+ * String inputs may reference the workflow source (prompt text or Jira key) with "{{source}}".
+ */
+export function createWorkflowSteps(definition: WorkflowDefinition, source: string): WorkflowStep[] {
+  return definition.steps.map(step => ({
+    id: uuidv4(),
+    name: step.name,
+    agentType: step.agentType,
+    taskType: step.taskType,
+    dependencies: [...step.dependencies],
+    inputMappings: step.inputMappings ? { ...step.inputMappings } : undefined,
+    input: interpolateSource(step.input, source),
+    status: TaskStatus.PENDING,
+    retryCount: 0
+  }));
+}
+
+function interpolateSource(value: any, source: string): any {
+  if (typeof value === 'string') {
+    return value === '{{source}}' ? source : value.replace(/\{\{source\}\}/g, source);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateSource(item, source));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateSource(item, source)]));
+  }
+  return value;
+}
+
+function findDependencyCycle(steps: WorkflowStepDefinition[]): string[] | null {
+  const byName = new Map(steps.map(step => [step.name, step]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (name: string, trail: string[]): string[] | null => {
+    if (visiting.has(name)) {
+      return [...trail.slice(trail.indexOf(name)), name];
+    }
+    if (visited.has(name)) {
+      return null;
+    }
+
+    visiting.add(name);
+    for (const dependency of byName.get(name)?.dependencies || []) {
+      const cycle = visit(dependency, [...trail, name]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    visiting.delete(name);
+    visited.add(name);
+
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.name, []);
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+}
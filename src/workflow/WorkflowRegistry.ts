@@ -0,0 +1,92 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { WorkflowDefinition, parseWorkflowDefinition } from './WorkflowDefinition';
+import designOnlyWorkflow from './definitions/design-only.json';
+import jiraWorkflow from './definitions/jira.json';
+import promptWorkflow from './definitions/prompt.json';
+
+/**
+ * Resolves workflow definitions by name from built-ins and a custom definitions directory
+ */
+export class WorkflowRegistry {
+  private definitions: Map<string, WorkflowDefinition>;
+  private definitionsDir?: string;
+  private customLoaded: boolean = false;
+
+  constructor(definitionsDir?: string) {
+    this.definitionsDir = definitionsDir || process.env.WORKFLOW_DEFINITIONS_DIR;
+    this.definitions = new Map();
+
+    for (const [name, raw] of Object.entries({ 'prompt': promptWorkflow, 'jira': jiraWorkflow, 'design-only': designOnlyWorkflow })) {
+      this.register(parseWorkflowDefinition(raw, `built-in workflow '${name}'`));
+    }
+  }
+
+  /**
+   * Register a validated definition, replacing any existing one with the same name
+   */
+  register(definition: WorkflowDefinition): void {
+    this.definitions.set(definition.name, definition);
+  }
+
+  /**
+   * Get a workflow definition by name or by path to a JSON definition file
+   */
+  async get(nameOrPath: string): Promise<WorkflowDefinition> {
+    if (nameOrPath.endsWith('.json')) {
+      return this.loadFile(nameOrPath);
+    }
+
+    await this.loadCustomDefinitions();
+
+    const definition = this.definitions.get(nameOrPath);
+    if (!definition) {
+      throw new Error(`Unknown workflow: ${nameOrPath}. Available: ${[...this.definitions.keys()].join(', ')}`);
+    }
+
+    return definition;
+  }
+
+  /**
+   * List names of all available workflows
+   */
+  async list(): Promise<string[]> {
+    await this.loadCustomDefinitions();
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Load and validate a single JSON definition file
+   */
+  async loadFile(filePath: string): Promise<WorkflowDefinition> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read workflow definition ${filePath}: ${error}`);
+    }
+
+    return parseWorkflowDefinition(raw, `workflow definition ${filePath}`);
+  }
+
+  /**
+   * Load every *.json definition from the custom definitions directory once
+   */
+  private async loadCustomDefinitions(): Promise<void> {
+    if (this.customLoaded || !this.definitionsDir) {
+      return;
+    }
+    this.customLoaded = true;
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.definitionsDir);
+    } catch (error) {
+      throw new Error(`Failed to read workflow definitions directory ${this.definitionsDir}: ${error}`);
+    }
+
+    for (const entry of entries.filter(e => e.endsWith('.json')).sort()) {
+      this.register(await this.loadFile(path.join(this.definitionsDir, entry)));
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { WorkflowState } from '../types';
+
+/**
+ * Persists workflow state as JSON files so interrupted runs can be resumed
+ */
+export class WorkflowStore {
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.WORKFLOW_STATE_DIR || path.join(process.cwd(), '.workflows');
+  }
+
+  /**
+   * Save workflow state, replacing any previous version atomically
+   */
+  async save(state: WorkflowState): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+
+      const filePath = this.getFilePath(state.id);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+
+      await fs.writeFile(tempPath, JSON.stringify({ ...state, updatedAt: new Date().toISOString() }, null, 2), 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      throw new Error(`Failed to save workflow ${state.id}: ${error}`);
+    }
+  }
+
+  /**
+   * Load workflow state by ID, or null if it was never persisted
+   */
+  async load(workflowId: string): Promise<WorkflowState | null> {
+    try {
+      const content = await fs.readFile(this.getFilePath(workflowId), 'utf-8');
+      return JSON.parse(content) as WorkflowState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Failed to load workflow ${workflowId}: ${error}`);
+    }
+  }
+
+  /**
+   * List all persisted workflows, most recently updated first
+   */
+  async list(): Promise<WorkflowState[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const states: WorkflowState[] = [];
+    for (const entry of entries.filter(e => e.endsWith('.json'))) {
+      const state = await this.load(entry.replace(/\.json$/, ''));
+      if (state) {
+        states.push(state);
+      }
+    }
+
+    return states.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async delete(workflowId: string): Promise<void> {
+    await fs.rm(this.getFilePath(workflowId), { force: true });
+  }
+
+  private getFilePath(workflowId: string): string {
+    if (!/^[\w-]+$/.test(workflowId)) {
+      throw new Error(`Invalid workflow ID: ${workflowId}`);
+    }
+
+    return path.join(this.directory, `${workflowId}.json`);
+  }
+}